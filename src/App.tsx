@@ -3,7 +3,7 @@ import { ConnectionForm } from './components/ConnectionForm'
 import { CollectionList } from './components/CollectionList'
 import { StatusDisplay } from './components/StatusDisplay'
 import { SettingsManager } from './components/SettingsManager'
-import { validateDirectusToken, getAllCollections } from './lib/apiHandlers'
+import { getAllCollections } from './lib/apiHandlers'
 import { testDirectusConnection, savePresetConfiguration } from './lib/connectionTest'
 import { DirectusClient } from './lib/DirectusClient'
 import type { OperationStatus, Collection } from './types'
@@ -66,10 +66,6 @@ function App() {
         throw new Error(`Target connection failed: ${targetTestResult.message}`)
       }
 
-      // Create clients for data fetching
-      const sourceClient = new DirectusClient(sourceUrl, sourceToken)
-      const targetClient = new DirectusClient(targetUrl, targetToken)
-
       // Get collections from both instances
       const [sourceCollectionsResult, targetCollectionsResult] = await Promise.all([
         getAllCollections(sourceUrl, sourceToken),
@@ -187,6 +183,35 @@ function App() {
     }
   }
 
+  const handleLogin = async (type: 'source' | 'target', email: string, password: string) => {
+    const url = type === 'source' ? sourceUrl : targetUrl
+
+    setTestResults(prev => ({
+      ...prev,
+      [type]: { success: false, message: '', loading: true }
+    }))
+
+    try {
+      // The client keeps the refresh token, so every handler using this access token stays signed in
+      const client = await DirectusClient.createWithLogin(url, email, password)
+      if (type === 'source') {
+        setSourceToken(client.getToken())
+      } else {
+        setTargetToken(client.getToken())
+      }
+
+      setTestResults(prev => ({
+        ...prev,
+        [type]: { success: true, message: `Signed in as ${email}`, loading: false }
+      }))
+    } catch (error: any) {
+      setTestResults(prev => ({
+        ...prev,
+        [type]: { success: false, message: error.message, loading: false }
+      }))
+    }
+  }
+
   const handleSavePreset = async (type: 'source' | 'target') => {
     const environment = type === 'source' ? sourceEnvironment : targetEnvironment
     const url = type === 'source' ? sourceUrl : targetUrl
@@ -258,6 +283,7 @@ function App() {
             onConnect={handleConnect}
             onTestConnection={handleTestConnection}
             onSavePreset={handleSavePreset}
+            onLogin={handleLogin}
             loading={loading.connect}
             testResults={testResults}
           />
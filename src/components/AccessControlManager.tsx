@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
-  fetchAccessControlData, 
   analyzeAccessControlData, 
   importAccessControlData,
   type AccessControlMigrationOptions,
@@ -10,6 +9,7 @@ import {
   type DirectusPermission
 } from '../lib/accessControlHandler';
 import { DirectusClient } from '../lib/DirectusClient';
+import { getRenameMap } from '../lib/renameMap';
 
 interface AccessControlManagerProps {
   sourceUrl: string;
@@ -68,12 +68,20 @@ export function AccessControlManager({
   const [migrationResults, setMigrationResults] = useState<any>(null);
   const [validationResults, setValidationResults] = useState<any>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Closing the modal stops a running migration instead of leaving it in the background
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
 
   // Load source data when modal opens
   useEffect(() => {
     if (isVisible && step === 'selection') {
       loadSourceData();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
   }, [isVisible, sourceUrl, sourceToken]);
 
   // Helper functions to determine status
@@ -94,25 +102,6 @@ export function AccessControlManager({
   };
 
   // Filter functions
-  const getFilteredPermissions = () => {
-    let filtered = sourcePermissions;
-    
-    // Apply policy filter first
-    if (selectedPolicies.length > 0) {
-      filtered = filtered.filter(p => selectedPolicies.includes(p.policy || ''));
-    }
-    
-    // Apply permission filter
-    switch (permissionFilter) {
-      case 'related':
-        return filtered.filter(p => p.policy && selectedPolicies.includes(p.policy));
-      case 'orphaned':
-        return filtered.filter(p => !p.policy);
-      default:
-        return filtered;
-    }
-  };
-
   const getFilteredPolicies = () => {
     switch (policyFilter) {
       case 'existing':
@@ -145,8 +134,6 @@ export function AccessControlManager({
 
   // Auto-select policies and permissions when roles change
   const updatePoliciesAndPermissionsFromRoles = (roleIds: string[]) => {
-    const selectedRolesData = sourceRoles.filter(role => roleIds.includes(role.id));
-    
     // Get all policies from selected roles
     const rolePolicies = sourceRoles
       .filter(role => roleIds.includes(role.id))
@@ -181,7 +168,7 @@ export function AccessControlManager({
     };
     
     // Apply search filter and status filter
-    let filteredPermissions = sourcePermissions.filter(permission => {
+    const filteredPermissions = sourcePermissions.filter(permission => {
       // Search filter
       if (permissionSearch) {
         const searchLower = permissionSearch.toLowerCase();
@@ -258,7 +245,6 @@ export function AccessControlManager({
       const policy = sourcePolicies.find(p => p.id === policyId);
       const policyName = policy?.name || `Policy ${policyId.substring(0, 8)}`;
       const groupKey = `large-policy-${policyId.substring(0, 8)}`;
-      const permissionCount = policyPermissionCounts[policyId];
       
       groups[groupKey] = {
         title: policyName,
@@ -533,6 +519,8 @@ export function AccessControlManager({
 
   const executeMigration = async () => {
     setLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     // Stay on selection step to show progress and results in main screen
     // setStep('migrate'); // Commented out to keep in main screen
     
@@ -552,12 +540,18 @@ export function AccessControlManager({
         permissionsToMigrate,
         targetUrl,
         targetToken,
-        migrationOptions
+        { ...migrationOptions, renames: getRenameMap(sourceUrl, targetUrl), signal: controller.signal }
       );
       
       setMigrationResults(result);
       
-      if (result.success) {
+      if (result.cancelled) {
+        await loadSourceData();
+        onStatusUpdate({
+          type: 'warning',
+          message: result.message
+        });
+      } else if (result.success) {
         // Deselect successfully migrated items
         const successfulRoleIds = result.importedRoles?.filter((r: any) => r.status === 'success').map((r: any) => r.originalId) || [];
         const successfulPolicyIds = result.importedPolicies?.filter((p: any) => p.status === 'success').map((p: any) => p.originalId) || [];
@@ -589,6 +583,7 @@ export function AccessControlManager({
       });
       setStep('selection');
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
@@ -620,7 +615,7 @@ export function AccessControlManager({
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
           <h2 style={{ margin: 0, color: '#7c3aed' }}>🔐 Access Control Migration</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             style={{
               backgroundColor: '#6b7280',
               color: 'white',
@@ -743,6 +738,23 @@ export function AccessControlManager({
                   >
                     {loading ? 'Migrating...' : 'Migrate Selected'}
                   </button>
+
+                  {loading && abortControllerRef.current && (
+                    <button
+                      onClick={() => abortControllerRef.current?.abort()}
+                      style={{
+                        backgroundColor: 'white',
+                        color: '#dc2626',
+                        padding: '0.75rem 1.5rem',
+                        border: '1px solid #dc2626',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem'
+                      }}
+                    >
+                      ⏹ Stop
+                    </button>
+                  )}
                 </div>
 
                 {/* Permissions Section - Grouped */}
@@ -1,12 +1,35 @@
 import React, { useState } from 'react'
-import { importFromDirectus, previewCollectionItems, importSelectedItems, getRelations } from '../lib/apiHandlers'
+import { importFromDirectus, previewCollectionItems, importSelectedItems, countChangedItems } from '../lib/apiHandlers'
+import { clearSyncState } from '../lib/syncState'
+import { getAllMatchKeys, saveMatchKey } from '../lib/matchKeys'
+import { planMirrorDeletions, executeMirrorDeletions, DEFAULT_MAX_DELETES, type MirrorPlan } from '../lib/mirrorHandler'
+import { resolveItemClosure, migrateItemClosure, type ItemClosure } from '../lib/itemClosure'
+import { buildGraphExport, formatGraph, GRAPH_EXPORT_EXTENSIONS, type GraphExportFormat } from '../lib/graphExport'
+import { DESTRUCTIVE_CONFIRMATION, estimateDataLoss, fieldChangeKey, formatSchemaValue, getDestructiveChanges, getFieldChanges, listSnapshotCollections, listSnapshotFields, type DataLossEstimate } from '../lib/schemaDiff'
+import { addSnapshotToHistory, diffSnapshots, getSnapshotFileName, getSnapshotHistory, parseSnapshotFile, removeSnapshotFromHistory, serializeSnapshot, summarizeSnapshot, type SchemaSnapshotEntry, type SnapshotFormat } from '../lib/schemaSnapshots'
+import { applySchemaRollback, getSchemaApplyJobs, planSchemaRollback, recordSchemaApplyJob, removeSchemaApplyJob, type SchemaApplyJob, type SchemaRollbackPlan } from '../lib/schemaRollback'
+import { analyzeCollectionImpact, type CollectionImpact } from '../lib/impactAnalysis'
+import { TRANSFORM_LABELS, getFieldTransforms, previewFieldTransforms, saveCollectionTransforms, validateTransform, type CollectionTransforms, type FieldTransform } from '../lib/fieldTransforms'
+import { preflightCollection, type InvalidRowAction, type PreflightReport } from '../lib/payloadValidation'
+import { formatRenameMap, getRenameMap, isRenameMapEmpty, parseRenameMap, renameCollection, renameSnapshot, saveRenameMap, type RenameMap } from '../lib/renameMap'
+import { planBatchMigration, runBatchMigration, DEFAULT_PARALLEL_COLLECTIONS, type BatchMigrationPlan, type BatchCollectionResult } from '../lib/batchMigration'
+import { DirectusClient } from '../lib/DirectusClient'
 import { FlowsManager } from './FlowsManager'
 import { AccessControlManager } from './AccessControlManager'
 import { DocumentationTab } from './DocumentationTab'
 import { ItemSelectorModal } from './ItemSelectorModal'
+import { DependencyGraphPanel } from './DependencyGraphPanel'
+import { ImpactReportModal } from './ImpactReportModal'
+import { SchemaDiffViewer } from './SchemaDiffViewer'
+import { SchemaRollbackModal } from './SchemaRollbackModal'
+import { UnrevertableApplyModal } from './UnrevertableApplyModal'
+import { TransformEditorModal } from './TransformEditorModal'
+import { TransformPreviewModal, type TransformPreview } from './TransformPreviewModal'
 import { FilesManager } from './FilesManager'
 import type { Collection, OperationStatus } from '../types'
-import { analyzeDependencies, calculateMigrationOrder, validateCustomOrder, type DependencyGraph, type MigrationOrder } from '../lib/dependencyAnalyzer'
+
+// Source items shown with their transformed values
+const TRANSFORM_PREVIEW_ITEMS = 20
 
 interface CollectionListProps {
   collections: Collection[]
@@ -30,6 +53,37 @@ export function CollectionList({
   setLoading
 }: CollectionListProps) {
   const [importLimit, setImportLimit] = useState<number | null>(null)
+  const [targetMaxConcurrent, setTargetMaxConcurrent] = useState<number>(Number(localStorage.getItem('targetMaxConcurrent')) || 4)
+  const [targetRequestsPerSecond, setTargetRequestsPerSecond] = useState<number>(Number(localStorage.getItem('targetRequestsPerSecond')) || 0)
+  const [incrementalSync, setIncrementalSync] = useState<boolean>(localStorage.getItem('incrementalSync') === 'true')
+  const [mirrorDeletions, setMirrorDeletions] = useState<boolean>(localStorage.getItem('mirrorDeletions') === 'true')
+  const [relationalCopy, setRelationalCopy] = useState<boolean>(localStorage.getItem('relationalCopy') === 'true')
+  const [parallelCollections, setParallelCollections] = useState<number>(Number(localStorage.getItem('parallelCollections')) || DEFAULT_PARALLEL_COLLECTIONS)
+  const [preflightValidation, setPreflightValidation] = useState<boolean>(localStorage.getItem('preflightValidation') === 'true')
+  const [preflightReport, setPreflightReport] = useState<PreflightReport | null>(null)
+  const [fieldTransforms, setFieldTransforms] = useState<CollectionTransforms>(() => getFieldTransforms(sourceUrl, targetUrl))
+  const [editingTransforms, setEditingTransforms] = useState<{ collection: string; transforms: FieldTransform[] } | null>(null)
+  // Sample of source items with the transformed values; beforeImport asks to continue with the import
+  const [transformPreview, setTransformPreview] = useState<TransformPreview | null>(null)
+  const [reviewedTransforms, setReviewedTransforms] = useState<Record<string, string>>({}) // Collection -> transforms as previewed (JSON)
+  const [mirrorMaxDeletes, setMirrorMaxDeletes] = useState<number>(Number(localStorage.getItem('mirrorMaxDeletes')) || DEFAULT_MAX_DELETES)
+  const [matchKeys, setMatchKeys] = useState<Record<string, string[]>>(() => getAllMatchKeys(sourceUrl, targetUrl))
+  const [editingMatchKey, setEditingMatchKey] = useState<{ collection: string; value: string } | null>(null)
+  const [renameMap, setRenameMap] = useState<RenameMap>(() => getRenameMap(sourceUrl, targetUrl))
+  const [renameMapText, setRenameMapText] = useState<string>(() => formatRenameMap(getRenameMap(sourceUrl, targetUrl)))
+  const [renameMapError, setRenameMapError] = useState<string | null>(null)
+  const [mirrorPlan, setMirrorPlan] = useState<MirrorPlan | null>(null)
+  const [mirrorConfirmed, setMirrorConfirmed] = useState(false)
+  const [mirrorProgress, setMirrorProgress] = useState<{ current: number; total: number } | null>(null)
+  const [batchPlan, setBatchPlan] = useState<BatchMigrationPlan | null>(null)
+  // Collections of the running level, keyed by name
+  const [batchProgress, setBatchProgress] = useState<Record<string, { current: number; total: number }>>({})
+  const [batchResults, setBatchResults] = useState<BatchCollectionResult[]>([])
+  const [showDependencyGraph, setShowDependencyGraph] = useState(false)
+  const [itemClosure, setItemClosure] = useState<{ closure: ItemClosure; selectedFields?: string[] } | null>(null)
+  const [closureProgress, setClosureProgress] = useState<{ collection: string; current: number; total: number } | null>(null)
+  const [impactReport, setImpactReport] = useState<CollectionImpact | null>(null)
+  const [changeCounts, setChangeCounts] = useState<Record<string, { changed: number; total: number; lastSyncAt?: string } | 'loading'>>({})
   const [titleFilter, setTitleFilter] = useState<string>('')
   const [showFlowsManager, setShowFlowsManager] = useState(false)
   const [showAccessControlManager, setShowAccessControlManager] = useState(false)
@@ -46,6 +100,17 @@ export function CollectionList({
   const [schemaMigrationStep, setSchemaMigrationStep] = useState<'idle' | 'snapshot' | 'diff' | 'apply' | 'complete'>('idle')
   const [schemaSnapshot, setSchemaSnapshot] = useState<any>(null)
   const [schemaDiff, setSchemaDiff] = useState<any>(null)
+  const [schemaTargetSnapshot, setSchemaTargetSnapshot] = useState<any>(null)
+  const [schemaSnapshotLabel, setSchemaSnapshotLabel] = useState<string>('') // Where the source snapshot came from
+  // Source snapshot with the target's collection and field names, as sent to /schema/diff
+  const renamedSchemaSnapshot = React.useMemo(() => renameSnapshot(renameMap, schemaSnapshot), [renameMap, schemaSnapshot])
+  const [snapshotHistory, setSnapshotHistory] = useState<SchemaSnapshotEntry[]>(() => getSnapshotHistory())
+  const [showSnapshotHistory, setShowSnapshotHistory] = useState(false)
+  const [schemaJobs, setSchemaJobs] = useState<SchemaApplyJob[]>(() => getSchemaApplyJobs(targetUrl))
+  const [rollbackPlan, setRollbackPlan] = useState<SchemaRollbackPlan | null>(null)
+  // Apply waiting for consent because its pre-apply snapshot could not be stored
+  const [unrevertableApply, setUnrevertableApply] = useState<{ diff: any; snapshot: any; takenAt: string } | null>(null)
+  const [snapshotComparison, setSnapshotComparison] = useState<{ from: string; to: string }>({ from: '', to: '' })
   const [errorLogs, setErrorLogs] = useState<Array<{id: string, timestamp: string, operation: string, error: any}>>([])
   const [showErrorLogs, setShowErrorLogs] = useState(false)
   const [showImportOptions, setShowImportOptions] = useState(false)
@@ -53,17 +118,313 @@ export function CollectionList({
   const [currentPage, setCurrentPage] = useState<number>(1)
   const [importProgress, setImportProgress] = useState<Record<string, { current: number; total: number }>>({})
   const [selectedSchemaCollections, setSelectedSchemaCollections] = useState<string[]>([])
-  const [schemaCollectionFilter, setSchemaCollectionFilter] = useState<string>('')
-  const [collapsedFieldDetails, setCollapsedFieldDetails] = useState<Record<string, boolean>>({})
+  const [selectedSchemaFields, setSelectedSchemaFields] = useState<string[]>([])
+  const [destructiveEstimates, setDestructiveEstimates] = useState<Record<string, DataLossEstimate>>({})
+  const [destructiveConfirmation, setDestructiveConfirmation] = useState('')
   
   // Item Selector states
   const [showItemSelector, setShowItemSelector] = useState(false)
   const [currentPreviewCollection, setCurrentPreviewCollection] = useState<string>('')
   const [previewItems, setPreviewItems] = useState<any[]>([])
   const [previewTotal, setPreviewTotal] = useState<number>(0)
-  const [previewOffset, setPreviewOffset] = useState<number>(0)
   const [selectedItemIds, setSelectedItemIds] = useState<(string | number)[]>([])
   const [loadingPreview, setLoadingPreview] = useState(false)
+
+  // One AbortController per running collection import, used by the Cancel buttons
+  const importControllers = React.useRef<Record<string, AbortController>>({})
+
+  // Stop running imports when the list is unmounted (e.g. on disconnect)
+  React.useEffect(() => {
+    const controllers = importControllers.current
+    return () => {
+      Object.values(controllers).forEach(controller => controller.abort())
+    }
+  }, [])
+
+  const handleCancelImport = (collectionName: string) => {
+    importControllers.current[collectionName]?.abort()
+  }
+
+  React.useEffect(() => {
+    localStorage.setItem('mirrorDeletions', String(mirrorDeletions))
+    localStorage.setItem('mirrorMaxDeletes', String(mirrorMaxDeletes))
+  }, [mirrorDeletions, mirrorMaxDeletes])
+
+  // Mirror mode: list target items missing from the source, then delete them after confirmation
+  const handlePreviewMirror = async (collectionNames: string[]) => {
+    if (collectionNames.length === 0) {
+      onStatusUpdate({ type: 'error', message: 'Please select at least one collection to mirror' })
+      return
+    }
+    setLoading('mirror_preview', true)
+    onStatusUpdate(null)
+    const controller = new AbortController()
+    importControllers.current.__mirror = controller
+
+    try {
+      const result = await planMirrorDeletions(sourceUrl, sourceToken, targetUrl, targetToken, collectionNames, {
+        signal: controller.signal
+      })
+      if (result.success && result.plan) {
+        if (result.plan.totalDeletes === 0) {
+          onStatusUpdate({ type: 'success', message: 'Target is already in sync: nothing to delete' })
+        } else {
+          setMirrorConfirmed(false)
+          setMirrorPlan(result.plan)
+        }
+      } else if (!result.cancelled) {
+        onStatusUpdate({ type: 'error', message: result.message })
+        logError('mirror_preview', result.error)
+      }
+    } finally {
+      delete importControllers.current.__mirror
+      setLoading('mirror_preview', false)
+    }
+  }
+
+  const handleExecuteMirror = async () => {
+    if (!mirrorPlan) return
+    setLoading('mirror_delete', true)
+    setMirrorProgress({ current: 0, total: mirrorPlan.totalDeletes })
+    const controller = new AbortController()
+    importControllers.current.__mirror = controller
+
+    try {
+      const result = await executeMirrorDeletions(targetUrl, targetToken, mirrorPlan, {
+        maxDeletes: mirrorMaxDeletes,
+        signal: controller.signal,
+        onProgress: (current, total) => setMirrorProgress({ current, total })
+      })
+      if (result.failed.length > 0) {
+        logError('mirror_delete', result.failed)
+      }
+      onStatusUpdate({
+        type: result.cancelled || result.failed.length > 0 ? 'warning' : result.success ? 'success' : 'error',
+        message: result.message
+      })
+      setMirrorPlan(null)
+    } finally {
+      delete importControllers.current.__mirror
+      setLoading('mirror_delete', false)
+      setMirrorProgress(null)
+    }
+  }
+
+  // Impact analysis: what on the target references a collection before it is overwritten or mirrored
+  const handleAnalyzeImpact = async (collectionName: string) => {
+    setLoading(`impact_${collectionName}`, true)
+    try {
+      const result = await analyzeCollectionImpact(targetUrl, targetToken, collectionName)
+      if (result.success && result.impact) {
+        setImpactReport(result.impact)
+      } else if (!result.cancelled) {
+        onStatusUpdate({ type: 'error', message: result.message })
+        logError('impact_analysis', result.error)
+      }
+    } finally {
+      setLoading(`impact_${collectionName}`, false)
+    }
+  }
+
+  // Field transforms: save and preview the value changes applied during import
+  const handleSaveTransforms = (transforms: FieldTransform[]) => {
+    if (!editingTransforms) return
+    const problems = transforms
+      .map((transform, index) => {
+        const problem = validateTransform(transform)
+        return problem && `#${index + 1} ${TRANSFORM_LABELS[transform.kind]}: ${problem}`
+      })
+      .filter(Boolean)
+    if (problems.length > 0) {
+      onStatusUpdate({ type: 'error', message: `Transforms not saved: ${problems.join('; ')}` })
+      return
+    }
+    saveCollectionTransforms(sourceUrl, targetUrl, editingTransforms.collection, transforms)
+    setFieldTransforms(getFieldTransforms(sourceUrl, targetUrl))
+    onStatusUpdate({
+      type: 'success',
+      message: `${transforms.length} transforms saved for ${editingTransforms.collection}`
+    })
+    setEditingTransforms(null)
+  }
+
+  // `onImport` continues the import the preview was shown for
+  const handlePreviewTransforms = async (collectionName: string, transforms: FieldTransform[], onImport?: () => void) => {
+    const loadingKey = `transform_preview_${collectionName}`
+    setLoading(loadingKey, true)
+    try {
+      const result = await previewCollectionItems(sourceUrl, sourceToken, collectionName, { limit: TRANSFORM_PREVIEW_ITEMS })
+      if (!result.success) {
+        logError('transform_preview', result.error)
+        onStatusUpdate({ type: 'error', message: `Could not read ${collectionName} items: ${result.error?.message}` })
+        return
+      }
+      const items = result.items || []
+      setTransformPreview({ collection: collectionName, sampled: items.length, rows: previewFieldTransforms(items, transforms), onImport })
+      setReviewedTransforms(prev => ({ ...prev, [collectionName]: JSON.stringify(transforms) }))
+    } finally {
+      setLoading(loadingKey, false)
+    }
+  }
+
+  // Multi-collection runs only apply saved transforms that were previewed as they are now
+  const isTransformReviewed = (collectionName: string) =>
+    reviewedTransforms[collectionName] === JSON.stringify(fieldTransforms[collectionName] || [])
+
+  const getReviewedTransforms = (collectionNames: string[]): CollectionTransforms =>
+    Object.fromEntries(collectionNames
+      .filter(name => fieldTransforms[name]?.length && isTransformReviewed(name))
+      .map(name => [name, fieldTransforms[name]]))
+
+  const getUnreviewedTransformWarnings = (collectionNames: string[]): string[] => {
+    const unreviewed = collectionNames.filter(name => fieldTransforms[name]?.length && !isTransformReviewed(name))
+    return unreviewed.length > 0
+      ? [`Transforms of ${unreviewed.join(', ')} have not been previewed and are not applied; preview them from the 🔧 Transforms link first`]
+      : []
+  }
+
+  // Smart batch migration: plan the order and deferred fields, then import after review
+  const handlePlanBatchMigration = async () => {
+    const collectionNames = selectedCollections.filter(name => !name.startsWith('directus_'))
+    if (collectionNames.length === 0) {
+      onStatusUpdate({ type: 'error', message: 'Please select at least one collection to migrate' })
+      return
+    }
+    setLoading('batch_plan', true)
+    onStatusUpdate(null)
+
+    try {
+      const result = await planBatchMigration(sourceUrl, sourceToken, collectionNames)
+      if (result.success && result.plan) {
+        setBatchResults([])
+        setBatchPlan(result.plan)
+      } else {
+        onStatusUpdate({ type: 'error', message: result.message })
+        logError('batch_plan', result.error)
+      }
+    } finally {
+      setLoading('batch_plan', false)
+    }
+  }
+
+  // Download the dependency graph of the planned collections
+  const handleExportGraph = (format: GraphExportFormat) => {
+    if (!batchPlan) return
+    const content = formatGraph(buildGraphExport(batchPlan.relations, batchPlan.order), format)
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `directus-dependency-graph.${GRAPH_EXPORT_EXTENSIONS[format]}`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleRunBatchMigration = async () => {
+    if (!batchPlan) return
+    setLoading('batch_migration', true)
+    setBatchResults([])
+    const controller = new AbortController()
+    importControllers.current.__batch = controller
+
+    try {
+      const result = await runBatchMigration(sourceUrl, sourceToken, targetUrl, targetToken, batchPlan, {
+        maxParallel: parallelCollections,
+        limit: importLimit || undefined,
+        incremental: incrementalSync,
+        transforms: getReviewedTransforms(batchPlan.order),
+        signal: controller.signal,
+        onCollectionStart: (collection) => setBatchProgress(prev => ({ ...prev, [collection]: { current: 0, total: 0 } })),
+        onProgress: (collection, current, total) => setBatchProgress(prev => ({ ...prev, [collection]: { current, total } }))
+      })
+      setBatchResults(result.results)
+      onStatusUpdate({
+        type: result.cancelled || !result.success ? 'warning' : 'success',
+        message: result.message
+      })
+      await loadTargetCollections()
+    } finally {
+      delete importControllers.current.__batch
+      setLoading('batch_migration', false)
+      setBatchProgress({})
+    }
+  }
+
+  React.useEffect(() => {
+    localStorage.setItem('incrementalSync', String(incrementalSync))
+  }, [incrementalSync])
+
+  React.useEffect(() => {
+    localStorage.setItem('relationalCopy', String(relationalCopy))
+  }, [relationalCopy])
+
+  React.useEffect(() => {
+    localStorage.setItem('parallelCollections', String(parallelCollections))
+  }, [parallelCollections])
+
+  React.useEffect(() => {
+    localStorage.setItem('preflightValidation', String(preflightValidation))
+  }, [preflightValidation])
+
+  // Transforms and match keys belong to the source/target pair; loading a preset switches them
+  React.useEffect(() => {
+    setFieldTransforms(getFieldTransforms(sourceUrl, targetUrl))
+    setMatchKeys(getAllMatchKeys(sourceUrl, targetUrl))
+  }, [sourceUrl, targetUrl])
+
+  // Count items changed since the last incremental sync of a collection
+  const handleCheckChanges = async (collectionName: string) => {
+    setChangeCounts(prev => ({ ...prev, [collectionName]: 'loading' }))
+    const result = await countChangedItems(sourceUrl, sourceToken, targetUrl, collectionName)
+    if (result.success) {
+      setChangeCounts(prev => ({
+        ...prev,
+        [collectionName]: { changed: result.changed || 0, total: result.total || 0, lastSyncAt: result.lastSyncAt }
+      }))
+    } else {
+      setChangeCounts(prev => {
+        const next = { ...prev }
+        delete next[collectionName]
+        return next
+      })
+      onStatusUpdate({ type: 'error', message: `Failed to check changes: ${result.error?.message || 'Unknown error'}` })
+    }
+  }
+
+  // Natural key (e.g. "slug" or "site,path") used to find existing target rows
+  const handleSaveMatchKey = () => {
+    if (!editingMatchKey) return
+    saveMatchKey(sourceUrl, targetUrl, editingMatchKey.collection, editingMatchKey.value.split(','))
+    setMatchKeys(getAllMatchKeys(sourceUrl, targetUrl))
+    setEditingMatchKey(null)
+  }
+
+  // Collections and fields renamed on the target, one "source = target" per line
+  const handleSaveRenameMap = () => {
+    try {
+      const map = parseRenameMap(renameMapText)
+      saveRenameMap(sourceUrl, targetUrl, map)
+      setRenameMap(map)
+      setRenameMapText(formatRenameMap(map))
+      setRenameMapError(null)
+      setSchemaDiff(null)
+      onStatusUpdate({
+        type: 'success',
+        message: isRenameMapEmpty(map)
+          ? 'Rename map cleared'
+          : `Rename map saved (${Object.keys(map.collections).length} collections, ${Object.values(map.fields).reduce((sum, fields) => sum + Object.keys(fields).length, 0)} fields)`
+      })
+    } catch (error: any) {
+      setRenameMapError(error.message)
+    }
+  }
+
+  const handleResetSyncState = (collectionName: string) => {
+    clearSyncState(sourceUrl, targetUrl, collectionName)
+    handleCheckChanges(collectionName)
+  }
   
   // Load target collections for comparison
   const loadTargetCollections = async () => {
@@ -84,8 +445,9 @@ export function CollectionList({
     if (targetCollections.length === 0) {
       return 'unknown'; // Target collections not loaded yet
     }
+    const targetName = renameCollection(renameMap, sourceCollection.collection);
     const exists = targetCollections.some(targetCollection => 
-      targetCollection.collection === sourceCollection.collection
+      targetCollection.collection === targetName
     );
     return exists ? 'existing' : 'new';
   };
@@ -95,8 +457,21 @@ export function CollectionList({
     if (targetUrl && targetToken) {
       loadTargetCollections();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
   }, [targetUrl, targetToken]);
 
+  // Apply target throttle settings to every client that talks to the target
+  React.useEffect(() => {
+    localStorage.setItem('targetMaxConcurrent', String(targetMaxConcurrent));
+    localStorage.setItem('targetRequestsPerSecond', String(targetRequestsPerSecond));
+    if (targetUrl) {
+      DirectusClient.configureThrottle(targetUrl, {
+        maxConcurrent: targetMaxConcurrent,
+        requestsPerSecond: targetRequestsPerSecond
+      });
+    }
+  }, [targetUrl, targetMaxConcurrent, targetRequestsPerSecond]);
+
   // Schema Migration Functions
   const handleSchemaSnapshot = async () => {
     setSchemaMigrationStep('snapshot');
@@ -159,6 +534,8 @@ export function CollectionList({
       });
       
       setSchemaSnapshot(schemaData);
+      setSchemaSnapshotLabel(sourceUrl);
+      setSnapshotHistory(addSnapshotToHistory(schemaData, sourceUrl));
       
       onStatusUpdate({ 
         type: 'success', 
@@ -178,8 +555,53 @@ export function CollectionList({
     }
   };
 
+  // Snapshot files: download the current or a saved snapshot, or load one as the diff source
+  const handleDownloadSnapshot = (format: SnapshotFormat, snapshot: any, entry: { label: string; takenAt: string }) => {
+    const blob = new Blob([serializeSnapshot(snapshot, format)], { type: format === 'json' ? 'application/json' : 'text/yaml' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = getSnapshotFileName(entry, format)
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  };
+
+  const loadSnapshotAsSource = (snapshot: any, label: string) => {
+    setSchemaSnapshot(snapshot);
+    setSchemaSnapshotLabel(label);
+    setSchemaDiff(null);
+    setSchemaTargetSnapshot(null);
+    setSchemaMigrationStep('diff');
+    const summary = summarizeSnapshot(snapshot);
+    onStatusUpdate({
+      type: 'success',
+      message: `Snapshot "${label}" loaded as source (${summary.collections} collections, ${summary.fields} fields)`
+    });
+  };
+
+  const handleLoadSnapshotFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const snapshot = parseSnapshotFile(e.target?.result as string, file.name);
+        setSnapshotHistory(addSnapshotToHistory(snapshot, file.name));
+        loadSnapshotAsSource(snapshot, file.name);
+      } catch (error: any) {
+        logError('Schema Snapshot File', error);
+        onStatusUpdate({ type: 'error', message: `Could not read snapshot file: ${error.message}` });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = ''; // Reset input
+  };
+
   const handleSchemaDiff = async () => {
-    if (!schemaSnapshot) return;
+    if (!renamedSchemaSnapshot) return;
     
     console.log('\n\n🚀🚀🚀 ===== SCHEMA DIFF STARTED - CODE VERSION: 2024-11-04 =====  🚀🚀🚀\n');
     
@@ -191,16 +613,16 @@ export function CollectionList({
       const targetClient = new client(targetUrl, targetToken);
       
       // Filter out system collections (starting with "directus_") from the snapshot
-      // Convert collections and fields from object to array format as required by /schema/diff API
+      // Collections and fields go out as arrays, as required by /schema/diff API,
+      // whether the snapshot keyed them by collection or already listed them
+      // Renamed collections and fields already carry their target names
       const filteredSnapshot = {
-        ...schemaSnapshot,
-        collections: Object.entries(schemaSnapshot.collections || {})
-          .filter(([collectionName]) => !collectionName.startsWith('directus_'))
-          .map(([_, collectionData]) => collectionData),
-        fields: Object.entries(schemaSnapshot.fields || {})
-          .filter(([collectionName]) => !collectionName.startsWith('directus_'))
-          .flatMap(([_, fields]) => fields),
-        relations: (schemaSnapshot.relations || []).filter((relation: any) => {
+        ...renamedSchemaSnapshot,
+        collections: listSnapshotCollections(renamedSchemaSnapshot)
+          .filter((collection: any) => !collection.collection?.startsWith('directus_')),
+        fields: listSnapshotFields(renamedSchemaSnapshot)
+          .filter((field: any) => !field.collection?.startsWith('directus_')),
+        relations: (renamedSchemaSnapshot.relations || []).filter((relation: any) => {
           // Keep relations where at least one side is a non-system collection
           // This allows relations TO system collections (e.g., user_created -> directus_users)
           const isCollectionSystem = relation.collection?.startsWith('directus_');
@@ -265,17 +687,15 @@ export function CollectionList({
       // Get the target schema snapshot to compare
       const targetSnapshotResponse = await targetClient.get('/schema/snapshot');
       const targetSnapshot = targetSnapshotResponse.data;
+      setSchemaTargetSnapshot(targetSnapshot);
       
       // Compare field metadata between source and target
       const sourceFields = filteredSnapshot.fields || [];
       const targetFieldsMap = new Map();
       
       // Build map of target fields for quick lookup
-      Object.entries(targetSnapshot.fields || {}).forEach(([collectionName, fields]: [string, any]) => {
-        const fieldsArray = Array.isArray(fields) ? fields : Object.values(fields || {});
-        fieldsArray.forEach((field: any) => {
-          targetFieldsMap.set(`${field.collection}.${field.field}`, field);
-        });
+      listSnapshotFields(targetSnapshot).forEach((field: any) => {
+        targetFieldsMap.set(`${field.collection}.${field.field}`, field);
       });
       
       // Find fields with metadata differences
@@ -539,11 +959,6 @@ export function CollectionList({
           ((d.lhs === 'char' && d.rhs === 'uuid') || (d.lhs === 'uuid' && d.rhs === 'char'))
         );
         
-        const hasMaxLength36 = fieldDiffs.some((d: any) => 
-          d.path?.join('.') === 'schema.max_length' && 
-          ((d.lhs === 36 && d.rhs === null) || (d.lhs === null && d.rhs === 36))
-        );
-        
         // If we have the characteristic UUID normalization pattern
         if (hasTypeStringUuid && hasDataTypeCharUuid) {
           return true;
@@ -774,6 +1189,11 @@ export function CollectionList({
       });
       
       setSchemaDiff(diffData);
+      setDestructiveConfirmation('');
+      
+      // Target data each drop or type change would lose
+      const destructiveChanges = getDestructiveChanges(diffData);
+      setDestructiveEstimates(destructiveChanges.length > 0 ? await estimateDataLoss(targetClient, destructiveChanges) : {});
       
       // Check if there are actual items in collections, fields, or relations arrays
       const hasChanges = diffData?.diff && (
@@ -812,6 +1232,11 @@ export function CollectionList({
         
         const collectionsWithChanges = Array.from(collectionSet);
         setSelectedSchemaCollections(collectionsWithChanges);
+        setSelectedSchemaFields(
+          (diffData.diff.fields || [])
+            .filter((field: any) => !field.collection?.startsWith('directus_'))
+            .map((field: any) => fieldChangeKey(field.collection, field.field))
+        );
         
         // Create detailed message
         const fieldCount = diffData.diff.fields?.length || 0;
@@ -860,10 +1285,18 @@ export function CollectionList({
   const handleSchemaApply = async () => {
     if (!schemaDiff) return;
     
-    if (selectedSchemaCollections.length === 0) {
+    if (selectedSchemaCollections.length === 0 && selectedSchemaFields.length === 0) {
       onStatusUpdate({ 
         type: 'error', 
-        message: 'Please select at least one collection to apply' 
+        message: 'Please select at least one collection or field to apply' 
+      });
+      return;
+    }
+    
+    if (!destructiveConfirmed) {
+      onStatusUpdate({ 
+        type: 'error', 
+        message: `${selectedDestructiveChanges.length} selected change(s) drop or convert target data. Type ${DESTRUCTIVE_CONFIRMATION} to confirm.` 
       });
       return;
     }
@@ -887,7 +1320,10 @@ export function CollectionList({
         throw new Error('Schema diff is missing diff data. Please run "Compare Schemas" again.');
       }
       
-      // Filter to only selected collections and sanitize field items
+      // Fields are picked one by one; relations of a field follow its selection
+      const diffFieldKeys = new Set((schemaDiff.diff.fields || []).map((field: any) => fieldChangeKey(field.collection, field.field)));
+      
+      // Filter to only selected collections and fields, and sanitize field items
       const filteredDiff = {
         hash: schemaDiff.hash,
         diff: {
@@ -898,7 +1334,7 @@ export function CollectionList({
           fields: (schemaDiff.diff.fields || [])
             .filter((field: any) => 
               !field?.collection?.startsWith('directus_') &&
-              selectedSchemaCollections.includes(field?.collection)
+              selectedSchemaFields.includes(fieldChangeKey(field?.collection, field?.field))
             )
             .map((field: any) => {
               // Sanitize field items - only keep allowed properties
@@ -916,6 +1352,11 @@ export function CollectionList({
               return sanitizedField;
             }),
           relations: (schemaDiff.diff.relations || []).filter((rel: any) => {
+            const relationFieldKey = fieldChangeKey(rel?.collection, rel?.field);
+            if (diffFieldKeys.has(relationFieldKey)) {
+              return selectedSchemaFields.includes(relationFieldKey);
+            }
+            
             // Allow relations where at least one side is a selected non-system collection
             // This includes relations TO system collections (e.g., user_created -> directus_users)
             const isCollectionSelected = selectedSchemaCollections.includes(rel?.collection);
@@ -991,13 +1432,40 @@ export function CollectionList({
         return;
       }
       
+      // Keep the target schema as it is now so this apply can be reverted
+      const preApplySnapshot = (await targetClient.get('/schema/snapshot')).data;
+      const { job, stored } = recordSchemaApplyJob(targetUrl, schemaSnapshotLabel || sourceUrl, preApplySnapshot, filteredDiff.diff);
+      if (!stored) {
+        // Only applied once the user accepts that it cannot be reverted from here
+        setUnrevertableApply({ diff: filteredDiff, snapshot: preApplySnapshot, takenAt: job.appliedAt });
+        return;
+      }
+      
+      await sendSchemaApply(targetClient, filteredDiff, job.id);
+    } catch (error: any) {
+      logError('Schema Apply', error);
+      onStatusUpdate({ 
+        type: 'error', 
+        message: `Failed to apply schema changes: ${error.message}` 
+      });
+      setSchemaMigrationStep('idle');
+    } finally {
+      setLoading('schema_apply', false);
+    }
+  };
+
+  const sendSchemaApply = async (targetClient: DirectusClient, filteredDiff: any, pendingSchemaJobId?: string) => {
+    try {
       console.log('\n⚡ Sending schema apply request...');
       const applyResponse = await targetClient.post('/schema/apply?force=true', filteredDiff);
       console.log('\n✅ Schema apply response:', applyResponse);
+      pendingSchemaJobId = undefined;
+      
+      setSchemaJobs(getSchemaApplyJobs(targetUrl));
       
       onStatusUpdate({ 
         type: 'success', 
-        message: `Schema migration completed! Applied changes to ${selectedSchemaCollections.length} collection(s).` 
+        message: `Schema migration completed! Applied ${filteredDiff.diff.fields.length} field change(s) across ${new Set([...selectedSchemaCollections, ...filteredDiff.diff.fields.map((field: any) => field.collection)]).size} collection(s).` 
       });
       
       setSchemaMigrationStep('complete');
@@ -1005,288 +1473,98 @@ export function CollectionList({
       // Refresh target collections after schema migration
       await loadTargetCollections();
     } catch (error: any) {
+      // The apply did not go through, so there is nothing to revert
+      if (pendingSchemaJobId) {
+        removeSchemaApplyJob(pendingSchemaJobId);
+      }
       logError('Schema Apply', error);
       onStatusUpdate({ 
         type: 'error', 
         message: `Failed to apply schema changes: ${error.message}` 
       });
       setSchemaMigrationStep('idle');
+    }
+  };
+
+  const handleApplyWithoutRollback = async () => {
+    if (!unrevertableApply) return;
+    const { diff, snapshot, takenAt } = unrevertableApply;
+    setUnrevertableApply(null);
+    handleDownloadSnapshot('json', snapshot, { label: `${targetUrl} pre-apply`, takenAt });
+    
+    setLoading('schema_apply', true);
+    try {
+      await sendSchemaApply(new DirectusClient(targetUrl, targetToken), diff);
     } finally {
       setLoading('schema_apply', false);
     }
   };
 
+  const handleCancelUnrevertableApply = () => {
+    setUnrevertableApply(null);
+    onStatusUpdate({ type: 'warning', message: 'Schema apply cancelled: the pre-apply snapshot could not be kept.' });
+    setSchemaMigrationStep('idle');
+  };
+
   const resetSchemaMigration = () => {
     setSchemaMigrationStep('idle');
     setSchemaSnapshot(null);
     setSchemaDiff(null);
+    setSchemaTargetSnapshot(null);
+    setSchemaSnapshotLabel('');
+    setSelectedSchemaFields([]);
+    setDestructiveEstimates({});
+    setDestructiveConfirmation('');
   };
 
-  // Helper function to categorize and analyze schema differences
-  const analyzeSchemaChanges = (diffData: any, sourceSnapshot: any) => {
-    const newCollections: any[] = [];
-    const modifiedCollections: any[] = [];
-    const deletedCollections: any[] = [];
-
-    if (!diffData?.diff) return { newCollections, modifiedCollections, deletedCollections };
+  React.useEffect(() => {
+    setSchemaJobs(getSchemaApplyJobs(targetUrl));
+  }, [targetUrl]);
 
-    // Parse diff structure - each item has {collection, field, diff: [{kind, rhs/lhs}]}
-    // kind: 'N' = New, 'D' = Delete, 'E' = Edit
-    
-    // Group fields by collection with parsed diff info
-    const fieldsByCollection: Record<string, any[]> = {};
-    
-    console.log('\n🔍 ANALYZING SCHEMA DIFFERENCES - Field Level Analysis:');
-    console.log('═══════════════════════════════════════════════════════');
-    
-    (diffData.diff.fields || []).forEach((fieldItem: any) => {
-      const collectionName = fieldItem.collection;
-      if (!fieldsByCollection[collectionName]) {
-        fieldsByCollection[collectionName] = [];
-      }
-      
-      // Parse the diff array to determine action
-      const diffArray = fieldItem.diff || [];
-      let fieldAction = 'update';
-      let fieldData = null;
-      const diffDetails: string[] = [];
-      
-      diffArray.forEach((diffItem: any) => {
-        if (diffItem.kind === 'N') {
-          fieldAction = 'create'; // New field
-          fieldData = diffItem.rhs; // Right-hand side = new value
-          diffDetails.push(`NEW field - will be created in target`);
-        } else if (diffItem.kind === 'D') {
-          fieldAction = 'delete'; // Deleted field
-          fieldData = diffItem.lhs; // Left-hand side = old value
-          diffDetails.push(`DELETED field - exists in target but removed from source`);
-        } else if (diffItem.kind === 'E') {
-          fieldAction = 'update'; // Modified field
-          fieldData = diffItem.rhs || fieldItem;
-          
-          // Extract the path to understand what changed
-          const changePath = diffItem.path?.join('.') || 'unknown';
-          const oldValue = diffItem.lhs;
-          const newValue = diffItem.rhs;
-          
-          // Build detailed difference string
-          if (diffItem.differences && Array.isArray(diffItem.differences)) {
-            // Use our custom detailed differences from metadata detection
-            diffDetails.push(...diffItem.differences);
-          } else {
-            // Generic difference logging
-            diffDetails.push(`${changePath}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`);
-          }
-        }
-      });
-      
-      // Log this field's analysis
-      if (fieldAction === 'update' && diffDetails.length > 0) {
-        console.log(`\n📌 ${collectionName}.${fieldItem.field} - MODIFIED`);
-        console.log(`   Reason: Field has different configuration`);
-        console.log(`   Changes detected (${diffDetails.length}):`);
-        diffDetails.forEach((detail, idx) => {
-          console.log(`     ${idx + 1}. ${detail}`);
-        });
-        console.log(`   Full diff structure:`, diffArray);
-      } else if (fieldAction === 'create') {
-        console.log(`\n✨ ${collectionName}.${fieldItem.field} - NEW`);
-        console.log(`   Reason: Field exists in source but not in target`);
-      } else if (fieldAction === 'delete') {
-        console.log(`\n🗑️ ${collectionName}.${fieldItem.field} - DELETED`);
-        console.log(`   Reason: Field exists in target but not in source`);
-      }
-      
-      fieldsByCollection[collectionName].push({
-        ...fieldItem,
-        fieldName: fieldItem.field,
-        action: fieldAction,
-        data: fieldData,
-        diffDetails: diffDetails
-      });
-    });
-    
-    console.log('\n═══════════════════════════════════════════════════════');
-
-    // Group relations by collection with parsed diff info
-    const relationsByCollection: Record<string, any[]> = {};
-    (diffData.diff.relations || []).forEach((relationItem: any) => {
-      const collectionName = relationItem.collection;
-      if (!relationsByCollection[collectionName]) {
-        relationsByCollection[collectionName] = [];
+  // Schema rollback: diff the target against the snapshot saved before an apply, then apply that diff
+  const handlePlanSchemaRollback = async (job: SchemaApplyJob) => {
+    setLoading(`schema_rollback_${job.id}`, true);
+    try {
+      const result = await planSchemaRollback(targetUrl, targetToken, job);
+      if (result.success && result.plan) {
+        setRollbackPlan(result.plan);
+      } else if (result.success) {
+        onStatusUpdate({ type: 'info', message: result.message });
+      } else {
+        logError('Schema Rollback', result.error);
+        onStatusUpdate({ type: 'error', message: result.message });
       }
-      
-      // Parse diff array for relations
-      const diffArray = relationItem.diff || [];
-      let relationAction = 'update';
-      
-      diffArray.forEach((diffItem: any) => {
-        if (diffItem.kind === 'N') relationAction = 'create';
-        else if (diffItem.kind === 'D') relationAction = 'delete';
-        else if (diffItem.kind === 'E') relationAction = 'update';
-      });
-      
-      relationsByCollection[collectionName].push({
-        ...relationItem,
-        action: relationAction
-      });
-    });
-
-    // First, create a set of all collections mentioned in fields and relations
-    const allCollectionsInDiff = new Set<string>();
-    Object.keys(fieldsByCollection).forEach(name => allCollectionsInDiff.add(name));
-    Object.keys(relationsByCollection).forEach(name => allCollectionsInDiff.add(name));
-    
-    // Track which collections we've already processed
-    const processedCollections = new Set<string>();
-    
-    // Analyze each collection in the diff
-    (diffData.diff.collections || []).forEach((colItem: any) => {
-      if (colItem.collection?.startsWith('directus_')) return;
-
-      const collectionName = colItem.collection;
-      processedCollections.add(collectionName);
-      
-      // Parse collection diff array to determine action
-      const diffArray = colItem.diff || [];
-      let collectionAction = 'update';
-      let collectionData = null;
-      
-      diffArray.forEach((diffItem: any) => {
-        if (diffItem.kind === 'N') {
-          collectionAction = 'create';
-          collectionData = diffItem.rhs;
-        } else if (diffItem.kind === 'D') {
-          collectionAction = 'delete';
-          collectionData = diffItem.lhs;
-        } else if (diffItem.kind === 'E') {
-          collectionAction = 'update';
-          collectionData = diffItem.rhs;
-        }
-      });
+    } finally {
+      setLoading(`schema_rollback_${job.id}`, false);
+    }
+  };
 
-      const collectionFields = fieldsByCollection[collectionName] || [];
-      const collectionRelations = relationsByCollection[collectionName] || [];
-
-      if (collectionAction === 'create') {
-        // New collection that doesn't exist in target
-        newCollections.push({
-          ...colItem,
-          collection: collectionName,
-          action: collectionAction,
-          data: collectionData,
-          fields: collectionFields,
-          relations: collectionRelations,
-          fieldChanges: collectionFields
-            .filter((f: any) => f.action === 'create') // Only show new fields
-            .map((f: any) => ({
-              field: f.fieldName,
-              action: f.action,
-              type: f.data?.type,
-              validation: f.data?.meta?.validation,
-              meta: f.data?.meta,
-              schema: f.data?.schema,
-              constraints: f.data?.schema ? {
-                nullable: f.data.schema.is_nullable,
-                unique: f.data.schema.is_unique,
-                primaryKey: f.data.schema.is_primary_key,
-                defaultValue: f.data.schema.default_value,
-                maxLength: f.data.schema.max_length
-              } : null
-            }))
-        });
-      } else if (collectionAction === 'delete') {
-        // Collection exists in target but deleted from source
-        deletedCollections.push({
-          ...colItem,
-          collection: collectionName,
-          action: collectionAction,
-          data: collectionData
-        });
+  const handleApplySchemaRollback = async () => {
+    if (!rollbackPlan) return;
+    setLoading('schema_rollback', true);
+    try {
+      const result = await applySchemaRollback(targetUrl, targetToken, rollbackPlan);
+      if (result.success) {
+        setRollbackPlan(null);
+        setSchemaJobs(getSchemaApplyJobs(targetUrl));
+        resetSchemaMigration();
+        await loadTargetCollections();
       } else {
-        // Modified collection - has field or validation changes
-        // Only include if there are actual changes to fields/relations
-        const newFields = collectionFields.filter((f: any) => f.action === 'create');
-        const deletedFields = collectionFields.filter((f: any) => f.action === 'delete');
-        const modifiedFields = collectionFields.filter((f: any) => f.action === 'update');
-        
-        if (newFields.length > 0 || deletedFields.length > 0 || modifiedFields.length > 0 || collectionRelations.length > 0) {
-          modifiedCollections.push({
-            ...colItem,
-            collection: collectionName,
-            action: collectionAction,
-            data: collectionData,
-            fields: collectionFields,
-            relations: collectionRelations,
-            fieldChanges: collectionFields.map((f: any) => ({
-              field: f.fieldName,
-              action: f.action,
-              type: f.data?.type,
-              validation: f.data?.meta?.validation,
-              meta: f.data?.meta,
-              schema: f.data?.schema,
-              constraints: f.data?.schema ? {
-                nullable: f.data.schema.is_nullable,
-                unique: f.data.schema.is_unique,
-                primaryKey: f.data.schema.is_primary_key,
-                defaultValue: f.data.schema.default_value,
-                maxLength: f.data.schema.max_length
-              } : null
-            })),
-            newFieldsCount: newFields.length,
-            deletedFieldsCount: deletedFields.length,
-            modifiedFieldsCount: modifiedFields.length
-          });
-        }
-      }
-    });
-    
-    // Handle collections that have field/relation changes but weren't in the collections array
-    // These are existing collections with only field or relation modifications
-    allCollectionsInDiff.forEach((collectionName: string) => {
-      if (processedCollections.has(collectionName)) return; // Already processed
-      if (collectionName.startsWith('directus_')) return; // Skip system collections
-      
-      const collectionFields = fieldsByCollection[collectionName] || [];
-      const collectionRelations = relationsByCollection[collectionName] || [];
-      
-      // Only add if there are actual field or relation changes
-      if (collectionFields.length > 0 || collectionRelations.length > 0) {
-        const newFields = collectionFields.filter((f: any) => f.action === 'create');
-        const deletedFields = collectionFields.filter((f: any) => f.action === 'delete');
-        const modifiedFields = collectionFields.filter((f: any) => f.action === 'update');
-        
-        modifiedCollections.push({
-          collection: collectionName,
-          action: 'update',
-          data: null,
-          fields: collectionFields,
-          relations: collectionRelations,
-          fieldChanges: collectionFields.map((f: any) => ({
-            field: f.fieldName,
-            action: f.action,
-            type: f.data?.type,
-            validation: f.data?.meta?.validation,
-            meta: f.data?.meta,
-            schema: f.data?.schema,
-            constraints: f.data?.schema ? {
-              nullable: f.data.schema.is_nullable,
-              unique: f.data.schema.is_unique,
-              primaryKey: f.data.schema.is_primary_key,
-              defaultValue: f.data.schema.default_value,
-              maxLength: f.data.schema.max_length
-            } : null
-          })),
-          newFieldsCount: newFields.length,
-          deletedFieldsCount: deletedFields.length,
-          modifiedFieldsCount: modifiedFields.length
-        });
+        logError('Schema Rollback', result.error);
       }
-    });
-
-    return { newCollections, modifiedCollections, deletedCollections };
+      onStatusUpdate({ type: result.success ? 'success' : 'error', message: result.message });
+    } finally {
+      setLoading('schema_rollback', false);
+    }
   };
 
+  const selectedDestructiveChanges = schemaDiff
+    ? getDestructiveChanges(schemaDiff).filter(change => change.kind === 'drop_collection'
+      ? selectedSchemaCollections.includes(change.collection)
+      : selectedSchemaFields.includes(change.key))
+    : [];
+  const destructiveConfirmed = selectedDestructiveChanges.length === 0 || destructiveConfirmation.trim() === DESTRUCTIVE_CONFIRMATION;
+
   // Error logging function
   const logError = (operation: string, error: any) => {
     const errorLog = {
@@ -1318,7 +1596,6 @@ export function CollectionList({
     setCurrentPreviewCollection(collectionName)
     setPreviewItems([])
     setPreviewTotal(0)
-    setPreviewOffset(0)
     setSelectedItemIds([])
     setLoadingPreview(true)
     setShowItemSelector(true)
@@ -1359,16 +1636,74 @@ export function CollectionList({
 
   // Load more is no longer needed - we load all items at once
 
+  // Selected items plus everything they reference, listed for review before migrating
+  const handleResolveClosure = async (selectedFields?: string[]) => {
+    const collectionName = currentPreviewCollection
+    setLoading('closure_resolve', true)
+    setShowItemSelector(false)
+    onStatusUpdate(null)
+
+    try {
+      const result = await resolveItemClosure(sourceUrl, sourceToken, collectionName, selectedItemIds)
+      if (result.success && result.closure) {
+        setItemClosure({ closure: result.closure, selectedFields })
+      } else if (!result.cancelled) {
+        onStatusUpdate({ type: 'error', message: result.message })
+        logError('closure_resolve', result.error)
+      }
+    } finally {
+      setLoading('closure_resolve', false)
+    }
+  }
+
+  const handleMigrateClosure = async () => {
+    if (!itemClosure) return
+    setLoading('closure_migrate', true)
+    const controller = new AbortController()
+    importControllers.current.__closure = controller
+
+    try {
+      const result = await migrateItemClosure(sourceUrl, sourceToken, targetUrl, targetToken, itemClosure.closure, {
+        selectedFields: itemClosure.selectedFields,
+        relational: relationalCopy,
+        transforms: getReviewedTransforms(itemClosure.closure.collections.map(entry => entry.collection)),
+        signal: controller.signal,
+        onProgress: (collection, current, total) => setClosureProgress({ collection, current, total })
+      })
+      onStatusUpdate({
+        type: result.cancelled || !result.success ? 'warning' : 'success',
+        message: result.message
+      })
+      setItemClosure(null)
+    } finally {
+      delete importControllers.current.__closure
+      setLoading('closure_migrate', false)
+      setClosureProgress(null)
+    }
+  }
+
   // Import selected items
-  const handleImportSelected = async (selectedFields?: string[]) => {
+  const handleImportSelected = async (selectedFields?: string[], includeDependencies?: boolean, transformsReviewed = false) => {
     if (selectedItemIds.length === 0) return
+    if (includeDependencies) {
+      await handleResolveClosure(selectedFields)
+      return
+    }
 
     const collectionName = currentPreviewCollection
+    const transforms = fieldTransforms[collectionName] || []
+    if (transforms.length > 0 && !transformsReviewed) {
+      setShowItemSelector(false)
+      await handlePreviewTransforms(collectionName, transforms, () => handleImportSelected(selectedFields, false, true))
+      return
+    }
     const loadingKey = `import_selected_${collectionName}`
     setLoading(loadingKey, true)
     setShowItemSelector(false)
     onStatusUpdate(null)
     setImportProgress(prev => ({ ...prev, [collectionName]: { current: 0, total: selectedItemIds.length } }))
+    const controller = new AbortController()
+    importControllers.current[collectionName] = controller
 
     try {
       const result = await importSelectedItems(
@@ -1380,22 +1715,28 @@ export function CollectionList({
         selectedItemIds,
         {
           selectedFields: selectedFields,  // Pass selected fields
+          transforms,
           onProgress: (current: number, total: number) => {
             setImportProgress(prev => ({ ...prev, [collectionName]: { current, total } }))
-          }
+          },
+          relational: relationalCopy,
+          signal: controller.signal
         }
       )
 
-      if (result.success) {
+      if (result.cancelled) {
+        onStatusUpdate({ type: 'warning', message: result.message })
+      } else if (result.success) {
         const importedItems = result.importedItems || []
-        const successful = importedItems.filter(item => item.status !== 'error').length
         const failed = importedItems.filter(item => item.status === 'error').length
         const created = importedItems.filter(item => item.action === 'created').length
         const updated = importedItems.filter(item => item.action === 'updated').length
 
         onStatusUpdate({
           type: failed > 0 ? 'warning' : 'success',
-          message: `Import complete for ${collectionName}: ${created} created, ${updated} updated, ${failed} failed`
+          message: relationalCopy
+            ? result.message
+            : `Import complete for ${collectionName}: ${created} created, ${updated} updated, ${failed} failed`
         })
 
         if (failed > 0) {
@@ -1415,6 +1756,7 @@ export function CollectionList({
       })
       logError(`import_selected_${collectionName}`, error);
     } finally {
+      delete importControllers.current[collectionName]
       setLoading(loadingKey, false)
       setTimeout(() => {
         setImportProgress(prev => {
@@ -1426,11 +1768,66 @@ export function CollectionList({
     }
   }
 
-  const handleImport = async (collectionName: string) => {
+  // Check the items against the target's field constraints; the import only starts
+  // right away when nothing breaks them, otherwise the report asks to skip or coerce
+  const handlePreflight = async (collectionName: string) => {
+    const loadingKey = `import_${collectionName}`
+    setLoading(loadingKey, true)
+    onStatusUpdate({ type: 'info', message: `Pre-flight check of ${collectionName}...` })
+    const controller = new AbortController()
+    importControllers.current[collectionName] = controller
+
+    try {
+      const result = await preflightCollection(sourceUrl, sourceToken, targetUrl, targetToken, collectionName, {
+        limit: importLimit || undefined,
+        renames: renameMap,
+        transforms: fieldTransforms[collectionName],
+        signal: controller.signal,
+        onProgress: (checked) => setImportProgress(prev => ({ ...prev, [collectionName]: { current: checked, total: 0 } }))
+      })
+      if (result.cancelled) {
+        onStatusUpdate({ type: 'warning', message: result.message })
+        return false
+      }
+      if (!result.success || !result.report) {
+        logError(`preflight_${collectionName}`, result.error)
+        onStatusUpdate({ type: 'error', message: result.message })
+        return false
+      }
+      if (result.report.invalidRows > 0) {
+        setPreflightReport(result.report)
+        onStatusUpdate({ type: 'warning', message: result.message })
+        return false
+      }
+      return true
+    } finally {
+      delete importControllers.current[collectionName]
+      setLoading(loadingKey, false)
+      setImportProgress(prev => {
+        const next = { ...prev }
+        delete next[collectionName]
+        return next
+      })
+    }
+  }
+
+  const handleImport = async (collectionName: string, invalidRows?: InvalidRowAction, transformsReviewed = false) => {
+    // Transformed values are shown before anything is written
+    const transforms = fieldTransforms[collectionName] || []
+    if (transforms.length > 0 && !transformsReviewed && !invalidRows) {
+      await handlePreviewTransforms(collectionName, transforms, () => handleImport(collectionName, undefined, true))
+      return
+    }
+    if (preflightValidation && !invalidRows && !(await handlePreflight(collectionName))) {
+      return
+    }
+
     const loadingKey = `import_${collectionName}`
     setLoading(loadingKey, true)
     onStatusUpdate(null)
     setImportProgress(prev => ({ ...prev, [collectionName]: { current: 0, total: 0 } }))
+    const controller = new AbortController()
+    importControllers.current[collectionName] = controller
 
     try {
       const result = await importFromDirectus(
@@ -1444,20 +1841,34 @@ export function CollectionList({
           titleFilter: titleFilter.trim() || undefined,
           onProgress: (current: number, total: number) => {
             setImportProgress(prev => ({ ...prev, [collectionName]: { current, total } }))
-          }
+          },
+          incremental: incrementalSync,
+          invalidRows: invalidRows || (preflightValidation ? 'skip' : undefined),
+          transforms,
+          signal: controller.signal
         }
       )
 
-      if (result.success) {
+      // The watermark moved, so a previously shown change count is stale
+      setChangeCounts(prev => {
+        const next = { ...prev }
+        delete next[collectionName]
+        return next
+      })
+
+      if (result.cancelled) {
+        onStatusUpdate({ type: 'warning', message: result.message })
+      } else if (result.success) {
         const importedItems = result.importedItems || []
-        const successful = importedItems.filter(item => item.status !== 'error').length
         const failed = importedItems.filter(item => item.status === 'error').length
         const created = importedItems.filter(item => item.action === 'created').length
         const updated = importedItems.filter(item => item.action === 'updated').length
 
         onStatusUpdate({
           type: failed > 0 ? 'warning' : 'success',
-          message: `Import complete for ${collectionName}: ${created} created, ${updated} updated, ${failed} failed`
+          message: incrementalSync
+            ? result.message
+            : `Import complete for ${collectionName}: ${created} created, ${updated} updated, ${failed} failed`
         })
 
         if (failed > 0) {
@@ -1477,6 +1888,7 @@ export function CollectionList({
       })
       logError(`import_collection_${collectionName}`, error);
     } finally {
+      delete importControllers.current[collectionName]
       setLoading(loadingKey, false)
       // Clear progress after a short delay to show completion
       setTimeout(() => {
@@ -1588,7 +2000,7 @@ export function CollectionList({
           {/* Step 3: Apply */}
           <button
             onClick={handleSchemaApply}
-            disabled={!schemaDiff || loading.schema_apply || schemaMigrationStep === 'complete'}
+            disabled={!schemaDiff || loading.schema_apply || schemaMigrationStep === 'complete' || !destructiveConfirmed}
             style={{
               backgroundColor: schemaMigrationStep === 'apply' && !loading.schema_apply ? '#dc2626' : 
                              schemaMigrationStep === 'complete' ? '#10b981' : '#9ca3af',
@@ -1597,8 +2009,8 @@ export function CollectionList({
               fontWeight: '500',
               borderRadius: '6px',
               border: 'none',
-              cursor: (!schemaDiff || loading.schema_apply) ? 'not-allowed' : 'pointer',
-              opacity: (!schemaDiff || loading.schema_apply) ? 0.7 : 1,
+              cursor: (!schemaDiff || loading.schema_apply || !destructiveConfirmed) ? 'not-allowed' : 'pointer',
+              opacity: (!schemaDiff || loading.schema_apply || !destructiveConfirmed) ? 0.7 : 1,
               fontSize: '0.875rem'
             }}
           >
@@ -1628,452 +2040,247 @@ export function CollectionList({
           )}
         </div>
 
-        {/* Detailed Schema Diff Viewer */}
-        {schemaDiff && schemaMigrationStep === 'apply' && !loading.schema_apply && (() => {
-          const { newCollections, modifiedCollections, deletedCollections } = analyzeSchemaChanges(schemaDiff, schemaSnapshot);
-          
-          // Apply search filter
-          const filterTerm = schemaCollectionFilter.toLowerCase().trim();
-          const filteredNewCollections = newCollections.filter((col: any) => 
-            col.collection.toLowerCase().includes(filterTerm)
-          );
-          const filteredModifiedCollections = modifiedCollections.filter((col: any) => 
-            col.collection.toLowerCase().includes(filterTerm)
-          );
-          const filteredDeletedCollections = deletedCollections.filter((col: any) => 
-            col.collection.toLowerCase().includes(filterTerm)
-          );
-          
-          const totalCollections = newCollections.length + modifiedCollections.length + deletedCollections.length;
-          const filteredTotal = filteredNewCollections.length + filteredModifiedCollections.length + filteredDeletedCollections.length;
-          
-          return (
-            <div style={{
-              marginTop: '1rem',
-              padding: '1rem',
-              backgroundColor: '#fff7ed',
-              border: '2px solid #fb923c',
-              borderRadius: '8px'
-            }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap', gap: '0.5rem' }}>
-                <h4 style={{ margin: 0, color: '#9a3412', fontSize: '1rem' }}>
-                  📊 Schema Differences: {totalCollections} collection(s) ({selectedSchemaCollections.length} selected)
-                  {filterTerm && ` - Showing ${filteredTotal} matching`}
-                </h4>
-                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
-                  {/* Search box */}
-                  <input
-                    type="text"
-                    placeholder="🔍 Search collections..."
-                    value={schemaCollectionFilter}
-                    onChange={(e) => setSchemaCollectionFilter(e.target.value)}
-                    style={{
-                      padding: '0.4rem 0.75rem',
-                      fontSize: '0.75rem',
-                      border: '1px solid #fb923c',
-                      borderRadius: '4px',
-                      minWidth: '200px',
-                      outline: 'none'
-                    }}
-                  />
+        {/* Snapshot files and history */}
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginTop: '0.75rem', fontSize: '0.75rem' }}>
+          {schemaSnapshot && (
+            <span style={{ color: '#78350f' }}>
+              Source snapshot: <strong>{schemaSnapshotLabel || sourceUrl}</strong>
+            </span>
+          )}
+          {(['json', 'yaml'] as SnapshotFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownloadSnapshot(format, schemaSnapshot, { label: schemaSnapshotLabel || sourceUrl, takenAt: new Date().toISOString() })}
+              disabled={!schemaSnapshot}
+              style={{
+                backgroundColor: 'white',
+                color: '#92400e',
+                padding: '0.25rem 0.75rem',
+                border: '1px solid #f59e0b',
+                borderRadius: '4px',
+                cursor: schemaSnapshot ? 'pointer' : 'not-allowed',
+                opacity: schemaSnapshot ? 1 : 0.5,
+                fontSize: '0.75rem'
+              }}
+              title="Download the source snapshot"
+            >
+              💾 {format.toUpperCase()}
+            </button>
+          ))}
+          <label style={{
+            backgroundColor: 'white',
+            color: '#92400e',
+            padding: '0.25rem 0.75rem',
+            border: '1px solid #f59e0b',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }} title="Use a snapshot file instead of the live source server">
+            📂 Load Snapshot File
+            <input
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={handleLoadSnapshotFile}
+              style={{ display: 'none' }}
+            />
+          </label>
+          <button
+            onClick={() => setShowSnapshotHistory(prev => !prev)}
+            style={{
+              backgroundColor: showSnapshotHistory ? '#f59e0b' : 'white',
+              color: showSnapshotHistory ? 'white' : '#92400e',
+              padding: '0.25rem 0.75rem',
+              border: '1px solid #f59e0b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '0.75rem'
+            }}
+          >
+            🕘 Snapshot History ({snapshotHistory.length})
+          </button>
+        </div>
+
+        {/* Schema applies on this target, each revertible to its pre-apply snapshot */}
+        {schemaJobs.length > 0 && (
+          <div style={{
+            marginTop: '0.75rem',
+            padding: '0.75rem',
+            backgroundColor: 'white',
+            border: '1px solid #fde68a',
+            borderRadius: '6px',
+            fontSize: '0.8rem'
+          }}>
+            <div style={{ fontWeight: '600', color: '#92400e', marginBottom: '0.25rem' }}>↩️ Schema applies on this target</div>
+            {schemaJobs.map(job => (
+              <div key={job.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0', borderBottom: '1px solid #fef3c7' }}>
+                <span>
+                  {new Date(job.appliedAt).toLocaleString()} from <strong>{job.sourceLabel}</strong>
+                  <span style={{ color: '#6b7280', marginLeft: '0.5rem' }}>
+                    {job.applied.collections} collections, {job.applied.fields} fields, {job.applied.relations} relations
+                  </span>
+                  {job.revertedAt && (
+                    <span style={{ color: '#065f46', marginLeft: '0.5rem' }}>reverted {new Date(job.revertedAt).toLocaleString()}</span>
+                  )}
+                </span>
+                <span style={{ display: 'flex', gap: '0.25rem', flexShrink: 0 }}>
                   <button
-                    onClick={() => {
-                      const allCollections = [
-                        ...newCollections.map((c: any) => c.collection),
-                        ...modifiedCollections.map((c: any) => c.collection),
-                        ...deletedCollections.map((c: any) => c.collection)
-                      ];
-                      setSelectedSchemaCollections(allCollections);
-                    }}
-                    style={{
-                      padding: '0.25rem 0.75rem',
-                      fontSize: '0.75rem',
-                      backgroundColor: '#fb923c',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '4px',
-                      cursor: 'pointer',
-                      fontWeight: '500'
-                    }}
+                    onClick={() => handlePlanSchemaRollback(job)}
+                    disabled={Object.values(loading).some(Boolean)}
+                    style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '0.75rem', textDecoration: 'underline' }}
+                    title="Diff the target against the snapshot taken before this apply and apply the inverse"
                   >
-                    Select All
+                    {loading[`schema_rollback_${job.id}`] ? 'Comparing...' : 'Revert schema'}
                   </button>
                   <button
-                    onClick={() => setSelectedSchemaCollections([])}
-                    style={{
-                      padding: '0.25rem 0.75rem',
-                      fontSize: '0.75rem',
-                      backgroundColor: '#6b7280',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '4px',
-                      cursor: 'pointer'
+                    onClick={() => {
+                      removeSchemaApplyJob(job.id);
+                      setSchemaJobs(getSchemaApplyJobs(targetUrl));
                     }}
+                    style={{ background: 'none', border: 'none', color: '#6b7280', cursor: 'pointer', fontSize: '0.75rem' }}
+                    title="Forget this apply and its snapshot"
                   >
-                    Clear
+                    ✕
                   </button>
-                </div>
+                </span>
               </div>
+            ))}
+          </div>
+        )}
 
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                {/* New Collections */}
-                {filteredNewCollections.length > 0 && (
-                  <div style={{
-                    backgroundColor: '#ecfdf5',
-                    border: '2px solid #10b981',
-                    borderRadius: '8px',
-                    padding: '1rem'
-                  }}>
-                    <h5 style={{ margin: '0 0 0.75rem 0', color: '#065f46', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                      ✨ New Collections ({filteredNewCollections.length}{filterTerm ? ` of ${newCollections.length}` : ''})
-                      <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#059669' }}>
-                        - Will be created in target
-                      </span>
-                    </h5>
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                      {filteredNewCollections.map((col: any) => (
-                        <div key={col.collection} style={{
-                          backgroundColor: 'white',
-                          border: selectedSchemaCollections.includes(col.collection) ? '2px solid #10b981' : '1px solid #d1fae5',
-                          borderRadius: '6px',
-                          padding: '0.75rem'
-                        }}>
-                          <label style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem', cursor: 'pointer' }}>
-                            <input
-                              type="checkbox"
-                              checked={selectedSchemaCollections.includes(col.collection)}
-                              onChange={(e) => {
-                                if (e.target.checked) {
-                                  setSelectedSchemaCollections(prev => [...prev, col.collection]);
-                                } else {
-                                  setSelectedSchemaCollections(prev => prev.filter(c => c !== col.collection));
-                                }
-                              }}
-                              style={{ marginTop: '0.25rem', cursor: 'pointer' }}
-                            />
-                            <div style={{ flex: 1 }}>
-                              <div style={{ fontWeight: '600', color: '#065f46', marginBottom: '0.25rem' }}>
-                                {col.collection}
-                              </div>
-                              {col.fields && col.fields.length > 0 && (
-                                <div style={{ fontSize: '0.75rem', color: '#059669', marginTop: '0.5rem' }}>
-                                  📝 {col.fields.length} field(s): {col.fields.map((f: any) => f.field).join(', ')}
-                                </div>
-                              )}
-                              {col.relations && col.relations.length > 0 && (
-                                <div style={{ fontSize: '0.75rem', color: '#059669', marginTop: '0.25rem' }}>
-                                  🔗 {col.relations.length} relation(s)
-                                </div>
-                              )}
-                            </div>
-                          </label>
-                        </div>
-                      ))}
-                    </div>
+        {showSnapshotHistory && (() => {
+          const from = snapshotHistory.find(entry => entry.id === snapshotComparison.from);
+          const to = snapshotHistory.find(entry => entry.id === snapshotComparison.to);
+          const comparison = from && to && from.id !== to.id ? diffSnapshots(from.snapshot, to.snapshot) : null;
+          const comparedFields = comparison ? getFieldChanges(comparison, to!.snapshot, from!.snapshot) : [];
+          const entryLabel = (entry: SchemaSnapshotEntry) => `${entry.label} · ${new Date(entry.takenAt).toLocaleString()}`;
+
+          return (
+            <div style={{
+              marginTop: '0.75rem',
+              padding: '0.75rem',
+              backgroundColor: 'white',
+              border: '1px solid #fde68a',
+              borderRadius: '6px',
+              fontSize: '0.8rem'
+            }}>
+              {snapshotHistory.length === 0 ? (
+                <div style={{ color: '#6b7280' }}>No snapshots yet. Snapshots taken from the source or loaded from files are kept here.</div>
+              ) : snapshotHistory.map(entry => (
+                <div key={entry.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0', borderBottom: '1px solid #fef3c7' }}>
+                  <span>
+                    <strong>{entry.label}</strong>
+                    <span style={{ color: '#6b7280', marginLeft: '0.5rem' }}>
+                      {new Date(entry.takenAt).toLocaleString()} · {entry.collections} collections, {entry.fields} fields, {entry.relations} relations
+                      {entry.directus && ` · Directus ${entry.directus}`}
+                    </span>
+                  </span>
+                  <span style={{ display: 'flex', gap: '0.25rem', flexShrink: 0 }}>
+                    <button
+                      onClick={() => loadSnapshotAsSource(entry.snapshot, entryLabel(entry))}
+                      disabled={Object.values(loading).some(Boolean)}
+                      style={{ background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '0.75rem', textDecoration: 'underline' }}
+                    >
+                      Use as source
+                    </button>
+                    {(['json', 'yaml'] as SnapshotFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleDownloadSnapshot(format, entry.snapshot, entry)}
+                        style={{ background: 'none', border: 'none', color: '#92400e', cursor: 'pointer', fontSize: '0.75rem', textDecoration: 'underline' }}
+                      >
+                        {format.toUpperCase()}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setSnapshotHistory(removeSnapshotFromHistory(entry.id))}
+                      style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '0.75rem' }}
+                      title="Remove from history"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                </div>
+              ))}
+
+              {snapshotHistory.length > 1 && (
+                <div style={{ marginTop: '0.75rem' }}>
+                  <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ fontWeight: '600', color: '#92400e' }}>Compare</span>
+                    <select
+                      value={snapshotComparison.from}
+                      onChange={(e) => setSnapshotComparison(prev => ({ ...prev, from: e.target.value }))}
+                      style={{ fontSize: '0.75rem', padding: '0.25rem' }}
+                    >
+                      <option value="">older snapshot…</option>
+                      {snapshotHistory.map(entry => <option key={entry.id} value={entry.id}>{entryLabel(entry)}</option>)}
+                    </select>
+                    <span>→</span>
+                    <select
+                      value={snapshotComparison.to}
+                      onChange={(e) => setSnapshotComparison(prev => ({ ...prev, to: e.target.value }))}
+                      style={{ fontSize: '0.75rem', padding: '0.25rem' }}
+                    >
+                      <option value="">newer snapshot…</option>
+                      {snapshotHistory.map(entry => <option key={entry.id} value={entry.id}>{entryLabel(entry)}</option>)}
+                    </select>
                   </div>
-                )}
 
-                {/* Modified Collections */}
-                {filteredModifiedCollections.length > 0 && (
-                  <div style={{
-                    backgroundColor: '#fef3c7',
-                    border: '2px solid #f59e0b',
-                    borderRadius: '8px',
-                    padding: '1rem'
-                  }}>
-                    <h5 style={{ margin: '0 0 0.75rem 0', color: '#92400e', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                      🔄 Modified Collections ({filteredModifiedCollections.length}{filterTerm ? ` of ${modifiedCollections.length}` : ''})
-                      <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#d97706' }}>
-                        - Have field or validation changes
-                      </span>
-                    </h5>
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                      {filteredModifiedCollections.map((col: any) => {
-                        const isCollapsed = collapsedFieldDetails[col.collection] ?? true;
-                        const hasDetails = col.fieldChanges && col.fieldChanges.length > 0;
-                        
-                        return (
-                          <div key={col.collection} style={{
-                            backgroundColor: 'white',
-                            border: selectedSchemaCollections.includes(col.collection) ? '2px solid #f59e0b' : '1px solid #fde68a',
-                            borderRadius: '6px',
-                            padding: '0.75rem'
-                          }}>
-                            {/* Header with checkbox and collection name */}
-                            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem' }}>
-                              <input
-                                type="checkbox"
-                                checked={selectedSchemaCollections.includes(col.collection)}
-                                onChange={(e) => {
-                                  e.stopPropagation();
-                                  if (e.target.checked) {
-                                    setSelectedSchemaCollections(prev => [...prev, col.collection]);
-                                  } else {
-                                    setSelectedSchemaCollections(prev => prev.filter(c => c !== col.collection));
-                                  }
-                                }}
-                                style={{ marginTop: '0.25rem', cursor: 'pointer' }}
-                              />
-                              <div style={{ flex: 1 }}>
-                                <div style={{ 
-                                  display: 'flex', 
-                                  alignItems: 'center', 
-                                  justifyContent: 'space-between',
-                                  marginBottom: '0.5rem'
-                                }}>
-                                  <div style={{ fontWeight: '600', color: '#92400e' }}>
-                                    {col.collection}
-                                  </div>
-                                  {hasDetails && (
-                                    <button
-                                      onClick={(e) => {
-                                        e.stopPropagation();
-                                        setCollapsedFieldDetails(prev => ({
-                                          ...prev,
-                                          [col.collection]: !isCollapsed
-                                        }));
-                                      }}
-                                      style={{
-                                        background: 'none',
-                                        border: '1px solid #d97706',
-                                        borderRadius: '4px',
-                                        padding: '0.25rem 0.5rem',
-                                        cursor: 'pointer',
-                                        fontSize: '0.7rem',
-                                        color: '#92400e',
-                                        fontWeight: '600',
-                                        display: 'flex',
-                                        alignItems: 'center',
-                                        gap: '0.25rem'
-                                      }}
-                                    >
-                                      {isCollapsed ? '▶' : '▼'} {isCollapsed ? 'Show' : 'Hide'} Details
-                                    </button>
-                                  )}
-                                </div>
-                                
-                                {/* Summary Badge */}
-                                <div style={{ 
-                                  display: 'flex', 
-                                  gap: '0.5rem', 
-                                  marginBottom: hasDetails && !isCollapsed ? '0.5rem' : '0',
-                                  flexWrap: 'wrap'
-                                }}>
-                                  {col.newFieldsCount > 0 && (
-                                    <span style={{
-                                      fontSize: '0.7rem',
-                                      padding: '0.25rem 0.5rem',
-                                      backgroundColor: '#dcfce7',
-                                      color: '#166534',
-                                      borderRadius: '4px',
-                                      fontWeight: '600'
-                                    }}>
-                                      ➕ {col.newFieldsCount} new field{col.newFieldsCount > 1 ? 's' : ''}
-                                    </span>
-                                  )}
-                                  {col.deletedFieldsCount > 0 && (
-                                    <span style={{
-                                      fontSize: '0.7rem',
-                                      padding: '0.25rem 0.5rem',
-                                      backgroundColor: '#fee2e2',
-                                      color: '#991b1b',
-                                      borderRadius: '4px',
-                                      fontWeight: '600'
-                                    }}>
-                                      ➖ {col.deletedFieldsCount} deleted field{col.deletedFieldsCount > 1 ? 's' : ''}
-                                    </span>
-                                  )}
-                                  {col.modifiedFieldsCount > 0 && (
-                                    <span style={{
-                                      fontSize: '0.7rem',
-                                      padding: '0.25rem 0.5rem',
-                                      backgroundColor: '#e0e7ff',
-                                      color: '#3730a3',
-                                      borderRadius: '4px',
-                                      fontWeight: '600'
-                                    }}>
-                                      ✏️ {col.modifiedFieldsCount} modified field{col.modifiedFieldsCount > 1 ? 's' : ''}
-                                    </span>
-                                  )}
-                                  {col.relations && col.relations.length > 0 && (
-                                    <span style={{
-                                      fontSize: '0.7rem',
-                                      padding: '0.25rem 0.5rem',
-                                      backgroundColor: '#fef3c7',
-                                      color: '#92400e',
-                                      borderRadius: '4px',
-                                      fontWeight: '600'
-                                    }}>
-                                      🔗 {col.relations.length} relation{col.relations.length > 1 ? 's' : ''}
-                                    </span>
-                                  )}
-                                </div>
-                                
-                                {/* Collapsible Field Details */}
-                                {!isCollapsed && hasDetails && (
-                                  <div style={{ 
-                                    backgroundColor: '#fffbeb', 
-                                    padding: '0.5rem', 
-                                    borderRadius: '4px',
-                                    marginTop: '0.5rem',
-                                    marginBottom: '0.5rem',
-                                    border: '1px solid #fde68a'
-                                  }}>
-                                    <div style={{ fontSize: '0.8rem', fontWeight: '600', color: '#92400e', marginBottom: '0.5rem' }}>
-                                      📝 Field Details:
-                                    </div>
-                                    {col.fieldChanges.map((field: any, idx: number) => (
-                                      <div key={idx} style={{ 
-                                        fontSize: '0.75rem', 
-                                        color: '#78350f',
-                                        marginLeft: '1rem',
-                                        marginBottom: '0.5rem',
-                                        lineHeight: '1.4',
-                                        padding: '0.5rem',
-                                        backgroundColor: field.action === 'create' ? '#f0fdf4' : 
-                                                         field.action === 'delete' ? '#fef2f2' : '#f5f3ff',
-                                        borderLeft: `3px solid ${field.action === 'create' ? '#10b981' : 
-                                                                   field.action === 'delete' ? '#dc2626' : '#6366f1'}`,
-                                        borderRadius: '4px'
-                                      }}>
-                                        <div style={{ marginBottom: '0.25rem' }}>
-                                          <strong style={{ fontSize: '0.85rem' }}>{field.field}</strong> 
-                                          <span style={{ 
-                                            marginLeft: '0.5rem',
-                                            padding: '0.125rem 0.375rem',
-                                            backgroundColor: field.action === 'create' ? '#dcfce7' : 
-                                                            field.action === 'delete' ? '#fee2e2' : '#e0e7ff',
-                                            color: field.action === 'create' ? '#166534' : 
-                                                   field.action === 'delete' ? '#991b1b' : '#3730a3',
-                                            borderRadius: '3px',
-                                            fontSize: '0.7rem',
-                                            fontWeight: '600'
-                                          }}>
-                                            {field.action === 'create' ? '✨ NEW' : 
-                                             field.action === 'delete' ? '🗑️ DELETED' : '✏️ MODIFIED'}
-                                          </span>
-                                          {field.type && <span style={{ marginLeft: '0.5rem', color: '#a16207', fontWeight: '600' }}>({field.type})</span>}
-                                        </div>
-                                        
-                                        {/* Description based on action */}
-                                        <div style={{ fontSize: '0.7rem', color: '#6b7280', marginBottom: '0.25rem', fontStyle: 'italic' }}>
-                                          {field.action === 'create' && '📍 Field exists in source but not in target'}
-                                          {field.action === 'delete' && '📍 Field exists in target but removed from source'}
-                                          {field.action === 'update' && '📍 Field has different configuration between source and target'}
-                                        </div>
-                                        
-                                        {/* Validation info */}
-                                        {field.validation && (
-                                          <div style={{ marginLeft: '1rem', marginTop: '0.25rem', color: '#b45309' }}>
-                                            ✓ Validation: {JSON.stringify(field.validation)}
-                                          </div>
-                                        )}
-                                        
-                                        {/* Constraints info */}
-                                        {field.constraints && (
-                                          <div style={{ marginLeft: '1rem', marginTop: '0.25rem', color: '#92400e', fontSize: '0.7rem' }}>
-                                            {field.constraints.nullable !== undefined && `Nullable: ${field.constraints.nullable}, `}
-                                            {field.constraints.unique && `Unique: ${field.constraints.unique}, `}
-                                            {field.constraints.primaryKey && `Primary Key: ${field.constraints.primaryKey}, `}
-                                            {field.constraints.maxLength && `Max Length: ${field.constraints.maxLength}`}
-                                          </div>
-                                        )}
-                                      </div>
-                                    ))}
-                                  </div>
-                                )}
-                                
-                                {/* Collection-level validation */}
-                                {!isCollapsed && (col.schema?.validation || col.meta?.validation) && (
-                                  <div style={{ 
-                                    backgroundColor: '#fef3c7', 
-                                    padding: '0.5rem', 
-                                    borderRadius: '4px',
-                                    border: '1px solid #fcd34d',
-                                    fontSize: '0.75rem',
-                                    color: '#92400e',
-                                    marginTop: '0.5rem'
-                                  }}>
-                                    <strong>Collection Validation:</strong>
-                                    <pre style={{ margin: '0.25rem 0 0 0', fontSize: '0.7rem', whiteSpace: 'pre-wrap' }}>
-                                      {JSON.stringify(col.schema?.validation || col.meta?.validation, null, 2)}
-                                    </pre>
-                                  </div>
-                                )}
+                  {comparison && (
+                    <div style={{ marginTop: '0.5rem' }}>
+                      {comparison.diff.collections.length + comparison.diff.fields.length + comparison.diff.relations.length === 0 ? (
+                        <div style={{ color: '#065f46' }}>✅ The two snapshots have the same schema</div>
+                      ) : (
+                        <>
+                          {comparison.diff.collections.map((col: any) => (
+                            <div key={col.collection} style={{ fontFamily: 'monospace' }}>
+                              {col.diff[0].kind === 'N' ? '➕' : col.diff[0].kind === 'D' ? '➖' : '✏️'} {col.collection}
+                            </div>
+                          ))}
+                          {comparedFields.map(change => (
+                            <div key={change.key} style={{ marginTop: '0.25rem' }}>
+                              <div style={{ fontFamily: 'monospace', fontWeight: '600' }}>
+                                {change.action === 'create' ? '➕' : change.action === 'delete' ? '➖' : '✏️'} {change.key}
                               </div>
+                              {change.action === 'update' && change.properties.map(property => (
+                                <div key={property.property} style={{ fontFamily: 'monospace', marginLeft: '1.25rem', color: '#6b7280', wordBreak: 'break-all' }}>
+                                  {property.property}: <span style={{ color: '#991b1b' }}>{formatSchemaValue(property.before)}</span> → <span style={{ color: '#166534' }}>{formatSchemaValue(property.after)}</span>
+                                </div>
+                              ))}
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
-
-                {/* Deleted Collections */}
-                {filteredDeletedCollections.length > 0 && (
-                  <div style={{
-                    backgroundColor: '#fee2e2',
-                    border: '2px solid #dc2626',
-                    borderRadius: '8px',
-                    padding: '1rem'
-                  }}>
-                    <h5 style={{ margin: '0 0 0.75rem 0', color: '#991b1b', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                      🗑️ Deleted Collections ({filteredDeletedCollections.length}{filterTerm ? ` of ${deletedCollections.length}` : ''})
-                      <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#dc2626' }}>
-                        - Exist in target but removed from source
-                      </span>
-                    </h5>
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                      {filteredDeletedCollections.map((col: any) => (
-                        <div key={col.collection} style={{
-                          backgroundColor: 'white',
-                          border: selectedSchemaCollections.includes(col.collection) ? '2px solid #dc2626' : '1px solid #fecaca',
-                          borderRadius: '6px',
-                          padding: '0.75rem'
-                        }}>
-                          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
-                            <input
-                              type="checkbox"
-                              checked={selectedSchemaCollections.includes(col.collection)}
-                              onChange={(e) => {
-                                if (e.target.checked) {
-                                  setSelectedSchemaCollections(prev => [...prev, col.collection]);
-                                } else {
-                                  setSelectedSchemaCollections(prev => prev.filter(c => c !== col.collection));
-                                }
-                              }}
-                              style={{ cursor: 'pointer' }}
-                            />
-                            <div style={{ flex: 1 }}>
-                              <span style={{ fontWeight: '600', color: '#991b1b' }}>{col.collection}</span>
-                              <span style={{ fontSize: '0.75rem', color: '#dc2626', marginLeft: '0.5rem' }}>
-                                ⚠️ Will be deleted from target
-                              </span>
+                          ))}
+                          {comparison.diff.relations.length > 0 && (
+                            <div style={{ marginTop: '0.25rem', color: '#6b7280' }}>
+                              🔗 {comparison.diff.relations.length} relation change(s): {comparison.diff.relations.map((rel: any) => `${rel.collection}.${rel.field}`).join(', ')}
                             </div>
-                          </label>
-                        </div>
-                      ))}
+                          )}
+                        </>
+                      )}
                     </div>
-                  </div>
-                )}
-
-                {totalCollections === 0 && (
-                  <div style={{
-                    textAlign: 'center',
-                    padding: '2rem',
-                    backgroundColor: '#f0fdf4',
-                    border: '2px solid #10b981',
-                    borderRadius: '8px',
-                    color: '#065f46'
-                  }}>
-                    ✅ No schema differences found. Schemas are in sync!
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
             </div>
           );
         })()}
 
+        {/* Detailed Schema Diff Viewer */}
+        {schemaDiff && schemaMigrationStep === 'apply' && !loading.schema_apply && (
+          <SchemaDiffViewer
+            schemaDiff={schemaDiff}
+            sourceSnapshot={renamedSchemaSnapshot}
+            targetSnapshot={schemaTargetSnapshot}
+            selectedCollections={selectedSchemaCollections}
+            selectedFields={selectedSchemaFields}
+            onSelectionChange={(collections, fields) => {
+              setSelectedSchemaCollections(collections)
+              setSelectedSchemaFields(fields)
+            }}
+            destructiveEstimates={destructiveEstimates}
+            selectedDestructiveChanges={selectedDestructiveChanges}
+            destructiveConfirmation={destructiveConfirmation}
+            onDestructiveConfirmationChange={setDestructiveConfirmation}
+          />
+        )}
+
         {/* Progress Indicator */}
         {(schemaMigrationStep !== 'idle' || Object.values(loading).some(Boolean)) && (
           <div style={{ 
@@ -2242,6 +2449,43 @@ export function CollectionList({
                 />
               </div>
 
+              <div className="form-group">
+                <label htmlFor="targetMaxConcurrent">Max In-Flight Requests:</label>
+                <input
+                  id="targetMaxConcurrent"
+                  type="number"
+                  min="1"
+                  value={targetMaxConcurrent}
+                  onChange={(e) => setTargetMaxConcurrent(Math.max(1, Number(e.target.value) || 1))}
+                  title="Maximum number of concurrent requests sent to the target"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="targetRequestsPerSecond">Requests / Second:</label>
+                <input
+                  id="targetRequestsPerSecond"
+                  type="number"
+                  min="0"
+                  value={targetRequestsPerSecond || ''}
+                  onChange={(e) => setTargetRequestsPerSecond(Math.max(0, Number(e.target.value) || 0))}
+                  placeholder="Unlimited"
+                  title="Sustained request rate against the target (empty = unlimited)"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="parallelCollections">Parallel Collections:</label>
+                <input
+                  id="parallelCollections"
+                  type="number"
+                  min="1"
+                  value={parallelCollections}
+                  onChange={(e) => setParallelCollections(Math.max(1, Number(e.target.value) || 1))}
+                  title="Collections of the same dependency level imported at the same time by Smart Batch Migration"
+                />
+              </div>
+
               {/* Title Filter - Disabled due to schema compatibility issues
               <div className="form-group">
                 <label htmlFor="titleFilter">Title Filter:</label>
@@ -2255,6 +2499,102 @@ export function CollectionList({
               </div>
               */}
 
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={incrementalSync}
+                    onChange={(e) => setIncrementalSync(e.target.checked)}
+                  />
+                  Incremental sync
+                </label>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  Only import items changed since the last sync (by date_updated / date_created, or content hash)
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={relationalCopy}
+                    onChange={(e) => setRelationalCopy(e.target.checked)}
+                  />
+                  Copy related rows
+                </label>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  Selected items bring their translations, M2M links and O2M children; removed links are cleaned up on the target
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={preflightValidation}
+                    onChange={(e) => setPreflightValidation(e.target.checked)}
+                  />
+                  Pre-flight validation
+                </label>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  Check items against the target's field types, required, length, choices and validation rules before writing
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={mirrorDeletions}
+                    onChange={(e) => setMirrorDeletions(e.target.checked)}
+                  />
+                  Mirror deletions
+                </label>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  Delete target items that no longer exist in the source (preview and confirmation required)
+                </div>
+              </div>
+
+              {mirrorDeletions && (
+                <div className="form-group">
+                  <label htmlFor="mirrorMaxDeletes">Max Deletes:</label>
+                  <input
+                    id="mirrorMaxDeletes"
+                    type="number"
+                    min="1"
+                    value={mirrorMaxDeletes}
+                    onChange={(e) => setMirrorMaxDeletes(Math.max(1, Number(e.target.value) || 1))}
+                    title="Mirror deletion is refused when more target items than this would be deleted"
+                  />
+                </div>
+              )}
+
+              <div className="form-group" style={{ flexBasis: '100%' }}>
+                <label htmlFor="renameMap">Renamed on Target:</label>
+                <textarea
+                  id="renameMap"
+                  rows={4}
+                  value={renameMapText}
+                  onChange={(e) => setRenameMapText(e.target.value)}
+                  placeholder={'articles = posts\nposts.headline = title'}
+                  style={{ width: '100%', fontFamily: 'monospace', fontSize: '0.8rem' }}
+                />
+                <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  One rename per line, source name first. Applied to schema diffs, imported items, relations, permissions and flows.
+                </div>
+                {renameMapError && (
+                  <div style={{ fontSize: '0.75rem', color: '#dc2626' }}>{renameMapError}</div>
+                )}
+                <button
+                  type="button"
+                  onClick={handleSaveRenameMap}
+                  disabled={renameMapText === formatRenameMap(renameMap)}
+                  style={{ marginTop: '0.5rem', backgroundColor: '#3b82f6' }}
+                >
+                  Save Renames
+                </button>
+              </div>
+
               <div className="form-group">
                 <button
                   type="button"
@@ -2384,6 +2724,44 @@ export function CollectionList({
         >
           {isValidating ? 'Validating...' : 'Validate Migration'}
         </button>
+
+        <button
+          onClick={handlePlanBatchMigration}
+          style={{
+            backgroundColor: '#7c3aed',
+            color: 'white',
+            padding: '0.75rem 1.5rem',
+            fontWeight: '500',
+            borderRadius: '6px',
+            border: 'none',
+            cursor: 'pointer',
+            minWidth: '160px'
+          }}
+          disabled={Object.values(loading).some(Boolean) || selectedCollections.length === 0}
+          title="Import the selected collections in dependency order, breaking cycles in two passes"
+        >
+          {loading.batch_plan ? 'Planning...' : `🔄 Smart Batch Migration (${selectedCollections.length})`}
+        </button>
+
+        {mirrorDeletions && (
+          <button
+            onClick={() => handlePreviewMirror(selectedCollections.filter(name => !name.startsWith('directus_')))}
+            style={{
+              backgroundColor: '#dc2626',
+              color: 'white',
+              padding: '0.75rem 1.5rem',
+              fontWeight: '500',
+              borderRadius: '6px',
+              border: 'none',
+              cursor: 'pointer',
+              minWidth: '160px'
+            }}
+            disabled={Object.values(loading).some(Boolean) || selectedCollections.length === 0}
+            title="List target items missing from the source in the selected collections"
+          >
+            {loading.mirror_preview ? 'Comparing...' : '🪞 Preview Deletions'}
+          </button>
+        )}
       </div>
 
       {/* Custom Collections List */}
@@ -2393,6 +2771,24 @@ export function CollectionList({
             📦 Custom Collections ({collections.filter(c => !c.collection.startsWith('directus_')).length})
           </h3>
           <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            <button
+              onClick={() => setShowDependencyGraph(prev => !prev)}
+              style={{
+                padding: '0.25rem 0.75rem',
+                fontSize: '0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                backgroundColor: showDependencyGraph ? '#eff6ff' : 'white',
+                color: showDependencyGraph ? '#1d4ed8' : '#374151',
+                cursor: 'pointer'
+              }}
+              title="Draw the collections and their relations by migration level"
+            >
+              {showDependencyGraph ? '🕸️ Hide Graph' : '🕸️ Dependency Graph'}
+            </button>
+
+            <div style={{ width: '1px', height: '20px', backgroundColor: '#d1d5db' }}></div>
+
             {/* Pagination Controls */}
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
               <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>Show:</span>
@@ -2483,6 +2879,23 @@ export function CollectionList({
           </div>
         </div>
 
+        {showDependencyGraph && (
+          <DependencyGraphPanel
+            sourceUrl={sourceUrl}
+            sourceToken={sourceToken}
+            collections={collections}
+            targetCollections={targetCollections}
+            selectedCollections={selectedCollections}
+            onToggleCollection={(name) => setSelectedCollections(prev =>
+              prev.includes(name) ? prev.filter(c => c !== name) : [...prev, name]
+            )}
+            onError={(message) => {
+              onStatusUpdate({ type: 'error', message })
+              setShowDependencyGraph(false)
+            }}
+          />
+        )}
+
         <div style={{ display: 'grid', gap: '1rem' }}>
           {(() => {
             const filteredCollections = collections.filter(c => {
@@ -2493,7 +2906,6 @@ export function CollectionList({
             });
             
             const totalItems = filteredCollections.length;
-            const totalPages = itemsPerPage === -1 ? 1 : Math.ceil(totalItems / itemsPerPage);
             const startIndex = itemsPerPage === -1 ? 0 : (currentPage - 1) * itemsPerPage;
             const endIndex = itemsPerPage === -1 ? totalItems : startIndex + itemsPerPage;
             const paginatedCollections = filteredCollections.slice(startIndex, endIndex);
@@ -2655,7 +3067,7 @@ export function CollectionList({
                   </div>
                   
                   <div className="button-group">
-                    {loading[`import_${collection.collection}`] && importProgress[collection.collection] ? (
+                    {(loading[`import_${collection.collection}`] || loading[`import_selected_${collection.collection}`]) && importProgress[collection.collection] ? (
                       <div style={{
                         display: 'flex',
                         alignItems: 'center',
@@ -2690,32 +3102,198 @@ export function CollectionList({
                             }}></div>
                           </div>
                         </div>
-                      </div>
-                    ) : (
-                      <div style={{ display: 'flex', gap: '0.5rem' }}>
                         <button
-                          onClick={() => handlePreviewItems(collection.collection)}
-                          disabled={loading[`import_${collection.collection}`] || hasValidationErrors || collectionStatus === 'new'}
+                          onClick={() => handleCancelImport(collection.collection)}
                           style={{
-                            backgroundColor: hasValidationErrors || collectionStatus === 'new' ? '#9ca3af' : '#3b82f6',
-                            color: 'white',
-                            padding: '0.5rem 1rem',
-                            borderRadius: '6px',
-                            border: 'none',
-                            cursor: hasValidationErrors || collectionStatus === 'new' ? 'not-allowed' : 'pointer',
-                            fontWeight: '500',
-                            fontSize: '0.875rem'
+                            backgroundColor: 'white',
+                            color: '#f59e0b',
+                            padding: '0.25rem 0.75rem',
+                            borderRadius: '4px',
+                            border: '1px solid #f59e0b',
+                            cursor: 'pointer',
+                            fontSize: '0.75rem',
+                            fontWeight: '500'
                           }}
-                          title="Preview and select specific items to import"
+                          title="Stop the import; items already written stay in the target"
                         >
-                          📋 Select Items
+                          Cancel
                         </button>
-                        <button
-                          onClick={() => handleImport(collection.collection)}
-                          disabled={loading[`import_${collection.collection}`] || hasValidationErrors || collectionStatus === 'new'}
-                          style={{
-                            backgroundColor: hasValidationErrors || collectionStatus === 'new' ? '#9ca3af' : '#f97316',
-                            color: 'white',
+                      </div>
+                    ) : (
+                      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                        {incrementalSync && collectionStatus !== 'new' && (() => {
+                          const changeCount = changeCounts[collection.collection]
+                          if (changeCount === 'loading') {
+                            return <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>Checking...</span>
+                          }
+                          if (!changeCount) {
+                            return (
+                              <button
+                                onClick={() => handleCheckChanges(collection.collection)}
+                                style={{
+                                  background: 'none',
+                                  border: 'none',
+                                  color: '#3b82f6',
+                                  cursor: 'pointer',
+                                  fontSize: '0.75rem',
+                                  textDecoration: 'underline'
+                                }}
+                                title="Count items changed since the last incremental sync"
+                              >
+                                🔍 Check changes
+                              </button>
+                            )
+                          }
+                          return (
+                            <span
+                              style={{ fontSize: '0.75rem', color: changeCount.changed > 0 ? '#92400e' : '#065f46' }}
+                              title={changeCount.lastSyncAt ? `Last sync: ${new Date(changeCount.lastSyncAt).toLocaleString()}` : 'Never synced'}
+                            >
+                              {changeCount.lastSyncAt
+                                ? `${changeCount.changed} changed since last sync`
+                                : `${changeCount.total} items, never synced`}
+                              {changeCount.lastSyncAt && (
+                                <button
+                                  onClick={() => handleResetSyncState(collection.collection)}
+                                  style={{
+                                    background: 'none',
+                                    border: 'none',
+                                    color: '#6b7280',
+                                    cursor: 'pointer',
+                                    fontSize: '0.75rem',
+                                    textDecoration: 'underline'
+                                  }}
+                                  title="Forget the sync watermark so the next sync copies everything"
+                                >
+                                  reset
+                                </button>
+                              )}
+                            </span>
+                          )
+                        })()}
+                        {collectionStatus !== 'new' && (editingMatchKey?.collection === collection.collection ? (
+                          <span style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+                            <input
+                              type="text"
+                              value={editingMatchKey.value}
+                              onChange={(e) => setEditingMatchKey({ collection: collection.collection, value: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSaveMatchKey()
+                                if (e.key === 'Escape') setEditingMatchKey(null)
+                              }}
+                              placeholder="id"
+                              autoFocus
+                              style={{ width: '120px', padding: '0.25rem 0.5rem', fontSize: '0.75rem' }}
+                              title="Comma-separated fields identifying an item on the target, e.g. slug or site,path. Empty = primary key"
+                            />
+                            <button
+                              onClick={handleSaveMatchKey}
+                              style={{
+                                background: 'none',
+                                border: 'none',
+                                color: '#3b82f6',
+                                cursor: 'pointer',
+                                fontSize: '0.75rem'
+                              }}
+                            >
+                              ✓
+                            </button>
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => setEditingMatchKey({
+                              collection: collection.collection,
+                              value: (matchKeys[collection.collection] || []).join(',')
+                            })}
+                            style={{
+                              background: 'none',
+                              border: 'none',
+                              color: matchKeys[collection.collection] ? '#7c3aed' : '#6b7280',
+                              cursor: 'pointer',
+                              fontSize: '0.75rem',
+                              textDecoration: 'underline'
+                            }}
+                            title="Field(s) used to find the existing target row instead of the primary key"
+                          >
+                            🔑 {(matchKeys[collection.collection] || ['id']).join(' + ')}
+                          </button>
+                        ))}
+                        {collectionStatus !== 'new' && (
+                          <button
+                            onClick={() => handleAnalyzeImpact(collection.collection)}
+                            disabled={loading[`impact_${collection.collection}`]}
+                            style={{
+                              background: 'none',
+                              border: 'none',
+                              color: '#3b82f6',
+                              cursor: 'pointer',
+                              fontSize: '0.75rem',
+                              textDecoration: 'underline'
+                            }}
+                            title="List relations, flows, permissions and dashboard panels on the target that reference this collection"
+                          >
+                            {loading[`impact_${collection.collection}`] ? 'Analyzing...' : '🧭 Impact'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingTransforms({
+                            collection: collection.collection,
+                            transforms: fieldTransforms[collection.collection] || []
+                          })}
+                          style={{
+                            background: 'none',
+                            border: 'none',
+                            color: fieldTransforms[collection.collection]?.length ? '#7c3aed' : '#6b7280',
+                            cursor: 'pointer',
+                            fontSize: '0.75rem',
+                            textDecoration: 'underline'
+                          }}
+                          title="Value transforms applied to this collection's items during import"
+                        >
+                          🔧 Transforms{fieldTransforms[collection.collection]?.length ? ` (${fieldTransforms[collection.collection].length})` : ''}
+                        </button>
+                        <button
+                          onClick={() => handlePreviewItems(collection.collection)}
+                          disabled={loading[`import_${collection.collection}`] || hasValidationErrors || collectionStatus === 'new'}
+                          style={{
+                            backgroundColor: hasValidationErrors || collectionStatus === 'new' ? '#9ca3af' : '#3b82f6',
+                            color: 'white',
+                            padding: '0.5rem 1rem',
+                            borderRadius: '6px',
+                            border: 'none',
+                            cursor: hasValidationErrors || collectionStatus === 'new' ? 'not-allowed' : 'pointer',
+                            fontWeight: '500',
+                            fontSize: '0.875rem'
+                          }}
+                          title="Preview and select specific items to import"
+                        >
+                          📋 Select Items
+                        </button>
+                        {mirrorDeletions && collectionStatus !== 'new' && (
+                          <button
+                            onClick={() => handlePreviewMirror([collection.collection])}
+                            disabled={Object.values(loading).some(Boolean)}
+                            style={{
+                              backgroundColor: 'white',
+                              color: '#dc2626',
+                              padding: '0.5rem 1rem',
+                              borderRadius: '6px',
+                              border: '1px solid #dc2626',
+                              cursor: 'pointer',
+                              fontWeight: '500',
+                              fontSize: '0.875rem'
+                            }}
+                            title="Preview target items missing from the source and delete them"
+                          >
+                            🪞 Mirror
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleImport(collection.collection)}
+                          disabled={loading[`import_${collection.collection}`] || hasValidationErrors || collectionStatus === 'new'}
+                          style={{
+                            backgroundColor: hasValidationErrors || collectionStatus === 'new' ? '#9ca3af' : '#f97316',
+                            color: 'white',
                             padding: '0.5rem 1rem',
                             borderRadius: '6px',
                             border: 'none',
@@ -2725,7 +3303,7 @@ export function CollectionList({
                           }}
                           title={collectionStatus === 'new' ? 'Cannot import to new collections. Please sync schema first.' : 'Import all items from source'}
                         >
-                          {collectionStatus === 'new' ? 'Schema Required' : 'Import All'}
+                          {collectionStatus === 'new' ? 'Schema Required' : incrementalSync ? 'Sync Changes' : 'Import All'}
                         </button>
                       </div>
                     )}
@@ -3145,7 +3723,7 @@ export function CollectionList({
                         </div>
                         
                         <div>
-                          {loading[`import_${collection.collection}`] && importProgress[collection.collection] ? (
+                          {(loading[`import_${collection.collection}`] || loading[`import_selected_${collection.collection}`]) && importProgress[collection.collection] ? (
                             <div style={{
                               display: 'flex',
                               alignItems: 'center',
@@ -3180,6 +3758,22 @@ export function CollectionList({
                                   }}></div>
                                 </div>
                               </div>
+                              <button
+                                onClick={() => handleCancelImport(collection.collection)}
+                                style={{
+                                  backgroundColor: 'white',
+                                  color: '#dc2626',
+                                  padding: '0.25rem 0.75rem',
+                                  borderRadius: '4px',
+                                  border: '1px solid #dc2626',
+                                  cursor: 'pointer',
+                                  fontSize: '0.75rem',
+                                  fontWeight: '500'
+                                }}
+                                title="Stop the import; items already written stay in the target"
+                              >
+                                Cancel
+                              </button>
                             </div>
                           ) : (
                             <button
@@ -3278,6 +3872,634 @@ export function CollectionList({
         </div>
       )}
 
+      {/* Unrevertable Schema Apply Modal */}
+      {unrevertableApply && (
+        <UnrevertableApplyModal onApply={handleApplyWithoutRollback} onCancel={handleCancelUnrevertableApply} />
+      )}
+
+      {/* Schema Rollback Modal */}
+      {rollbackPlan && (
+        <SchemaRollbackModal
+          plan={rollbackPlan}
+          isReverting={!!loading.schema_rollback}
+          onRevert={handleApplySchemaRollback}
+          onCancel={() => setRollbackPlan(null)}
+        />
+      )}
+
+      {/* Impact Analysis Modal */}
+      {impactReport && (
+        <ImpactReportModal impact={impactReport} onClose={() => setImpactReport(null)} />
+      )}
+
+      {/* Field Transforms Editor Modal */}
+      {editingTransforms && (
+        <TransformEditorModal
+          collection={editingTransforms.collection}
+          initialTransforms={editingTransforms.transforms}
+          isPreviewing={!!loading[`transform_preview_${editingTransforms.collection}`]}
+          onPreview={(transforms) => handlePreviewTransforms(editingTransforms.collection, transforms)}
+          onSave={handleSaveTransforms}
+          onCancel={() => setEditingTransforms(null)}
+        />
+      )}
+
+      {/* Field Transforms Preview Modal */}
+      {transformPreview && (
+        <TransformPreviewModal preview={transformPreview} onClose={() => setTransformPreview(null)} />
+      )}
+
+      {/* Pre-flight Validation Report Modal */}
+      {preflightReport && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            padding: '2rem',
+            borderRadius: '12px',
+            maxWidth: '760px',
+            width: '100%',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            margin: '1rem',
+            boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+              <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🛫</span>
+              <h3 style={{ margin: 0, color: '#92400e' }}>
+                {preflightReport.invalidRows} of {preflightReport.checked} items break target constraints
+              </h3>
+            </div>
+
+            <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+              Checked against the fields of <strong>{preflightReport.targetCollection}</strong> on the target. Nothing has been
+              written yet. Coercion drops unknown fields, converts types, truncates long text and lets the target fill defaults;
+              it fixes {preflightReport.coercibleRows} of the {preflightReport.invalidRows} rows.
+            </p>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem', marginBottom: '1rem' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                  <th style={{ padding: '0.375rem' }}>Field</th>
+                  <th style={{ padding: '0.375rem' }}>Rule</th>
+                  <th style={{ padding: '0.375rem' }}>Rows</th>
+                  <th style={{ padding: '0.375rem' }}>Examples</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preflightReport.violations.map(violation => (
+                  <tr key={`${violation.field}|${violation.rule}`} style={{ borderTop: '1px solid #e5e7eb', verticalAlign: 'top' }}>
+                    <td style={{ padding: '0.375rem', fontFamily: 'monospace' }}>{violation.field}</td>
+                    <td style={{ padding: '0.375rem' }}>
+                      {violation.rule.replace('_', ' ')}
+                      {violation.coercible === violation.count && (
+                        <span style={{ marginLeft: '0.25rem', color: '#059669' }} title="Fixed by coercion">✓</span>
+                      )}
+                    </td>
+                    <td style={{ padding: '0.375rem' }}>{violation.count}</td>
+                    <td style={{ padding: '0.375rem', color: '#6b7280' }}>
+                      {violation.samples.map((sample, index) => (
+                        <div key={index} style={{ wordBreak: 'break-all' }}>
+                          #{String(sample.id)}: {sample.message}
+                          {sample.value !== undefined && (
+                            <span style={{ fontFamily: 'monospace' }}> ({formatSchemaValue(sample.value).slice(0, 80)})</span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => setPreflightReport(null)}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  backgroundColor: 'white',
+                  color: '#6b7280',
+                  cursor: 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  const collectionName = preflightReport.collection
+                  setPreflightReport(null)
+                  handleImport(collectionName, 'skip')
+                }}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: '#f59e0b',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                Skip {preflightReport.invalidRows} Invalid Rows
+              </button>
+              <button
+                onClick={() => {
+                  const collectionName = preflightReport.collection
+                  setPreflightReport(null)
+                  handleImport(collectionName, 'coerce')
+                }}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: '#3b82f6',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                Coerce and Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Mirror Deletions Preview Modal */}
+      {mirrorPlan && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            padding: '2rem',
+            borderRadius: '12px',
+            maxWidth: '640px',
+            width: '100%',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            margin: '1rem',
+            boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+              <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🪞</span>
+              <h3 style={{ margin: 0, color: '#dc2626' }}>
+                Delete {mirrorPlan.totalDeletes} target item{mirrorPlan.totalDeletes === 1 ? '' : 's'}
+              </h3>
+            </div>
+
+            <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+              These items exist in the target but not in the source. Collections are processed in the order shown
+              (dependent collections first).
+            </p>
+
+            {mirrorPlan.warnings.map((warning, index) => (
+              <div key={index} style={{
+                padding: '0.5rem 0.75rem',
+                marginBottom: '0.5rem',
+                backgroundColor: '#fef3c7',
+                color: '#92400e',
+                borderRadius: '6px',
+                fontSize: '0.8rem'
+              }}>
+                ⚠️ {warning}
+              </div>
+            ))}
+
+            {mirrorPlan.collections.filter(plan => plan.deleteIds.length > 0).map(plan => (
+              <div key={plan.collection} style={{
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                padding: '0.75rem',
+                marginBottom: '0.75rem'
+              }}>
+                <div style={{ fontWeight: '600', marginBottom: '0.25rem' }}>
+                  {plan.targetCollection !== plan.collection ? `${plan.collection} → ${plan.targetCollection}` : plan.collection}: {plan.deleteIds.length} to delete
+                  <span style={{ fontWeight: 'normal', fontSize: '0.75rem', color: '#6b7280', marginLeft: '0.5rem' }}>
+                    (source {plan.sourceCount}, target {plan.targetCount})
+                  </span>
+                </div>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {plan.primaryKey}: {plan.deleteIds.slice(0, 50).join(', ')}
+                  {plan.deleteIds.length > 50 && ` … and ${plan.deleteIds.length - 50} more`}
+                </div>
+              </div>
+            ))}
+
+            {mirrorPlan.totalDeletes > mirrorMaxDeletes ? (
+              <div style={{
+                padding: '0.75rem',
+                marginBottom: '1rem',
+                backgroundColor: '#fee2e2',
+                color: '#991b1b',
+                borderRadius: '6px',
+                fontSize: '0.875rem'
+              }}>
+                This exceeds the safety limit of {mirrorMaxDeletes} deletions. Raise "Max Deletes" in the import
+                options if this is expected.
+              </div>
+            ) : (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', margin: '1rem 0', fontSize: '0.875rem', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={mirrorConfirmed}
+                  onChange={(e) => setMirrorConfirmed(e.target.checked)}
+                  disabled={loading.mirror_delete}
+                />
+                I understand these items will be permanently deleted from the target
+              </label>
+            )}
+
+            {mirrorProgress && (
+              <div style={{ marginBottom: '1rem', fontSize: '0.875rem', color: '#374151' }}>
+                Deleting... {mirrorProgress.current} / {mirrorProgress.total}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+              {loading.mirror_delete ? (
+                <button
+                  onClick={() => importControllers.current.__mirror?.abort()}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #f59e0b',
+                    borderRadius: '6px',
+                    backgroundColor: '#fef3c7',
+                    color: '#92400e',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  ⏹ Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => setMirrorPlan(null)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#6b7280',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleExecuteMirror}
+                disabled={!mirrorConfirmed || loading.mirror_delete || mirrorPlan.totalDeletes > mirrorMaxDeletes}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: !mirrorConfirmed || mirrorPlan.totalDeletes > mirrorMaxDeletes ? '#9ca3af' : '#dc2626',
+                  color: 'white',
+                  cursor: !mirrorConfirmed || mirrorPlan.totalDeletes > mirrorMaxDeletes ? 'not-allowed' : 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                {loading.mirror_delete ? 'Deleting...' : `Delete ${mirrorPlan.totalDeletes} Items`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Item Dependencies (closure) Modal */}
+      {itemClosure && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            padding: '2rem',
+            borderRadius: '12px',
+            maxWidth: '640px',
+            width: '100%',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            margin: '1rem',
+            boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+              <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🧭</span>
+              <h3 style={{ margin: 0, color: '#1f2937' }}>
+                Migrate {itemClosure.closure.totalItems} item{itemClosure.closure.totalItems === 1 ? '' : 's'} with dependencies
+              </h3>
+            </div>
+
+            <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+              The selected items and everything they reference. Collections are migrated in the order shown
+              (dependencies first).
+            </p>
+
+            {[...itemClosure.closure.warnings, ...getUnreviewedTransformWarnings(itemClosure.closure.collections.map(entry => entry.collection))].map((warning, index) => (
+              <div key={index} style={{
+                padding: '0.5rem 0.75rem',
+                marginBottom: '0.5rem',
+                backgroundColor: '#fef3c7',
+                color: '#92400e',
+                borderRadius: '6px',
+                fontSize: '0.8rem'
+              }}>
+                ⚠️ {warning}
+              </div>
+            ))}
+
+            {itemClosure.closure.collections.map(entry => (
+              <div key={entry.collection} style={{
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                padding: '0.75rem',
+                marginBottom: '0.75rem',
+                backgroundColor: closureProgress?.collection === entry.collection ? '#eff6ff' : 'white'
+              }}>
+                <div style={{ fontWeight: '600', marginBottom: '0.25rem' }}>
+                  {entry.collection}: {entry.ids.length} item{entry.ids.length === 1 ? '' : 's'}
+                  {entry.selected && (
+                    <span style={{ fontWeight: 'normal', fontSize: '0.75rem', color: '#3b82f6', marginLeft: '0.5rem' }}>(selected)</span>
+                  )}
+                  {closureProgress?.collection === entry.collection && (
+                    <span style={{ fontWeight: 'normal', fontSize: '0.75rem', color: '#6b7280', marginLeft: '0.5rem' }}>
+                      {closureProgress.current} / {closureProgress.total}
+                    </span>
+                  )}
+                </div>
+                <div style={{ fontSize: '0.75rem', color: '#6b7280', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {entry.ids.slice(0, 50).join(', ')}
+                  {entry.ids.length > 50 && ` … and ${entry.ids.length - 50} more`}
+                </div>
+              </div>
+            ))}
+
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+              {loading.closure_migrate ? (
+                <button
+                  onClick={() => importControllers.current.__closure?.abort()}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #f59e0b',
+                    borderRadius: '6px',
+                    backgroundColor: '#fef3c7',
+                    color: '#92400e',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  ⏹ Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => setItemClosure(null)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#6b7280',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleMigrateClosure}
+                disabled={loading.closure_migrate}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: loading.closure_migrate ? '#9ca3af' : '#3b82f6',
+                  color: 'white',
+                  cursor: loading.closure_migrate ? 'not-allowed' : 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                {loading.closure_migrate ? 'Migrating...' : `Migrate ${itemClosure.closure.totalItems} Items`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Smart Batch Migration Modal */}
+      {batchPlan && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            padding: '2rem',
+            borderRadius: '12px',
+            maxWidth: '640px',
+            width: '100%',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            margin: '1rem',
+            boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+              <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🔄</span>
+              <h3 style={{ margin: 0, color: '#7c3aed' }}>
+                Migrate {batchPlan.order.length} collection{batchPlan.order.length === 1 ? '' : 's'}
+              </h3>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontSize: '0.8rem', color: '#6b7280' }}>
+              Export graph:
+              {(['mermaid', 'dot', 'json'] as GraphExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExportGraph(format)}
+                  style={{
+                    padding: '0.25rem 0.625rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    cursor: 'pointer',
+                    fontSize: '0.75rem'
+                  }}
+                >
+                  {format === 'mermaid' ? 'Mermaid' : format === 'dot' ? 'DOT' : 'JSON'}
+                </button>
+              ))}
+            </div>
+
+            {[...batchPlan.warnings, ...getUnreviewedTransformWarnings(batchPlan.order)].map((warning, index) => (
+              <div key={index} style={{
+                padding: '0.5rem 0.75rem',
+                marginBottom: '0.5rem',
+                backgroundColor: '#fef3c7',
+                color: '#92400e',
+                borderRadius: '6px',
+                fontSize: '0.8rem'
+              }}>
+                ⚠️ {warning}
+              </div>
+            ))}
+
+            {batchPlan.deferredFields.length > 0 && (
+              <div style={{
+                padding: '0.75rem',
+                marginBottom: '0.75rem',
+                backgroundColor: '#eff6ff',
+                borderLeft: '3px solid #3b82f6',
+                borderRadius: '4px',
+                fontSize: '0.8rem',
+                color: '#1e40af'
+              }}>
+                <div style={{ fontWeight: '600', marginBottom: '0.25rem' }}>
+                  Deferred fields (written as null, patched after every collection is imported):
+                </div>
+                {batchPlan.deferredFields.map(field => (
+                  <div key={`${field.collection}.${field.field}`} style={{ fontFamily: 'monospace' }}>
+                    {field.collection}.{field.field} → {field.related.join(', ')}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {batchPlan.batches.map((batch, level) => (
+              <div key={level} style={{ marginBottom: '0.75rem' }}>
+                <div style={{ fontSize: '0.75rem', fontWeight: '600', color: '#6b7280', marginBottom: '0.25rem' }}>
+                  Level {level} · {batch.length > 1 ? `up to ${Math.min(parallelCollections, batch.length)} in parallel` : 'single collection'}
+                </div>
+                {batch.map(collection => {
+                  const result = batchResults.find(r => r.collection === collection)
+                  const progress = batchProgress[collection]
+                  const running = !!progress && !result
+                  return (
+                    <div key={collection} style={{
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '6px',
+                      padding: '0.5rem 0.75rem',
+                      marginBottom: '0.5rem',
+                      fontSize: '0.875rem',
+                      backgroundColor: running ? '#f5f3ff' : 'white'
+                    }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <strong>{collection}</strong>
+                        <span style={{ fontSize: '0.75rem', color: result ? (result.success ? '#059669' : '#dc2626') : '#6b7280' }}>
+                          {result
+                            ? `${result.success ? '✅' : '❌'} ${result.imported} imported, ${result.failed} failed`
+                            : running
+                              ? `${progress.current} / ${progress.total}`
+                              : ''}
+                        </span>
+                      </div>
+                      {running && progress.total > 0 && (
+                        <div style={{ height: '4px', backgroundColor: '#e5e7eb', borderRadius: '2px', marginTop: '0.375rem', overflow: 'hidden' }}>
+                          <div style={{
+                            width: `${Math.min(100, (progress.current / progress.total) * 100)}%`,
+                            height: '100%',
+                            backgroundColor: '#8b5cf6'
+                          }} />
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            ))}
+
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+              {loading.batch_migration ? (
+                <button
+                  onClick={() => importControllers.current.__batch?.abort()}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #f59e0b',
+                    borderRadius: '6px',
+                    backgroundColor: '#fef3c7',
+                    color: '#92400e',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  ⏹ Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => setBatchPlan(null)}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#6b7280',
+                    cursor: 'pointer',
+                    fontWeight: '500'
+                  }}
+                >
+                  Close
+                </button>
+              )}
+              <button
+                onClick={handleRunBatchMigration}
+                disabled={loading.batch_migration || batchPlan.order.length === 0}
+                style={{
+                  padding: '0.5rem 1rem',
+                  border: 'none',
+                  borderRadius: '6px',
+                  backgroundColor: loading.batch_migration ? '#9ca3af' : '#7c3aed',
+                  color: 'white',
+                  cursor: loading.batch_migration ? 'not-allowed' : 'pointer',
+                  fontWeight: '500'
+                }}
+              >
+                {loading.batch_migration ? 'Migrating...' : `Start Migration (${batchPlan.order.length} collections)`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Flows Manager Modal */}
       <FlowsManager
         sourceUrl={sourceUrl}
@@ -3328,6 +4550,7 @@ export function CollectionList({
           onSelectionChange={setSelectedItemIds}
           onClose={() => setShowItemSelector(false)}
           onImport={handleImportSelected}
+          copyRelated={relationalCopy}
           onLoadMore={() => {}}
           hasMore={false}
           loading={loadingPreview}
@@ -3477,6 +4700,7 @@ export function CollectionList({
           onSelectionChange={setSelectedItemIds}
           onClose={() => setShowItemSelector(false)}
           onImport={handleImportSelected}
+          copyRelated={relationalCopy}
           onLoadMore={() => {}} // No longer needed - all items loaded at once
           hasMore={false} // Always false since we load all items
           loading={loadingPreview}
@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useState } from 'react'
 
 interface ConnectionFormProps {
   sourceEnvironment: string
@@ -16,6 +16,7 @@ interface ConnectionFormProps {
   onConnect: () => void
   onTestConnection: (type: 'source' | 'target') => void
   onSavePreset: (type: 'source' | 'target') => void
+  onLogin: (type: 'source' | 'target', email: string, password: string) => Promise<void>
   loading: boolean
   testResults: {
     source?: { success: boolean; message: string; loading: boolean }
@@ -39,9 +40,97 @@ export function ConnectionForm({
   onConnect,
   onTestConnection,
   onSavePreset,
+  onLogin,
   loading,
   testResults
 }: ConnectionFormProps) {
+  const [authMode, setAuthMode] = useState<Record<'source' | 'target', 'token' | 'login'>>({ source: 'token', target: 'token' })
+  const [credentials, setCredentials] = useState<Record<'source' | 'target', { email: string; password: string }>>({
+    source: { email: '', password: '' },
+    target: { email: '', password: '' }
+  })
+
+  const updateCredentials = (type: 'source' | 'target', field: 'email' | 'password', value: string) => {
+    setCredentials(prev => ({ ...prev, [type]: { ...prev[type], [field]: value } }))
+  }
+
+  // Email/password sign-in keeps a refreshable session, so long migrations don't expire mid-run
+  const renderLoginFields = (type: 'source' | 'target') => {
+    const { email, password } = credentials[type]
+    const busy = loading || testResults[type]?.loading
+    const url = type === 'source' ? sourceUrl : targetUrl
+
+    return (
+      <>
+        <div className="form-group">
+          <label htmlFor={`${type}Email`}>Email:</label>
+          <input
+            id={`${type}Email`}
+            type="email"
+            value={email}
+            onChange={(e) => updateCredentials(type, 'email', e.target.value)}
+            placeholder="admin@example.com"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor={`${type}Password`}>Password:</label>
+          <input
+            id={`${type}Password`}
+            type="password"
+            value={password}
+            onChange={(e) => updateCredentials(type, 'password', e.target.value)}
+            placeholder="Enter password"
+            disabled={loading}
+          />
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onLogin(type, email, password)}
+          disabled={busy || !url || !email || !password}
+          style={{
+            backgroundColor: '#3b82f6',
+            color: 'white',
+            padding: '0.5rem 1rem',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: busy || !url || !email || !password ? 'not-allowed' : 'pointer',
+            opacity: busy || !url || !email || !password ? 0.6 : 1,
+            fontSize: '0.875rem'
+          }}
+        >
+          {testResults[type]?.loading ? 'Signing in...' : 'Sign In'}
+        </button>
+      </>
+    )
+  }
+
+  const renderAuthModeToggle = (type: 'source' | 'target') => (
+    <div style={{ display: 'flex', gap: '1rem', marginBottom: '0.75rem', fontSize: '0.875rem' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', cursor: 'pointer' }}>
+        <input
+          type="radio"
+          name={`${type}AuthMode`}
+          checked={authMode[type] === 'token'}
+          onChange={() => setAuthMode(prev => ({ ...prev, [type]: 'token' }))}
+          disabled={loading}
+        />
+        Bearer Token
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', cursor: 'pointer' }}>
+        <input
+          type="radio"
+          name={`${type}AuthMode`}
+          checked={authMode[type] === 'login'}
+          onChange={() => setAuthMode(prev => ({ ...prev, [type]: 'login' }))}
+          disabled={loading}
+        />
+        Email & Password
+      </label>
+    </div>
+  )
 
   const getSavedPresets = (): any[] => {
     try {
@@ -145,40 +234,44 @@ export function ConnectionForm({
             />
           </div>
 
-          <div className="form-group">
-            <label htmlFor="sourceToken">Bearer Token:</label>
-            <div style={{ position: 'relative' }}>
-              <input
-                id="sourceToken"
-                type="password"
-                value={sourceToken}
-                onChange={(e) => onSourceTokenChange(e.target.value)}
-                placeholder="Enter admin token"
-                disabled={loading}
-                required
-                style={{ paddingRight: '2.5rem' }}
-              />
-              <button
-                type="button"
-                onClick={() => {
-                  const input = document.getElementById('sourceToken') as HTMLInputElement
-                  input.type = input.type === 'password' ? 'text' : 'password'
-                }}
-                style={{
-                  position: 'absolute',
-                  right: '0.5rem',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  background: 'none',
-                  border: 'none',
-                  cursor: 'pointer',
-                  fontSize: '0.875rem'
-                }}
-              >
-                👁️
-              </button>
+          {renderAuthModeToggle('source')}
+
+          {authMode.source === 'login' ? renderLoginFields('source') : (
+            <div className="form-group">
+              <label htmlFor="sourceToken">Bearer Token:</label>
+              <div style={{ position: 'relative' }}>
+                <input
+                  id="sourceToken"
+                  type="password"
+                  value={sourceToken}
+                  onChange={(e) => onSourceTokenChange(e.target.value)}
+                  placeholder="Enter admin token"
+                  disabled={loading}
+                  required
+                  style={{ paddingRight: '2.5rem' }}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    const input = document.getElementById('sourceToken') as HTMLInputElement
+                    input.type = input.type === 'password' ? 'text' : 'password'
+                  }}
+                  style={{
+                    position: 'absolute',
+                    right: '0.5rem',
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem'
+                  }}
+                >
+                  👁️
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
             <button
@@ -278,40 +371,44 @@ export function ConnectionForm({
             />
           </div>
 
-          <div className="form-group">
-            <label htmlFor="targetToken">Bearer Token:</label>
-            <div style={{ position: 'relative' }}>
-              <input
-                id="targetToken"
-                type="password"
-                value={targetToken}
-                onChange={(e) => onTargetTokenChange(e.target.value)}
-                placeholder="Enter admin token"
-                disabled={loading}
-                required
-                style={{ paddingRight: '2.5rem' }}
-              />
-              <button
-                type="button"
-                onClick={() => {
-                  const input = document.getElementById('targetToken') as HTMLInputElement
-                  input.type = input.type === 'password' ? 'text' : 'password'
-                }}
-                style={{
-                  position: 'absolute',
-                  right: '0.5rem',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  background: 'none',
-                  border: 'none',
-                  cursor: 'pointer',
-                  fontSize: '0.875rem'
-                }}
-              >
-                👁️
-              </button>
+          {renderAuthModeToggle('target')}
+
+          {authMode.target === 'login' ? renderLoginFields('target') : (
+            <div className="form-group">
+              <label htmlFor="targetToken">Bearer Token:</label>
+              <div style={{ position: 'relative' }}>
+                <input
+                  id="targetToken"
+                  type="password"
+                  value={targetToken}
+                  onChange={(e) => onTargetTokenChange(e.target.value)}
+                  placeholder="Enter admin token"
+                  disabled={loading}
+                  required
+                  style={{ paddingRight: '2.5rem' }}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    const input = document.getElementById('targetToken') as HTMLInputElement
+                    input.type = input.type === 'password' ? 'text' : 'password'
+                  }}
+                  style={{
+                    position: 'absolute',
+                    right: '0.5rem',
+                    top: '50%',
+                    transform: 'translateY(-50%)',
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem'
+                  }}
+                >
+                  👁️
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
             <button
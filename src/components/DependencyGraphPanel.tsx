@@ -0,0 +1,65 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { getRelations } from '../lib/apiHandlers'
+import { DependencyGraphView } from './DependencyGraphView'
+import type { Collection } from '../types'
+
+interface DependencyGraphPanelProps {
+  sourceUrl: string
+  sourceToken: string
+  collections: Collection[] // Source collections; system collections are left out of the graph
+  targetCollections: Collection[]
+  selectedCollections: string[]
+  onToggleCollection: (collection: string) => void
+  onError: (message: string) => void // Relations could not be loaded
+}
+
+export function DependencyGraphPanel({
+  sourceUrl,
+  sourceToken,
+  collections,
+  targetCollections,
+  selectedCollections,
+  onToggleCollection,
+  onError
+}: DependencyGraphPanelProps) {
+  const [relations, setRelations] = useState<any[] | null>(null)
+
+  const collectionNames = useMemo(
+    () => collections.map(c => c.collection).filter(name => !name.startsWith('directus_')),
+    [collections]
+  )
+  const targetCollectionNames = useMemo(() => targetCollections.map(c => c.collection), [targetCollections])
+
+  // Relations are loaded when the panel opens
+  useEffect(() => {
+    let active = true
+    getRelations(sourceUrl, sourceToken).then(result => {
+      if (!active) return
+      if (result.success) {
+        setRelations(result.relations || [])
+      } else {
+        onError(`Failed to load relations: ${result.error?.message}`)
+      }
+    })
+    return () => {
+      active = false
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
+  }, [sourceUrl, sourceToken])
+
+  return (
+    <div style={{ marginBottom: '1rem', padding: '1rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+      {relations ? (
+        <DependencyGraphView
+          relations={relations}
+          collections={collectionNames}
+          targetCollections={targetCollectionNames}
+          selectedCollections={selectedCollections}
+          onToggleCollection={onToggleCollection}
+        />
+      ) : (
+        <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>Loading relations...</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react'
+import { analyzeDependencies } from '../lib/dependencyAnalyzer'
+import { buildGraphExport } from '../lib/graphExport'
+
+interface DependencyGraphViewProps {
+  relations: any[]
+  collections: string[] // Source collections to draw
+  targetCollections: string[] // Collections that already exist on the target
+  selectedCollections: string[]
+  onToggleCollection: (collection: string) => void
+}
+
+const NODE_WIDTH = 170
+const NODE_HEIGHT = 36
+const COLUMN_GAP = 90
+const ROW_GAP = 24
+const PADDING = 20
+
+// Fill per migration level; levels past the palette reuse the last color
+const LEVEL_COLORS = ['#dbeafe', '#dcfce7', '#fef3c7', '#fce7f3', '#ede9fe', '#e0f2fe', '#f3f4f6']
+
+export function DependencyGraphView({
+  relations,
+  collections,
+  targetCollections,
+  selectedCollections,
+  onToggleCollection
+}: DependencyGraphViewProps) {
+  const [focused, setFocused] = useState<string | null>(null)
+
+  const graph = useMemo(() => buildGraphExport(relations, collections), [relations, collections])
+  const dependencies = useMemo(() => analyzeDependencies(relations), [relations])
+
+  // Levels become columns, dependencies on the left
+  const positions = useMemo(() => {
+    const rows = new Map<number, number>()
+    const result = new Map<string, { x: number; y: number; level: number }>()
+    graph.collections.forEach(({ collection, level }) => {
+      const row = rows.get(level) || 0
+      rows.set(level, row + 1)
+      result.set(collection, {
+        x: PADDING + level * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        level
+      })
+    })
+    return result
+  }, [graph])
+
+  const maxLevel = Math.max(0, ...graph.collections.map(c => c.level))
+  const maxRows = Math.max(1, ...[...positions.values()].map(p => (p.y - PADDING) / (NODE_HEIGHT + ROW_GAP) + 1))
+  const width = PADDING * 2 + (maxLevel + 1) * NODE_WIDTH + maxLevel * COLUMN_GAP
+  const height = PADDING * 2 + maxRows * NODE_HEIGHT + (maxRows - 1) * ROW_GAP
+
+  const edgePath = (from: string, to: string): string => {
+    const a = positions.get(from)!
+    const b = positions.get(to)!
+    if (from === to) {
+      // Self-reference: a loop above the node
+      const x = a.x + NODE_WIDTH - 30
+      return `M ${x} ${a.y} C ${x - 10} ${a.y - 28}, ${x + 30} ${a.y - 28}, ${x + 20} ${a.y}`
+    }
+    const startX = a.x
+    const startY = a.y + NODE_HEIGHT / 2
+    const endX = b.x + NODE_WIDTH
+    const endY = b.y + NODE_HEIGHT / 2
+    const bend = Math.max(40, Math.abs(startX - endX) / 2)
+    return `M ${startX} ${startY} C ${startX - bend} ${startY}, ${endX + bend} ${endY}, ${endX} ${endY}`
+  }
+
+  const focusedInfo = focused ? dependencies[focused] : undefined
+
+  if (graph.collections.length === 0) {
+    return (
+      <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>No collections to draw</div>
+    )
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', fontSize: '0.75rem', color: '#6b7280', marginBottom: '0.5rem' }}>
+        <span>Columns = migration level (0 first)</span>
+        <span><span style={{ color: '#16a34a' }}>━</span> exists on target</span>
+        <span><span style={{ color: '#f59e0b' }}>┅</span> new on target</span>
+        <span><span style={{ color: '#dc2626' }}>━</span> cycle edge</span>
+        <span>Dashed edge = M2A</span>
+        <span>Click a node to select it</span>
+      </div>
+
+      <div style={{ overflow: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px', backgroundColor: '#fafafa', maxHeight: '480px' }}>
+        <svg width={width} height={height} style={{ display: 'block' }}>
+          <defs>
+            <marker id="dep-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+            <marker id="dep-arrow-cycle" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+            </marker>
+          </defs>
+
+          {graph.edges.map((edge, index) => {
+            const highlighted = focused !== null && (edge.from === focused || edge.to === focused)
+            return (
+              <path
+                key={index}
+                d={edgePath(edge.from, edge.to)}
+                fill="none"
+                stroke={edge.inCycle ? '#dc2626' : highlighted ? '#3b82f6' : '#9ca3af'}
+                strokeWidth={edge.inCycle || highlighted ? 2 : 1}
+                strokeDasharray={edge.kind === 'm2a' ? '5 3' : undefined}
+                markerEnd={edge.inCycle ? 'url(#dep-arrow-cycle)' : 'url(#dep-arrow)'}
+              >
+                <title>{`${edge.from}.${edge.field} → ${edge.to}`}</title>
+              </path>
+            )
+          })}
+
+          {graph.collections.map(({ collection }) => {
+            const position = positions.get(collection)!
+            const selected = selectedCollections.includes(collection)
+            const onTarget = targetCollections.includes(collection)
+            return (
+              <g
+                key={collection}
+                transform={`translate(${position.x}, ${position.y})`}
+                style={{ cursor: 'pointer' }}
+                onClick={() => {
+                  setFocused(collection)
+                  onToggleCollection(collection)
+                }}
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={6}
+                  fill={LEVEL_COLORS[Math.min(position.level, LEVEL_COLORS.length - 1)]}
+                  stroke={onTarget ? '#16a34a' : targetCollections.length > 0 ? '#f59e0b' : '#9ca3af'}
+                  strokeWidth={selected ? 3 : 1.5}
+                  strokeDasharray={onTarget || targetCollections.length === 0 ? undefined : '6 3'}
+                />
+                <text
+                  x={NODE_WIDTH / 2}
+                  y={NODE_HEIGHT / 2 + 4}
+                  textAnchor="middle"
+                  fontSize="12"
+                  fontWeight={selected || focused === collection ? 600 : 400}
+                  fill="#111827"
+                >
+                  {selected ? '☑ ' : ''}{collection.length > 22 ? `${collection.slice(0, 21)}…` : collection}
+                </text>
+                <title>{`${collection} (level ${position.level})`}</title>
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+
+      {focused && (
+        <div style={{
+          marginTop: '0.75rem',
+          padding: '0.75rem',
+          backgroundColor: '#eff6ff',
+          borderLeft: '3px solid #3b82f6',
+          borderRadius: '4px',
+          fontSize: '0.8rem',
+          color: '#1e40af'
+        }}>
+          <strong>{focused}</strong> (level {positions.get(focused)?.level ?? 0})
+          <div>Depends on: {focusedInfo?.dependsOn.length ? focusedInfo.dependsOn.join(', ') : 'nothing'}</div>
+          <div>Required by: {focusedInfo?.dependedBy.length ? focusedInfo.dependedBy.join(', ') : 'nothing'}</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import React from 'react'
+import {
+  DESTRUCTIVE_CONFIRMATION,
+  describeDestructiveChange,
+  type DataLossEstimate,
+  type DestructiveSchemaChange
+} from '../lib/schemaDiff'
+
+interface DestructiveChangesPanelProps {
+  changes: DestructiveSchemaChange[]
+  estimates: Record<string, DataLossEstimate> // Keyed by change key; missing while counting
+  selectedChanges: DestructiveSchemaChange[]
+  confirmation: string
+  onConfirmationChange: (value: string) => void
+  onToggleChange: (change: DestructiveSchemaChange, checked: boolean) => void
+}
+
+export function DestructiveChangesPanel({
+  changes,
+  estimates,
+  selectedChanges,
+  confirmation,
+  onConfirmationChange,
+  onToggleChange
+}: DestructiveChangesPanelProps) {
+  const confirmed = selectedChanges.length === 0 || confirmation.trim() === DESTRUCTIVE_CONFIRMATION
+
+  return (
+    <div style={{
+      backgroundColor: '#fef2f2',
+      border: '2px solid #991b1b',
+      borderRadius: '8px',
+      padding: '1rem'
+    }}>
+      <h5 style={{ margin: '0 0 0.5rem 0', color: '#991b1b', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+        ⚠️ Destructive Changes ({changes.length})
+        <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#dc2626' }}>
+          - Drop or convert data on the target
+        </span>
+      </h5>
+      {changes.map(change => {
+        const estimate = estimates[change.key]
+        const selected = selectedChanges.some(selectedChange => selectedChange.key === change.key)
+        return (
+          <label key={change.key} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', padding: '0.25rem 0', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={(e) => onToggleChange(change, e.target.checked)}
+              style={{ cursor: 'pointer' }}
+            />
+            <span style={{ flex: 1, fontFamily: 'monospace', color: '#7f1d1d' }}>{describeDestructiveChange(change)}</span>
+            <span style={{ color: '#991b1b', fontSize: '0.75rem' }}>
+              {!estimate
+                ? 'counting...'
+                : estimate.rows === null
+                  ? 'count unavailable'
+                  : change.kind === 'drop_collection'
+                    ? `${estimate.rows} rows lost`
+                    : `${estimate.nonNull ?? '?'} of ${estimate.rows} rows hold a value`}
+            </span>
+          </label>
+        )
+      })}
+      {selectedChanges.length > 0 && (
+        <div style={{ marginTop: '0.75rem', fontSize: '0.8rem', color: '#7f1d1d' }}>
+          Type <strong>{DESTRUCTIVE_CONFIRMATION}</strong> to apply the {selectedChanges.length} selected destructive change(s):
+          <input
+            type="text"
+            value={confirmation}
+            onChange={(e) => onConfirmationChange(e.target.value)}
+            placeholder={DESTRUCTIVE_CONFIRMATION}
+            style={{
+              marginLeft: '0.5rem',
+              padding: '0.25rem 0.5rem',
+              fontSize: '0.8rem',
+              border: `1px solid ${confirmed ? '#10b981' : '#dc2626'}`,
+              borderRadius: '4px',
+              width: '120px'
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { getFiles, getFolders, importFiles, importFolders } from '../lib/filesHandler'
 import type { OperationStatus } from '../types'
 
@@ -31,11 +31,22 @@ export function FilesManager({
   const [importing, setImporting] = useState(false)
   const [progress, setProgress] = useState({ current: 0, total: 0 })
   const [searchTerm, setSearchTerm] = useState('')
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Closing the modal stops a running migration instead of leaving it in the background
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const handleCancelImport = () => {
+    abortControllerRef.current?.abort()
+  }
 
   // Load folders and target folders on mount
   useEffect(() => {
     loadFolders()
     loadTargetFolders()
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
   }, [])
 
   // Load files when switching to files tab or when folder selection changes
@@ -44,6 +55,7 @@ export function FilesManager({
       loadFiles()
       loadTargetFiles()
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
   }, [activeTab, selectedFolder])
 
   const loadFolders = async () => {
@@ -129,6 +141,8 @@ export function FilesManager({
 
     setImporting(true)
     setProgress({ current: 0, total: selectedFolders.length })
+    const controller = new AbortController()
+    abortControllerRef.current = controller
 
     try {
       onStatusUpdate({
@@ -141,10 +155,17 @@ export function FilesManager({
         sourceToken,
         targetUrl,
         targetToken,
-        selectedFolders
+        selectedFolders,
+        { signal: controller.signal }
       )
 
-      if (foldersResult.success) {
+      if (foldersResult.cancelled) {
+        onStatusUpdate({
+          type: 'warning',
+          message: foldersResult.message
+        })
+        loadTargetFolders()
+      } else if (foldersResult.success) {
         onStatusUpdate({
           type: 'success',
           message: foldersResult.message
@@ -164,6 +185,7 @@ export function FilesManager({
         message: `Import failed: ${error.message}`
       })
     } finally {
+      abortControllerRef.current = null
       setImporting(false)
       setProgress({ current: 0, total: 0 })
     }
@@ -180,6 +202,8 @@ export function FilesManager({
 
     setImporting(true)
     setProgress({ current: 0, total: selectedFiles.length })
+    const controller = new AbortController()
+    abortControllerRef.current = controller
 
     try {
       onStatusUpdate({
@@ -197,11 +221,18 @@ export function FilesManager({
           preserveId: true,
           onProgress: (current, total) => {
             setProgress({ current, total })
-          }
+          },
+          signal: controller.signal
         }
       )
 
-      if (result.success) {
+      if (result.cancelled) {
+        onStatusUpdate({
+          type: 'warning',
+          message: result.message
+        })
+        loadTargetFiles()
+      } else if (result.success) {
         onStatusUpdate({
           type: 'success',
           message: result.message
@@ -221,6 +252,7 @@ export function FilesManager({
         message: `Import failed: ${error.message}`
       })
     } finally {
+      abortControllerRef.current = null
       setImporting(false)
       setProgress({ current: 0, total: 0 })
     }
@@ -724,21 +756,19 @@ export function FilesManager({
           </div>
           <div style={{ display: 'flex', gap: '0.75rem' }}>
             <button
-              onClick={onClose}
-              disabled={importing}
+              onClick={importing ? handleCancelImport : onClose}
               style={{
-                backgroundColor: '#f3f4f6',
-                color: '#374151',
+                backgroundColor: importing ? '#fee2e2' : '#f3f4f6',
+                color: importing ? '#dc2626' : '#374151',
                 padding: '0.625rem 1.25rem',
                 border: 'none',
                 borderRadius: '6px',
-                cursor: importing ? 'not-allowed' : 'pointer',
+                cursor: 'pointer',
                 fontSize: '0.875rem',
-                fontWeight: '500',
-                opacity: importing ? 0.5 : 1
+                fontWeight: '500'
               }}
             >
-              Cancel
+              {importing ? '⏹ Stop Migration' : 'Cancel'}
             </button>
             {activeTab === 'folders' ? (
               <button
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { getFlowsFromDirectus, importFlowsToDirectus, buildFlowDependencyGraph, validateFlowMigration } from '../lib/flowsHandler';
+import React, { useState, useEffect, useRef } from 'react';
+import { getFlowsFromDirectus, importFlowsToDirectus, validateFlowMigration } from '../lib/flowsHandler';
+import { getRenameMap } from '../lib/renameMap';
 import type { DirectusFlow, DirectusOperation, FlowMigrationOptions, FlowImportResult } from '../lib/flowsHandler';
 
 interface FlowsManagerProps {
@@ -42,6 +43,13 @@ export function FlowsManager({
   const [isMigrating, setIsMigrating] = useState(false);
   const [migrationResults, setMigrationResults] = useState<FlowImportResult | null>(null);
   const [validationResult, setValidationResult] = useState<{ isValid: boolean; errors: string[]; warnings: string[] } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Closing the modal stops a running migration instead of leaving it in the background
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
 
   // Load flows from source and target
   useEffect(() => {
@@ -51,6 +59,7 @@ export function FlowsManager({
     if (isVisible && targetUrl && targetToken) {
       loadTargetFlows();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when these inputs change
   }, [isVisible, sourceUrl, sourceToken, targetUrl, targetToken]);
 
   const loadSourceFlows = async () => {
@@ -188,6 +197,9 @@ export function FlowsManager({
     setIsMigrating(true);
     setMigrationResults(null);
     setValidationResult(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const renamedCollections = getRenameMap(sourceUrl, targetUrl).collections;
     
     try {
       const result = await importFlowsToDirectus(
@@ -195,12 +207,27 @@ export function FlowsManager({
         relatedOperations,
         targetUrl,
         targetToken,
-        migrationOptions
+        {
+          ...migrationOptions,
+          // Collections renamed on the target are always mapped in triggers and operations
+          transformOptions: migrationOptions.transformOptions || Object.keys(renamedCollections).length > 0,
+          environmentMapping: {
+            ...migrationOptions.environmentMapping,
+            collections: { ...renamedCollections, ...migrationOptions.environmentMapping?.collections }
+          },
+          signal: controller.signal
+        }
       );
 
       setMigrationResults(result);
       
-      if (result.success) {
+      if (result.cancelled) {
+        onStatusUpdate({
+          type: 'info',
+          message: result.message
+        });
+        await loadTargetFlows();
+      } else if (result.success) {
         onStatusUpdate({
           type: 'success',
           message: result.message
@@ -227,6 +254,7 @@ export function FlowsManager({
         importedOperations: []
       });
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
       setIsMigrating(false);
     }
@@ -259,7 +287,7 @@ export function FlowsManager({
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
           <h2 style={{ margin: 0 }}>🔄 Flows & Operations Migration</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             style={{
               background: 'none',
               border: 'none',
@@ -719,6 +747,21 @@ export function FlowsManager({
             <div style={{ fontSize: '0.875rem', color: '#92400e' }}>
               This may take a few minutes depending on the amount of data.
             </div>
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              style={{
+                marginTop: '1rem',
+                backgroundColor: 'white',
+                color: '#92400e',
+                padding: '0.5rem 1rem',
+                border: '1px solid #f59e0b',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem'
+              }}
+            >
+              ⏹ Stop Migration
+            </button>
           </div>
         )}
 
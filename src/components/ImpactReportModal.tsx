@@ -0,0 +1,128 @@
+import React from 'react'
+import type { CollectionImpact } from '../lib/impactAnalysis'
+
+interface ImpactReportModalProps {
+  impact: CollectionImpact
+  onClose: () => void
+}
+
+export function ImpactReportModal({ impact, onClose }: ImpactReportModalProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '12px',
+        maxWidth: '720px',
+        width: '100%',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        margin: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+          <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🧭</span>
+          <h3 style={{ margin: 0 }}>Impact of {impact.collection}</h3>
+        </div>
+
+        <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+          On the target, {impact.itemCount ?? '?'} items. Everything below references this collection and has to
+          move with it or may break when its items are overwritten or deleted.
+        </p>
+
+        {impact.warnings.map((warning, index) => (
+          <div key={index} style={{
+            padding: '0.5rem 0.75rem',
+            marginBottom: '0.5rem',
+            backgroundColor: '#fef3c7',
+            color: '#92400e',
+            borderRadius: '6px',
+            fontSize: '0.8rem'
+          }}>
+            ⚠️ {warning}
+          </div>
+        ))}
+
+        {([
+          {
+            title: `Dependent collections (${impact.dependents.length})`,
+            rows: impact.dependents.map(dependent => ({
+              key: `${dependent.collection}.${dependent.field}`,
+              label: `${dependent.collection}.${dependent.field}${dependent.kind === 'm2a' ? ' (M2A)' : ''}`,
+              detail: dependent.referencingRows === null ? 'count unavailable' : `${dependent.referencingRows} rows reference it`
+            }))
+          },
+          {
+            title: `Flows (${impact.flows.length})`,
+            rows: impact.flows.map(flow => ({
+              key: flow.id,
+              label: `${flow.name}${flow.status === 'active' ? '' : ' (inactive)'}`,
+              detail: flow.reasons.join('; ')
+            }))
+          },
+          {
+            title: `Permissions (${impact.permissions.length})`,
+            rows: impact.permissions.map(permission => ({
+              key: String(permission.id),
+              label: `${permission.policyName}: ${permission.action}`,
+              detail: permission.fields ? permission.fields.join(', ') : 'no fields'
+            }))
+          },
+          {
+            title: `Dashboard panels (${impact.panels.length})`,
+            rows: impact.panels.map(panel => ({
+              key: panel.id,
+              label: `${panel.dashboardName} › ${panel.name}`,
+              detail: panel.type
+            }))
+          }
+        ]).map(section => (
+          <div key={section.title} style={{
+            border: '1px solid #e5e7eb',
+            borderRadius: '6px',
+            padding: '0.75rem',
+            marginBottom: '0.75rem'
+          }}>
+            <div style={{ fontWeight: '600', marginBottom: '0.25rem' }}>{section.title}</div>
+            {section.rows.length === 0 ? (
+              <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>None</div>
+            ) : section.rows.map(row => (
+              <div key={row.key} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', fontSize: '0.8rem', padding: '0.125rem 0' }}>
+                <span style={{ fontFamily: 'monospace' }}>{row.label}</span>
+                <span style={{ color: '#6b7280', textAlign: 'right' }}>{row.detail}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#6b7280',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,11 +7,12 @@ interface ItemSelectorModalProps {
   selectedIds: (string | number)[]
   onSelectionChange: (ids: (string | number)[]) => void
   onClose: () => void
-  onImport: (selectedFields?: string[]) => void  // Add selectedFields param
+  onImport: (selectedFields?: string[], includeDependencies?: boolean) => void  // Add selectedFields param
   onLoadMore: () => void
   hasMore: boolean
   loading: boolean
   relations?: any[] // Optional: for showing dependency notes
+  copyRelated?: boolean // Array fields are copied as related rows instead of raw values
 }
 
 export function ItemSelectorModal({
@@ -25,13 +26,15 @@ export function ItemSelectorModal({
   onLoadMore,
   hasMore,
   loading,
-  relations = []
+  relations = [],
+  copyRelated = false
 }: ItemSelectorModalProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectAll, setSelectAll] = useState(false)
   const [selectedFields, setSelectedFields] = useState<string[]>([])
   const [availableFields, setAvailableFields] = useState<{field: string, isM2M: boolean}[]>([])
   const [showFieldSelector, setShowFieldSelector] = useState(false)
+  const [includeDependencies, setIncludeDependencies] = useState(false)
 
   // Extract available fields from items
   useEffect(() => {
@@ -136,9 +139,19 @@ export function ItemSelectorModal({
             value: item[fieldName]
           })
         }
+      } else if (relation.collection === collectionName && relation.meta?.one_collection_field) {
+        // M2A: the item names the collection its key belongs to
+        const relatedCollection = item[relation.meta.one_collection_field]
+        if (typeof relatedCollection === 'string' && item[relation.field] !== null && item[relation.field] !== undefined) {
+          missingDeps.push({
+            field: relation.field,
+            collection: relatedCollection,
+            value: item[relation.field]
+          })
+        }
       }
     })
-    
+
     return missingDeps
   }
 
@@ -307,7 +320,7 @@ export function ItemSelectorModal({
                     />
                     <span style={{ fontSize: '0.875rem', fontWeight: '500' }}>
                       {field}
-                      {isM2M && <span style={{ marginLeft: '0.5rem', color: '#f59e0b', fontSize: '0.75rem' }}>🔗 M2M</span>}
+                      {isM2M && <span style={{ marginLeft: '0.5rem', color: '#f59e0b', fontSize: '0.75rem' }}>🔗 M2M{copyRelated && ' · related rows copied'}</span>}
                     </span>
                   </label>
                 ))}
@@ -553,8 +566,20 @@ export function ItemSelectorModal({
           alignItems: 'center',
           gap: '1rem'
         }}>
-          <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-            {selectedIds.length} item(s) selected
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', fontSize: '0.875rem', color: '#6b7280' }}>
+            <span>{selectedIds.length} item(s) selected</span>
+            <label
+              style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', cursor: 'pointer' }}
+              title="Also migrate every item the selection references (M2O, M2M, files, users), dependencies first"
+            >
+              <input
+                type="checkbox"
+                checked={includeDependencies}
+                onChange={(e) => setIncludeDependencies(e.target.checked)}
+                style={{ cursor: 'pointer' }}
+              />
+              Include dependencies
+            </label>
           </div>
           <div style={{ display: 'flex', gap: '0.75rem' }}>
             <button
@@ -575,7 +600,7 @@ export function ItemSelectorModal({
             <button
               onClick={() => {
                 console.log('Selected fields:', selectedFields);
-                onImport(selectedFields.length > 0 ? selectedFields : undefined);
+                onImport(selectedFields.length > 0 ? selectedFields : undefined, includeDependencies);
               }}
               disabled={selectedIds.length === 0}
               style={{
@@ -590,7 +615,7 @@ export function ItemSelectorModal({
                 opacity: selectedIds.length === 0 ? 0.6 : 1
               }}
             >
-              Import Selected ({selectedIds.length})
+              {includeDependencies ? 'Review Dependencies' : `Import Selected (${selectedIds.length})`}
               {selectedFields.length > 0 && ` - ${selectedFields.length} fields`}
             </button>
           </div>
@@ -0,0 +1,780 @@
+import React, { useState } from 'react'
+import {
+  fieldChangeKey,
+  formatSchemaValue,
+  getDestructiveChanges,
+  getFieldChanges,
+  type DataLossEstimate,
+  type DestructiveSchemaChange
+} from '../lib/schemaDiff'
+import { DestructiveChangesPanel } from './DestructiveChangesPanel'
+
+interface SchemaDiffViewerProps {
+  schemaDiff: any
+  sourceSnapshot: any // Source snapshot with the rename map applied
+  targetSnapshot: any
+  selectedCollections: string[]
+  selectedFields: string[] // Field change keys
+  onSelectionChange: (collections: string[], fields: string[]) => void
+  destructiveEstimates: Record<string, DataLossEstimate>
+  selectedDestructiveChanges: DestructiveSchemaChange[]
+  destructiveConfirmation: string
+  onDestructiveConfirmationChange: (value: string) => void
+}
+
+// Helper function to categorize and analyze schema differences (destructive changes included)
+function analyzeSchemaChanges(diffData: any) {
+  const newCollections: any[] = [];
+  const modifiedCollections: any[] = [];
+  const deletedCollections: any[] = [];
+
+  if (!diffData?.diff) return { newCollections, modifiedCollections, deletedCollections, destructiveChanges: [] };
+
+  // Parse diff structure - each item has {collection, field, diff: [{kind, rhs/lhs}]}
+  // kind: 'N' = New, 'D' = Delete, 'E' = Edit
+  
+  // Group fields by collection with parsed diff info
+  const fieldsByCollection: Record<string, any[]> = {};
+  
+  console.log('\n🔍 ANALYZING SCHEMA DIFFERENCES - Field Level Analysis:');
+  console.log('═══════════════════════════════════════════════════════');
+  
+  (diffData.diff.fields || []).forEach((fieldItem: any) => {
+    const collectionName = fieldItem.collection;
+    if (!fieldsByCollection[collectionName]) {
+      fieldsByCollection[collectionName] = [];
+    }
+    
+    // Parse the diff array to determine action
+    const diffArray = fieldItem.diff || [];
+    let fieldAction = 'update';
+    let fieldData = null;
+    const diffDetails: string[] = [];
+    
+    diffArray.forEach((diffItem: any) => {
+      if (diffItem.kind === 'N') {
+        fieldAction = 'create'; // New field
+        fieldData = diffItem.rhs; // Right-hand side = new value
+        diffDetails.push(`NEW field - will be created in target`);
+      } else if (diffItem.kind === 'D') {
+        fieldAction = 'delete'; // Deleted field
+        fieldData = diffItem.lhs; // Left-hand side = old value
+        diffDetails.push(`DELETED field - exists in target but removed from source`);
+      } else if (diffItem.kind === 'E') {
+        fieldAction = 'update'; // Modified field
+        fieldData = diffItem.rhs || fieldItem;
+        
+        // Extract the path to understand what changed
+        const changePath = diffItem.path?.join('.') || 'unknown';
+        const oldValue = diffItem.lhs;
+        const newValue = diffItem.rhs;
+        
+        // Build detailed difference string
+        if (diffItem.differences && Array.isArray(diffItem.differences)) {
+          // Use our custom detailed differences from metadata detection
+          diffDetails.push(...diffItem.differences);
+        } else {
+          // Generic difference logging
+          diffDetails.push(`${changePath}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`);
+        }
+      }
+    });
+    
+    // Log this field's analysis
+    if (fieldAction === 'update' && diffDetails.length > 0) {
+      console.log(`\n📌 ${collectionName}.${fieldItem.field} - MODIFIED`);
+      console.log(`   Reason: Field has different configuration`);
+      console.log(`   Changes detected (${diffDetails.length}):`);
+      diffDetails.forEach((detail, idx) => {
+        console.log(`     ${idx + 1}. ${detail}`);
+      });
+      console.log(`   Full diff structure:`, diffArray);
+    } else if (fieldAction === 'create') {
+      console.log(`\n✨ ${collectionName}.${fieldItem.field} - NEW`);
+      console.log(`   Reason: Field exists in source but not in target`);
+    } else if (fieldAction === 'delete') {
+      console.log(`\n🗑️ ${collectionName}.${fieldItem.field} - DELETED`);
+      console.log(`   Reason: Field exists in target but not in source`);
+    }
+    
+    fieldsByCollection[collectionName].push({
+      ...fieldItem,
+      fieldName: fieldItem.field,
+      action: fieldAction,
+      data: fieldData,
+      diffDetails: diffDetails
+    });
+  });
+  
+  console.log('\n═══════════════════════════════════════════════════════');
+
+  // Group relations by collection with parsed diff info
+  const relationsByCollection: Record<string, any[]> = {};
+  (diffData.diff.relations || []).forEach((relationItem: any) => {
+    const collectionName = relationItem.collection;
+    if (!relationsByCollection[collectionName]) {
+      relationsByCollection[collectionName] = [];
+    }
+    
+    // Parse diff array for relations
+    const diffArray = relationItem.diff || [];
+    let relationAction = 'update';
+    
+    diffArray.forEach((diffItem: any) => {
+      if (diffItem.kind === 'N') relationAction = 'create';
+      else if (diffItem.kind === 'D') relationAction = 'delete';
+      else if (diffItem.kind === 'E') relationAction = 'update';
+    });
+    
+    relationsByCollection[collectionName].push({
+      ...relationItem,
+      action: relationAction
+    });
+  });
+
+  // First, create a set of all collections mentioned in fields and relations
+  const allCollectionsInDiff = new Set<string>();
+  Object.keys(fieldsByCollection).forEach(name => allCollectionsInDiff.add(name));
+  Object.keys(relationsByCollection).forEach(name => allCollectionsInDiff.add(name));
+  
+  // Track which collections we've already processed
+  const processedCollections = new Set<string>();
+  
+  // Analyze each collection in the diff
+  (diffData.diff.collections || []).forEach((colItem: any) => {
+    if (colItem.collection?.startsWith('directus_')) return;
+
+    const collectionName = colItem.collection;
+    processedCollections.add(collectionName);
+    
+    // Parse collection diff array to determine action
+    const diffArray = colItem.diff || [];
+    let collectionAction = 'update';
+    let collectionData = null;
+    
+    diffArray.forEach((diffItem: any) => {
+      if (diffItem.kind === 'N') {
+        collectionAction = 'create';
+        collectionData = diffItem.rhs;
+      } else if (diffItem.kind === 'D') {
+        collectionAction = 'delete';
+        collectionData = diffItem.lhs;
+      } else if (diffItem.kind === 'E') {
+        collectionAction = 'update';
+        collectionData = diffItem.rhs;
+      }
+    });
+
+    const collectionFields = fieldsByCollection[collectionName] || [];
+    const collectionRelations = relationsByCollection[collectionName] || [];
+
+    if (collectionAction === 'create') {
+      // New collection that doesn't exist in target
+      newCollections.push({
+        ...colItem,
+        collection: collectionName,
+        action: collectionAction,
+        data: collectionData,
+        fields: collectionFields,
+        relations: collectionRelations,
+        fieldChanges: collectionFields
+          .filter((f: any) => f.action === 'create') // Only show new fields
+          .map((f: any) => ({
+            field: f.fieldName,
+            action: f.action,
+            type: f.data?.type,
+            validation: f.data?.meta?.validation,
+            meta: f.data?.meta,
+            schema: f.data?.schema,
+            constraints: f.data?.schema ? {
+              nullable: f.data.schema.is_nullable,
+              unique: f.data.schema.is_unique,
+              primaryKey: f.data.schema.is_primary_key,
+              defaultValue: f.data.schema.default_value,
+              maxLength: f.data.schema.max_length
+            } : null
+          }))
+      });
+    } else if (collectionAction === 'delete') {
+      // Collection exists in target but deleted from source
+      deletedCollections.push({
+        ...colItem,
+        collection: collectionName,
+        action: collectionAction,
+        data: collectionData
+      });
+    } else {
+      // Modified collection - has field or validation changes
+      // Only include if there are actual changes to fields/relations
+      const newFields = collectionFields.filter((f: any) => f.action === 'create');
+      const deletedFields = collectionFields.filter((f: any) => f.action === 'delete');
+      const modifiedFields = collectionFields.filter((f: any) => f.action === 'update');
+      
+      if (newFields.length > 0 || deletedFields.length > 0 || modifiedFields.length > 0 || collectionRelations.length > 0) {
+        modifiedCollections.push({
+          ...colItem,
+          collection: collectionName,
+          action: collectionAction,
+          data: collectionData,
+          fields: collectionFields,
+          relations: collectionRelations,
+          fieldChanges: collectionFields.map((f: any) => ({
+            field: f.fieldName,
+            action: f.action,
+            type: f.data?.type,
+            validation: f.data?.meta?.validation,
+            meta: f.data?.meta,
+            schema: f.data?.schema,
+            constraints: f.data?.schema ? {
+              nullable: f.data.schema.is_nullable,
+              unique: f.data.schema.is_unique,
+              primaryKey: f.data.schema.is_primary_key,
+              defaultValue: f.data.schema.default_value,
+              maxLength: f.data.schema.max_length
+            } : null
+          })),
+          newFieldsCount: newFields.length,
+          deletedFieldsCount: deletedFields.length,
+          modifiedFieldsCount: modifiedFields.length
+        });
+      }
+    }
+  });
+  
+  // Handle collections that have field/relation changes but weren't in the collections array
+  // These are existing collections with only field or relation modifications
+  allCollectionsInDiff.forEach((collectionName: string) => {
+    if (processedCollections.has(collectionName)) return; // Already processed
+    if (collectionName.startsWith('directus_')) return; // Skip system collections
+    
+    const collectionFields = fieldsByCollection[collectionName] || [];
+    const collectionRelations = relationsByCollection[collectionName] || [];
+    
+    // Only add if there are actual field or relation changes
+    if (collectionFields.length > 0 || collectionRelations.length > 0) {
+      const newFields = collectionFields.filter((f: any) => f.action === 'create');
+      const deletedFields = collectionFields.filter((f: any) => f.action === 'delete');
+      const modifiedFields = collectionFields.filter((f: any) => f.action === 'update');
+      
+      modifiedCollections.push({
+        collection: collectionName,
+        action: 'update',
+        data: null,
+        fields: collectionFields,
+        relations: collectionRelations,
+        fieldChanges: collectionFields.map((f: any) => ({
+          field: f.fieldName,
+          action: f.action,
+          type: f.data?.type,
+          validation: f.data?.meta?.validation,
+          meta: f.data?.meta,
+          schema: f.data?.schema,
+          constraints: f.data?.schema ? {
+            nullable: f.data.schema.is_nullable,
+            unique: f.data.schema.is_unique,
+            primaryKey: f.data.schema.is_primary_key,
+            defaultValue: f.data.schema.default_value,
+            maxLength: f.data.schema.max_length
+          } : null
+        })),
+        newFieldsCount: newFields.length,
+        deletedFieldsCount: deletedFields.length,
+        modifiedFieldsCount: modifiedFields.length
+      });
+    }
+  });
+
+  // Drops and type changes destroy target data; listed apart and confirmed by typing
+  const destructiveChanges = getDestructiveChanges(diffData);
+
+  return { newCollections, modifiedCollections, deletedCollections, destructiveChanges };
+}
+
+export function SchemaDiffViewer({
+  schemaDiff,
+  sourceSnapshot,
+  targetSnapshot,
+  selectedCollections,
+  selectedFields,
+  onSelectionChange,
+  destructiveEstimates,
+  selectedDestructiveChanges,
+  destructiveConfirmation,
+  onDestructiveConfirmationChange
+}: SchemaDiffViewerProps) {
+  const [collectionFilter, setCollectionFilter] = useState<string>('')
+  const [collapsedFieldDetails, setCollapsedFieldDetails] = useState<Record<string, boolean>>({})
+
+  // A collection checkbox selects its collection-level changes and every field change in it
+  const toggleCollection = (collectionName: string, checked: boolean) => {
+    const fieldKeys = (schemaDiff?.diff?.fields || [])
+      .filter((field: any) => field.collection === collectionName)
+      .map((field: any) => fieldChangeKey(field.collection, field.field))
+    onSelectionChange(
+      checked ? [...selectedCollections.filter(c => c !== collectionName), collectionName] : selectedCollections.filter(c => c !== collectionName),
+      checked ? [...selectedFields.filter(key => !fieldKeys.includes(key)), ...fieldKeys] : selectedFields.filter(key => !fieldKeys.includes(key))
+    )
+  }
+
+  const toggleField = (key: string, checked: boolean) => {
+    onSelectionChange(selectedCollections, checked ? [...selectedFields.filter(k => k !== key), key] : selectedFields.filter(k => k !== key))
+  }
+
+  const { newCollections, modifiedCollections, deletedCollections, destructiveChanges } = analyzeSchemaChanges(schemaDiff);
+  const fieldChanges = new Map(getFieldChanges(schemaDiff, sourceSnapshot, targetSnapshot).map(change => [change.key, change]));
+  
+  // Apply search filter
+  const filterTerm = collectionFilter.toLowerCase().trim();
+  const filteredNewCollections = newCollections.filter((col: any) => 
+    col.collection.toLowerCase().includes(filterTerm)
+  );
+  const filteredModifiedCollections = modifiedCollections.filter((col: any) => 
+    col.collection.toLowerCase().includes(filterTerm)
+  );
+  const filteredDeletedCollections = deletedCollections.filter((col: any) => 
+    col.collection.toLowerCase().includes(filterTerm)
+  );
+  
+  const totalCollections = newCollections.length + modifiedCollections.length + deletedCollections.length;
+  const filteredTotal = filteredNewCollections.length + filteredModifiedCollections.length + filteredDeletedCollections.length;
+  
+  return (
+    <div style={{
+      marginTop: '1rem',
+      padding: '1rem',
+      backgroundColor: '#fff7ed',
+      border: '2px solid #fb923c',
+      borderRadius: '8px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap', gap: '0.5rem' }}>
+        <h4 style={{ margin: 0, color: '#9a3412', fontSize: '1rem' }}>
+          📊 Schema Differences: {totalCollections} collection(s) ({selectedCollections.length} selected, {selectedFields.length} of {fieldChanges.size} field changes)
+          {filterTerm && ` - Showing ${filteredTotal} matching`}
+        </h4>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          {/* Search box */}
+          <input
+            type="text"
+            placeholder="🔍 Search collections..."
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            style={{
+              padding: '0.4rem 0.75rem',
+              fontSize: '0.75rem',
+              border: '1px solid #fb923c',
+              borderRadius: '4px',
+              minWidth: '200px',
+              outline: 'none'
+            }}
+          />
+          <button
+            onClick={() => {
+              const allCollections = [
+                ...newCollections.map((c: any) => c.collection),
+                ...modifiedCollections.map((c: any) => c.collection),
+                ...deletedCollections.map((c: any) => c.collection)
+              ];
+              onSelectionChange(
+                allCollections,
+                (schemaDiff.diff.fields || [])
+                  .filter((field: any) => allCollections.includes(field.collection))
+                  .map((field: any) => fieldChangeKey(field.collection, field.field))
+              );
+            }}
+            style={{
+              padding: '0.25rem 0.75rem',
+              fontSize: '0.75rem',
+              backgroundColor: '#fb923c',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Select All
+          </button>
+          <button
+              onClick={() => onSelectionChange([], [])}
+            style={{
+              padding: '0.25rem 0.75rem',
+              fontSize: '0.75rem',
+              backgroundColor: '#6b7280',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+        {/* Destructive Changes */}
+        {destructiveChanges.length > 0 && (
+          <DestructiveChangesPanel
+            changes={destructiveChanges}
+            estimates={destructiveEstimates}
+            selectedChanges={selectedDestructiveChanges}
+            confirmation={destructiveConfirmation}
+            onConfirmationChange={onDestructiveConfirmationChange}
+            onToggleChange={(change, checked) => change.kind === 'drop_collection'
+              ? toggleCollection(change.collection, checked)
+              : toggleField(change.key, checked)}
+          />
+        )}
+
+        {/* New Collections */}
+        {filteredNewCollections.length > 0 && (
+          <div style={{
+            backgroundColor: '#ecfdf5',
+            border: '2px solid #10b981',
+            borderRadius: '8px',
+            padding: '1rem'
+          }}>
+            <h5 style={{ margin: '0 0 0.75rem 0', color: '#065f46', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              ✨ New Collections ({filteredNewCollections.length}{filterTerm ? ` of ${newCollections.length}` : ''})
+              <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#059669' }}>
+                - Will be created in target
+              </span>
+            </h5>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {filteredNewCollections.map((col: any) => (
+                <div key={col.collection} style={{
+                  backgroundColor: 'white',
+                  border: selectedCollections.includes(col.collection) ? '2px solid #10b981' : '1px solid #d1fae5',
+                  borderRadius: '6px',
+                  padding: '0.75rem'
+                }}>
+                  <label style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={selectedCollections.includes(col.collection)}
+                      onChange={(e) => toggleCollection(col.collection, e.target.checked)}
+                      style={{ marginTop: '0.25rem', cursor: 'pointer' }}
+                    />
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontWeight: '600', color: '#065f46', marginBottom: '0.25rem' }}>
+                        {col.collection}
+                      </div>
+                      {col.fields && col.fields.length > 0 && (
+                        <div style={{ fontSize: '0.75rem', color: '#059669', marginTop: '0.5rem' }}>
+                          📝 {col.fields.length} field(s): {col.fields.map((f: any) => f.field).join(', ')}
+                        </div>
+                      )}
+                      {col.relations && col.relations.length > 0 && (
+                        <div style={{ fontSize: '0.75rem', color: '#059669', marginTop: '0.25rem' }}>
+                          🔗 {col.relations.length} relation(s)
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Modified Collections */}
+        {filteredModifiedCollections.length > 0 && (
+          <div style={{
+            backgroundColor: '#fef3c7',
+            border: '2px solid #f59e0b',
+            borderRadius: '8px',
+            padding: '1rem'
+          }}>
+            <h5 style={{ margin: '0 0 0.75rem 0', color: '#92400e', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              🔄 Modified Collections ({filteredModifiedCollections.length}{filterTerm ? ` of ${modifiedCollections.length}` : ''})
+              <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#d97706' }}>
+                - Have field or validation changes
+              </span>
+            </h5>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {filteredModifiedCollections.map((col: any) => {
+                const isCollapsed = collapsedFieldDetails[col.collection] ?? true;
+                const hasDetails = col.fieldChanges && col.fieldChanges.length > 0;
+                
+                return (
+                  <div key={col.collection} style={{
+                    backgroundColor: 'white',
+                    border: selectedCollections.includes(col.collection) ? '2px solid #f59e0b' : '1px solid #fde68a',
+                    borderRadius: '6px',
+                    padding: '0.75rem'
+                  }}>
+                    {/* Header with checkbox and collection name */}
+                    <div style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem' }}>
+                      <input
+                        type="checkbox"
+                        checked={selectedCollections.includes(col.collection)}
+                        onChange={(e) => {
+                          e.stopPropagation();
+                          toggleCollection(col.collection, e.target.checked);
+                        }}
+                        style={{ marginTop: '0.25rem', cursor: 'pointer' }}
+                      />
+                      <div style={{ flex: 1 }}>
+                        <div style={{ 
+                          display: 'flex', 
+                          alignItems: 'center', 
+                          justifyContent: 'space-between',
+                          marginBottom: '0.5rem'
+                        }}>
+                          <div style={{ fontWeight: '600', color: '#92400e' }}>
+                            {col.collection}
+                          </div>
+                          {hasDetails && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setCollapsedFieldDetails(prev => ({
+                                  ...prev,
+                                  [col.collection]: !isCollapsed
+                                }));
+                              }}
+                              style={{
+                                background: 'none',
+                                border: '1px solid #d97706',
+                                borderRadius: '4px',
+                                padding: '0.25rem 0.5rem',
+                                cursor: 'pointer',
+                                fontSize: '0.7rem',
+                                color: '#92400e',
+                                fontWeight: '600',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '0.25rem'
+                              }}
+                            >
+                              {isCollapsed ? '▶' : '▼'} {isCollapsed ? 'Show' : 'Hide'} Details
+                            </button>
+                          )}
+                        </div>
+                        
+                        {/* Summary Badge */}
+                        <div style={{ 
+                          display: 'flex', 
+                          gap: '0.5rem', 
+                          marginBottom: hasDetails && !isCollapsed ? '0.5rem' : '0',
+                          flexWrap: 'wrap'
+                        }}>
+                          {col.newFieldsCount > 0 && (
+                            <span style={{
+                              fontSize: '0.7rem',
+                              padding: '0.25rem 0.5rem',
+                              backgroundColor: '#dcfce7',
+                              color: '#166534',
+                              borderRadius: '4px',
+                              fontWeight: '600'
+                            }}>
+                              ➕ {col.newFieldsCount} new field{col.newFieldsCount > 1 ? 's' : ''}
+                            </span>
+                          )}
+                          {col.deletedFieldsCount > 0 && (
+                            <span style={{
+                              fontSize: '0.7rem',
+                              padding: '0.25rem 0.5rem',
+                              backgroundColor: '#fee2e2',
+                              color: '#991b1b',
+                              borderRadius: '4px',
+                              fontWeight: '600'
+                            }}>
+                              ➖ {col.deletedFieldsCount} deleted field{col.deletedFieldsCount > 1 ? 's' : ''}
+                            </span>
+                          )}
+                          {col.modifiedFieldsCount > 0 && (
+                            <span style={{
+                              fontSize: '0.7rem',
+                              padding: '0.25rem 0.5rem',
+                              backgroundColor: '#e0e7ff',
+                              color: '#3730a3',
+                              borderRadius: '4px',
+                              fontWeight: '600'
+                            }}>
+                              ✏️ {col.modifiedFieldsCount} modified field{col.modifiedFieldsCount > 1 ? 's' : ''}
+                            </span>
+                          )}
+                          {col.relations && col.relations.length > 0 && (
+                            <span style={{
+                              fontSize: '0.7rem',
+                              padding: '0.25rem 0.5rem',
+                              backgroundColor: '#fef3c7',
+                              color: '#92400e',
+                              borderRadius: '4px',
+                              fontWeight: '600'
+                            }}>
+                              🔗 {col.relations.length} relation{col.relations.length > 1 ? 's' : ''}
+                            </span>
+                          )}
+                        </div>
+                        
+                        {/* Collapsible Field Details */}
+                        {!isCollapsed && hasDetails && (
+                          <div style={{ 
+                            backgroundColor: '#fffbeb', 
+                            padding: '0.5rem', 
+                            borderRadius: '4px',
+                            marginTop: '0.5rem',
+                            marginBottom: '0.5rem',
+                            border: '1px solid #fde68a'
+                          }}>
+                            <div style={{ fontSize: '0.8rem', fontWeight: '600', color: '#92400e', marginBottom: '0.5rem' }}>
+                              📝 Field Details:
+                            </div>
+                            {col.fieldChanges.map((field: any, idx: number) => (
+                              <div key={idx} style={{ 
+                                fontSize: '0.75rem', 
+                                color: '#78350f',
+                                marginLeft: '1rem',
+                                marginBottom: '0.5rem',
+                                lineHeight: '1.4',
+                                padding: '0.5rem',
+                                backgroundColor: field.action === 'create' ? '#f0fdf4' : 
+                                                 field.action === 'delete' ? '#fef2f2' : '#f5f3ff',
+                                borderLeft: `3px solid ${field.action === 'create' ? '#10b981' : 
+                                                           field.action === 'delete' ? '#dc2626' : '#6366f1'}`,
+                                borderRadius: '4px'
+                              }}>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', marginBottom: '0.25rem', cursor: 'pointer' }}>
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedFields.includes(fieldChangeKey(col.collection, field.field))}
+                                    onChange={(e) => toggleField(fieldChangeKey(col.collection, field.field), e.target.checked)}
+                                    style={{ cursor: 'pointer' }}
+                                  />
+                                  <strong style={{ fontSize: '0.85rem' }}>{field.field}</strong> 
+                                  <span style={{ 
+                                    marginLeft: '0.5rem',
+                                    padding: '0.125rem 0.375rem',
+                                    backgroundColor: field.action === 'create' ? '#dcfce7' : 
+                                                    field.action === 'delete' ? '#fee2e2' : '#e0e7ff',
+                                    color: field.action === 'create' ? '#166534' : 
+                                           field.action === 'delete' ? '#991b1b' : '#3730a3',
+                                    borderRadius: '3px',
+                                    fontSize: '0.7rem',
+                                    fontWeight: '600'
+                                  }}>
+                                    {field.action === 'create' ? '✨ NEW' : 
+                                     field.action === 'delete' ? '🗑️ DELETED' : '✏️ MODIFIED'}
+                                  </span>
+                                  {field.type && <span style={{ marginLeft: '0.5rem', color: '#a16207', fontWeight: '600' }}>({field.type})</span>}
+                                </label>
+                                
+                                {/* Description based on action */}
+                                <div style={{ fontSize: '0.7rem', color: '#6b7280', marginBottom: '0.25rem', fontStyle: 'italic' }}>
+                                  {field.action === 'create' && '📍 Field exists in source but not in target'}
+                                  {field.action === 'delete' && '📍 Field exists in target but removed from source'}
+                                  {field.action === 'update' && '📍 Field has different configuration between source and target'}
+                                </div>
+                                
+                                {/* Before (target) → after (source) per property */}
+                                {(fieldChanges.get(fieldChangeKey(col.collection, field.field))?.properties.length || 0) > 0 && (
+                                  <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.25rem', fontSize: '0.7rem' }}>
+                                    <thead>
+                                      <tr style={{ color: '#6b7280', textAlign: 'left' }}>
+                                        <th style={{ padding: '0.125rem 0.25rem', fontWeight: '600' }}>Property</th>
+                                        <th style={{ padding: '0.125rem 0.25rem', fontWeight: '600' }}>Target (before)</th>
+                                        <th style={{ padding: '0.125rem 0.25rem', fontWeight: '600' }}>Source (after)</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {fieldChanges.get(fieldChangeKey(col.collection, field.field))!.properties.map(change => (
+                                        <tr key={change.property} style={{ borderTop: '1px solid #fde68a', verticalAlign: 'top' }}>
+                                          <td style={{ padding: '0.125rem 0.25rem', fontFamily: 'monospace' }}>{change.property}</td>
+                                          <td style={{ padding: '0.125rem 0.25rem', fontFamily: 'monospace', color: '#991b1b', wordBreak: 'break-all' }}>{formatSchemaValue(change.before)}</td>
+                                          <td style={{ padding: '0.125rem 0.25rem', fontFamily: 'monospace', color: '#166534', wordBreak: 'break-all' }}>{formatSchemaValue(change.after)}</td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        
+                        {/* Collection-level validation */}
+                        {!isCollapsed && (col.schema?.validation || col.meta?.validation) && (
+                          <div style={{ 
+                            backgroundColor: '#fef3c7', 
+                            padding: '0.5rem', 
+                            borderRadius: '4px',
+                            border: '1px solid #fcd34d',
+                            fontSize: '0.75rem',
+                            color: '#92400e',
+                            marginTop: '0.5rem'
+                          }}>
+                            <strong>Collection Validation:</strong>
+                            <pre style={{ margin: '0.25rem 0 0 0', fontSize: '0.7rem', whiteSpace: 'pre-wrap' }}>
+                              {JSON.stringify(col.schema?.validation || col.meta?.validation, null, 2)}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Deleted Collections */}
+        {filteredDeletedCollections.length > 0 && (
+          <div style={{
+            backgroundColor: '#fee2e2',
+            border: '2px solid #dc2626',
+            borderRadius: '8px',
+            padding: '1rem'
+          }}>
+            <h5 style={{ margin: '0 0 0.75rem 0', color: '#991b1b', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              🗑️ Deleted Collections ({filteredDeletedCollections.length}{filterTerm ? ` of ${deletedCollections.length}` : ''})
+              <span style={{ fontSize: '0.75rem', fontWeight: 'normal', color: '#dc2626' }}>
+                - Exist in target but removed from source
+              </span>
+            </h5>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {filteredDeletedCollections.map((col: any) => (
+                <div key={col.collection} style={{
+                  backgroundColor: 'white',
+                  border: selectedCollections.includes(col.collection) ? '2px solid #dc2626' : '1px solid #fecaca',
+                  borderRadius: '6px',
+                  padding: '0.75rem'
+                }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={selectedCollections.includes(col.collection)}
+                      onChange={(e) => toggleCollection(col.collection, e.target.checked)}
+                      style={{ cursor: 'pointer' }}
+                    />
+                    <div style={{ flex: 1 }}>
+                      <span style={{ fontWeight: '600', color: '#991b1b' }}>{col.collection}</span>
+                      <span style={{ fontSize: '0.75rem', color: '#dc2626', marginLeft: '0.5rem' }}>
+                        ⚠️ Will be deleted from target
+                      </span>
+                    </div>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {totalCollections === 0 && (
+          <div style={{
+            textAlign: 'center',
+            padding: '2rem',
+            backgroundColor: '#f0fdf4',
+            border: '2px solid #10b981',
+            borderRadius: '8px',
+            color: '#065f46'
+          }}>
+            ✅ No schema differences found. Schemas are in sync!
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
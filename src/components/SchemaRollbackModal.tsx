@@ -0,0 +1,149 @@
+import React, { useState } from 'react'
+import { DESTRUCTIVE_CONFIRMATION, describeDestructiveChange } from '../lib/schemaDiff'
+import type { SchemaRollbackPlan } from '../lib/schemaRollback'
+
+interface SchemaRollbackModalProps {
+  plan: SchemaRollbackPlan
+  isReverting: boolean
+  onRevert: () => void // Only called once the revert is confirmed
+  onCancel: () => void
+}
+
+export function SchemaRollbackModal({ plan, isReverting, onRevert, onCancel }: SchemaRollbackModalProps) {
+  const [confirmed, setConfirmed] = useState(false)
+  const [confirmation, setConfirmation] = useState('')
+
+  const destructiveConfirmed = plan.destructive.length === 0 || confirmation.trim() === DESTRUCTIVE_CONFIRMATION
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '12px',
+        maxWidth: '640px',
+        width: '100%',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        margin: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+          <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>↩️</span>
+          <h3 style={{ margin: 0, color: '#dc2626' }}>Revert target schema</h3>
+        </div>
+
+        <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+          The target schema goes back to the snapshot taken before the apply of{' '}
+          {new Date(plan.job.appliedAt).toLocaleString()} ({plan.job.preApplySummary.collections} collections,{' '}
+          {plan.job.preApplySummary.fields} fields). Schema changes made on the target since then are reverted too.
+        </p>
+
+        <div style={{ fontSize: '0.8rem', color: '#374151', marginBottom: '0.75rem' }}>
+          {plan.diff.collections.length} collection, {plan.diff.fields.length} field and{' '}
+          {plan.diff.relations.length} relation change(s)
+        </div>
+
+        {plan.destructive.length > 0 && (
+          <div style={{
+            padding: '0.75rem',
+            marginBottom: '0.75rem',
+            backgroundColor: '#fee2e2',
+            color: '#991b1b',
+            borderRadius: '6px',
+            fontSize: '0.8rem'
+          }}>
+            <div style={{ fontWeight: '600', marginBottom: '0.25rem' }}>
+              ⚠️ Data loss: these changes drop or convert target data
+            </div>
+            {plan.destructive.map(change => {
+              const estimate = plan.estimates[change.key]
+              return (
+                <div key={change.key} style={{ fontFamily: 'monospace' }}>
+                  {describeDestructiveChange(change)}
+                  {' — '}
+                  {estimate?.nonNull == null ? 'count unavailable' : change.field ? `${estimate.nonNull} non-empty values` : `${estimate.nonNull} rows`}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', margin: '1rem 0', fontSize: '0.875rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={confirmed}
+            onChange={(e) => setConfirmed(e.target.checked)}
+            disabled={isReverting}
+          />
+          I understand the target schema will be reverted{plan.destructive.length > 0 ? ' and the data listed above lost' : ''}
+        </label>
+
+        {plan.destructive.length > 0 && (
+          <div style={{ margin: '0 0 1rem 0', fontSize: '0.8rem', color: '#7f1d1d' }}>
+            Type <strong>{DESTRUCTIVE_CONFIRMATION}</strong> to apply the {plan.destructive.length} destructive change(s):
+            <input
+              type="text"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={DESTRUCTIVE_CONFIRMATION}
+              disabled={isReverting}
+              style={{
+                marginLeft: '0.5rem',
+                padding: '0.25rem 0.5rem',
+                fontSize: '0.8rem',
+                border: `1px solid ${destructiveConfirmed ? '#10b981' : '#dc2626'}`,
+                borderRadius: '4px',
+                width: '120px'
+              }}
+            />
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onCancel}
+            disabled={isReverting}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#6b7280',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onRevert}
+            disabled={!confirmed || !destructiveConfirmed || isReverting}
+            style={{
+              padding: '0.5rem 1rem',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: confirmed && destructiveConfirmed ? '#dc2626' : '#9ca3af',
+              color: 'white',
+              cursor: confirmed && destructiveConfirmed ? 'pointer' : 'not-allowed',
+              fontWeight: '500'
+            }}
+          >
+            {isReverting ? 'Reverting...' : '↩️ Revert Schema'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
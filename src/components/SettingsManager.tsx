@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { getFieldTransforms, saveFieldTransforms, type CollectionTransforms } from '../lib/fieldTransforms'
 
 interface ConnectionSettings {
   name: string
@@ -8,6 +9,7 @@ interface ConnectionSettings {
   targetEnvironment: string
   targetUrl: string
   targetToken: string
+  fieldTransforms?: CollectionTransforms // Value transforms of the source/target pair when the preset was saved
   createdAt: string
 }
 
@@ -60,6 +62,7 @@ export function SettingsManager({ currentSettings, onLoadSettings, onClearAll }:
       targetEnvironment: currentSettings.targetEnvironment,
       targetUrl: currentSettings.targetUrl,
       targetToken: currentSettings.targetToken,
+      fieldTransforms: getFieldTransforms(currentSettings.sourceUrl, currentSettings.targetUrl),
       createdAt: new Date().toISOString()
     }
 
@@ -72,6 +75,9 @@ export function SettingsManager({ currentSettings, onLoadSettings, onClearAll }:
 
   // Load a preset
   const loadPreset = (preset: ConnectionSettings) => {
+    if (preset.fieldTransforms) {
+      saveFieldTransforms(preset.sourceUrl, preset.targetUrl, preset.fieldTransforms)
+    }
     onLoadSettings({
       sourceEnvironment: preset.sourceEnvironment,
       sourceUrl: preset.sourceUrl,
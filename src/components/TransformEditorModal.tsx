@@ -0,0 +1,266 @@
+import React, { useState } from 'react'
+import {
+  TRANSFORM_LABELS,
+  createTransform,
+  formatTransformValue,
+  parseTransformValue,
+  type DateShiftUnit,
+  type FieldTransform,
+  type FieldTransformKind
+} from '../lib/fieldTransforms'
+
+const DATE_SHIFT_UNITS: DateShiftUnit[] = ['minutes', 'hours', 'days', 'months', 'years']
+
+interface TransformEditorModalProps {
+  collection: string
+  initialTransforms: FieldTransform[] // Saved transforms; edited as a draft until saved
+  isPreviewing: boolean
+  onPreview: (transforms: FieldTransform[]) => void
+  onSave: (transforms: FieldTransform[]) => void
+  onCancel: () => void
+}
+
+export function TransformEditorModal({
+  collection,
+  initialTransforms,
+  isPreviewing,
+  onPreview,
+  onSave,
+  onCancel
+}: TransformEditorModalProps) {
+  const [transforms, setTransforms] = useState<FieldTransform[]>(initialTransforms)
+
+  const updateTransform = (index: number, changes: Partial<FieldTransform>) => {
+    setTransforms(prev => prev.map((transform, i) => (i === index ? { ...transform, ...changes } as FieldTransform : transform)))
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '12px',
+        maxWidth: '760px',
+        width: '100%',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        margin: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+          <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>🔧</span>
+          <h3 style={{ margin: 0 }}>Transforms of {collection}</h3>
+        </div>
+
+        <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+          Applied in order to every imported item, using source field names. Values are read as JSON when they parse
+          (numbers, true, null), as text otherwise. Transforms are kept for this source/target pair and saved with its preset.
+        </p>
+
+        {transforms.length === 0 && (
+          <div style={{ padding: '0.75rem', marginBottom: '1rem', color: '#6b7280', fontSize: '0.875rem', textAlign: 'center' }}>
+            No transforms: values are copied as they are.
+          </div>
+        )}
+
+        {transforms.map((transform, index) => (
+          <div key={index} style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '0.5rem',
+            border: '1px solid #e5e7eb',
+            borderRadius: '6px',
+            padding: '0.75rem',
+            marginBottom: '0.5rem',
+            fontSize: '0.8rem'
+          }}>
+            <span style={{ color: '#6b7280' }}>#{index + 1}</span>
+            <select
+              value={transform.kind}
+              onChange={(e) => setTransforms(prev => prev.map((t, i) => (i === index ? createTransform(e.target.value as FieldTransformKind, t.field) : t)))}
+              style={{ padding: '0.25rem' }}
+            >
+              {(Object.keys(TRANSFORM_LABELS) as FieldTransformKind[]).map(kind => (
+                <option key={kind} value={kind}>{TRANSFORM_LABELS[kind]}</option>
+              ))}
+            </select>
+            <input
+              value={transform.field}
+              onChange={(e) => updateTransform(index, { field: e.target.value.trim() })}
+              placeholder="field"
+              style={{ width: '120px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+            />
+            {(transform.kind === 'constant' || transform.kind === 'default_if_null') && (
+              <input
+                key={formatTransformValue(transform.value)} // Remounts when a removed row shifts this one
+                defaultValue={formatTransformValue(transform.value)}
+                onBlur={(e) => updateTransform(index, { value: parseTransformValue(e.target.value) })}
+                placeholder="value"
+                style={{ flex: 1, minWidth: '160px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+              />
+            )}
+            {transform.kind === 'rename' && (
+              <>
+                <span>→</span>
+                <input
+                  value={transform.to}
+                  onChange={(e) => updateTransform(index, { to: e.target.value.trim() })}
+                  placeholder="new field"
+                  style={{ width: '120px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+                />
+              </>
+            )}
+            {transform.kind === 'regex' && (
+              <>
+                <input
+                  value={transform.pattern}
+                  onChange={(e) => updateTransform(index, { pattern: e.target.value })}
+                  placeholder="https://www\.example\.com"
+                  style={{ flex: 1, minWidth: '160px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+                />
+                <input
+                  value={transform.flags}
+                  onChange={(e) => updateTransform(index, { flags: e.target.value.trim() })}
+                  placeholder="flags"
+                  title="Regular expression flags, e.g. g or gi"
+                  style={{ width: '48px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+                />
+                <span>→</span>
+                <input
+                  value={transform.replacement}
+                  onChange={(e) => updateTransform(index, { replacement: e.target.value })}
+                  placeholder="https://staging.example.com"
+                  style={{ flex: 1, minWidth: '160px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+                />
+              </>
+            )}
+            {transform.kind === 'date_shift' && (
+              <>
+                <input
+                  type="number"
+                  value={transform.amount}
+                  onChange={(e) => updateTransform(index, { amount: Number(e.target.value) || 0 })}
+                  style={{ width: '80px', padding: '0.25rem 0.5rem' }}
+                />
+                <select
+                  value={transform.unit}
+                  onChange={(e) => updateTransform(index, { unit: e.target.value as DateShiftUnit })}
+                  style={{ padding: '0.25rem' }}
+                >
+                  {DATE_SHIFT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </>
+            )}
+            {transform.kind === 'lookup' && (
+              <>
+                <textarea
+                  key={JSON.stringify(transform.table)}
+                  rows={3}
+                  defaultValue={Object.entries(transform.table).map(([from, to]) => `${from} = ${formatTransformValue(to)}`).join('\n')}
+                  onBlur={(e) => updateTransform(index, {
+                    table: Object.fromEntries(e.target.value.split('\n')
+                      .map(line => line.split('='))
+                      .filter(parts => parts.length >= 2 && parts[0].trim())
+                      .map(([from, ...to]) => [from.trim(), parseTransformValue(to.join('=').trim())]))
+                  })}
+                  placeholder={'draft = review\narchived = published'}
+                  style={{ flex: 1, minWidth: '200px', padding: '0.25rem 0.5rem', fontFamily: 'monospace' }}
+                />
+                <select
+                  value={transform.unmatched}
+                  onChange={(e) => updateTransform(index, { unmatched: e.target.value as 'keep' | 'null' })}
+                  style={{ padding: '0.25rem' }}
+                  title="Values missing from the table"
+                >
+                  <option value="keep">Keep unmatched</option>
+                  <option value="null">Null unmatched</option>
+                </select>
+              </>
+            )}
+            <button
+              onClick={() => setTransforms(prev => prev.filter((_, i) => i !== index))}
+              style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', marginLeft: 'auto' }}
+              title="Remove transform"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={() => setTransforms(prev => [...prev, createTransform('constant')])}
+          style={{
+            padding: '0.375rem 0.75rem',
+            border: '1px dashed #9ca3af',
+            borderRadius: '6px',
+            backgroundColor: 'white',
+            color: '#374151',
+            cursor: 'pointer',
+            fontSize: '0.8rem',
+            marginBottom: '1rem'
+          }}
+        >
+          + Add Transform
+        </button>
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={() => onPreview(transforms)}
+            disabled={transforms.length === 0 || isPreviewing}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #3b82f6',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#3b82f6',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {isPreviewing ? 'Loading...' : 'Preview'}
+          </button>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#6b7280',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(transforms)}
+            style={{
+              padding: '0.5rem 1rem',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: '#3b82f6',
+              color: 'white',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Save Transforms
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import React from 'react'
+import { formatSchemaValue } from '../lib/schemaDiff'
+import type { TransformPreviewRow } from '../lib/fieldTransforms'
+
+export interface TransformPreview {
+  collection: string
+  sampled: number // Source items the preview was computed from
+  rows: TransformPreviewRow[]
+  onImport?: () => void // Continues the import the preview was shown for
+}
+
+interface TransformPreviewModalProps {
+  preview: TransformPreview
+  onClose: () => void
+}
+
+export function TransformPreviewModal({ preview, onClose }: TransformPreviewModalProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1001
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '12px',
+        maxWidth: '760px',
+        width: '100%',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        margin: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+      }}>
+        <h3 style={{ margin: '0 0 0.5rem 0' }}>Transformed values of {preview.collection}</h3>
+        <p style={{ margin: '0 0 1rem 0', fontSize: '0.875rem', color: '#374151' }}>
+          {preview.rows.length} of the first {preview.sampled} source items change.
+          {preview.onImport && ' Nothing has been written yet.'}
+        </p>
+
+        {preview.rows.map(row => (
+          <div key={String(row.id)} style={{ border: '1px solid #e5e7eb', borderRadius: '6px', padding: '0.5rem 0.75rem', marginBottom: '0.5rem' }}>
+            <div style={{ fontWeight: '600', fontSize: '0.8rem', marginBottom: '0.25rem' }}>#{String(row.id)}</div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.75rem', tableLayout: 'fixed' }}>
+              <tbody>
+                {row.changes.map(change => (
+                  <tr key={change.field} style={{ verticalAlign: 'top' }}>
+                    <td style={{ width: '20%', padding: '0.25rem', fontFamily: 'monospace' }}>{change.field}</td>
+                    <td style={{ width: '40%', padding: '0.25rem', backgroundColor: '#fee2e2', color: '#991b1b', wordBreak: 'break-all' }}>
+                      {formatSchemaValue(change.before).slice(0, 300)}
+                    </td>
+                    <td style={{ width: '40%', padding: '0.25rem', backgroundColor: '#d1fae5', color: '#065f46', wordBreak: 'break-all' }}>
+                      {formatSchemaValue(change.after).slice(0, 300)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#6b7280',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            {preview.onImport ? 'Cancel' : 'Close'}
+          </button>
+          {preview.onImport && (
+            <button
+              onClick={() => {
+                onClose()
+                preview.onImport!()
+              }}
+              style={{
+                padding: '0.5rem 1rem',
+                border: 'none',
+                borderRadius: '6px',
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                cursor: 'pointer',
+                fontWeight: '500'
+              }}
+            >
+              Import with Transforms
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
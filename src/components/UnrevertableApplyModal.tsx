@@ -0,0 +1,75 @@
+import React from 'react'
+
+interface UnrevertableApplyModalProps {
+  onApply: () => void // Download the pre-apply snapshot, then apply
+  onCancel: () => void
+}
+
+export function UnrevertableApplyModal({ onApply, onCancel }: UnrevertableApplyModalProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        padding: '2rem',
+        borderRadius: '12px',
+        maxWidth: '520px',
+        width: '100%',
+        margin: '1rem',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
+          <span style={{ fontSize: '2rem', marginRight: '0.5rem' }}>⚠️</span>
+          <h3 style={{ margin: 0, color: '#b45309' }}>Apply without rollback?</h3>
+        </div>
+
+        <p style={{ margin: '0 0 1.5rem 0', fontSize: '0.875rem', color: '#374151' }}>
+          The target snapshot taken before this apply does not fit in browser storage, so the apply
+          cannot be reverted from here. The snapshot is downloaded as JSON before applying; keep it
+          to restore the target schema by hand.
+        </p>
+
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '0.5rem 1rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '6px',
+              backgroundColor: 'white',
+              color: '#6b7280',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onApply}
+            style={{
+              padding: '0.5rem 1rem',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: '#dc2626',
+              color: 'white',
+              cursor: 'pointer',
+              fontWeight: '500'
+            }}
+          >
+            Download Snapshot & Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DirectusClient, type RetryEvent, type RetryPolicy } from './DirectusClient';
+
+const BASE_URL = 'https://directus.test';
+
+function jsonResponse(status: number, body: any = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Client whose fetch answers with the given responses in turn
+ */
+function createClient(responses: Array<Response | Error>, retry: Partial<RetryPolicy> = {}) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) {
+      throw new Error('No response left');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return next;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+
+  const retries: RetryEvent[] = [];
+  const client = new DirectusClient(BASE_URL, 'token', 'token', {
+    retry: { baseDelayMs: 1, maxDelayMs: 20, ...retry },
+    onRetry: event => retries.push(event),
+  });
+  return { client, fetchMock, retries };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('DirectusClient retries', () => {
+  it('replays a GET after a transient gateway error', async () => {
+    const { client, fetchMock, retries } = createClient([
+      jsonResponse(503),
+      jsonResponse(200, { data: [{ id: 1 }] }),
+    ]);
+
+    const response = await client.get('/items/articles');
+
+    expect(response.data).toEqual([{ id: 1 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(retries).toHaveLength(1);
+    expect(retries[0]).toMatchObject({ method: 'GET', attempt: 1, status: 503, reason: 'HTTP 503' });
+  });
+
+  it('gives up after maxAttempts and surfaces the last error', async () => {
+    const { client, fetchMock } = createClient(
+      [jsonResponse(502), jsonResponse(502), jsonResponse(502)],
+      { maxAttempts: 3 }
+    );
+
+    await expect(client.get('/items/articles')).rejects.toMatchObject({ response: { status: 502 } });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('replays a GET after a network error', async () => {
+    const { client, retries } = createClient([
+      new TypeError('Failed to fetch'),
+      jsonResponse(200, { data: [] }),
+    ]);
+
+    await client.get('/items/articles');
+
+    expect(retries[0]).toMatchObject({ status: 0, reason: 'Failed to fetch' });
+  });
+
+  it('does not replay a POST after a gateway error', async () => {
+    const { client, fetchMock } = createClient([jsonResponse(503), jsonResponse(200)]);
+
+    await expect(client.post('/items/articles', { title: 'a' })).rejects.toMatchObject({ response: { status: 503 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a POST rejected with 429', async () => {
+    const { client, fetchMock } = createClient([
+      jsonResponse(429, {}, { 'retry-after': '0' }),
+      jsonResponse(200, { data: { id: 1 } }),
+    ]);
+
+    const response = await client.post('/items/articles', { title: 'a' });
+
+    expect(response.data).toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry 429 when the policy leaves it out', async () => {
+    const { client, fetchMock } = createClient(
+      [jsonResponse(429), jsonResponse(200)],
+      { retryStatuses: [502, 503, 504] }
+    );
+
+    await expect(client.get('/items/articles')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const { client, fetchMock } = createClient([jsonResponse(400), jsonResponse(200)]);
+
+    await expect(client.get('/items/articles')).rejects.toMatchObject({ response: { status: 400 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('DirectusClient retry delay', () => {
+  it('waits the seconds given by Retry-After', async () => {
+    const { client, retries } = createClient([
+      jsonResponse(503, {}, { 'retry-after': '0.01' }),
+      jsonResponse(200),
+    ]);
+
+    await client.get('/items/articles');
+
+    expect(retries[0].delayMs).toBe(10);
+  });
+
+  it('caps Retry-After at maxDelayMs', async () => {
+    const { client, retries } = createClient([
+      jsonResponse(429, {}, { 'retry-after': '120' }),
+      jsonResponse(200),
+    ]);
+
+    await client.get('/items/articles');
+
+    expect(retries[0].delayMs).toBe(20);
+  });
+
+  it('reads Retry-After given as an HTTP date', async () => {
+    const { client, retries } = createClient([
+      jsonResponse(503, {}, { 'retry-after': new Date(Date.now() + 60000).toUTCString() }),
+      jsonResponse(200),
+    ]);
+
+    await client.get('/items/articles');
+
+    // The date lies far beyond the cap
+    expect(retries[0].delayMs).toBe(20);
+  });
+
+  it('falls back to jittered backoff when Retry-After is unusable', async () => {
+    const { client, retries } = createClient(
+      [
+        jsonResponse(503, {}, { 'retry-after': 'soon' }),
+        jsonResponse(503),
+        jsonResponse(503),
+        jsonResponse(200),
+      ],
+      { baseDelayMs: 4, maxDelayMs: 10 }
+    );
+
+    await client.get('/items/articles');
+
+    // Full jitter: 0..base, 0..2*base, then capped at maxDelayMs
+    expect(retries).toHaveLength(3);
+    expect(retries[0].delayMs).toBeLessThanOrEqual(4);
+    expect(retries[1].delayMs).toBeLessThanOrEqual(8);
+    expect(retries[2].delayMs).toBeLessThanOrEqual(10);
+    retries.forEach(event => expect(event.delayMs).toBeGreaterThanOrEqual(0));
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse(503, {}, { 'retry-after': '10' })));
+    const client = new DirectusClient(BASE_URL, 'token', 'token', {
+      retry: { maxDelayMs: 10000 },
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(client.get('/items/articles')).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('DirectusClient paging', () => {
+  /**
+   * Client reading from an in-memory table; records the params of every page request
+   */
+  function createPagedClient(rows: any[]) {
+    const client = new DirectusClient(BASE_URL, 'token');
+    const requests: Array<Record<string, any>> = [];
+    vi.spyOn(client, 'get').mockImplementation(async (_endpoint: string, options: { params?: Record<string, any> } = {}) => {
+      const params = options.params || {};
+      requests.push(params);
+      const after = params.filter?._and?.[1]?.id?._gt ?? params.filter?.id?._gt;
+      const source = after === undefined ? rows : rows.filter(row => row.id > after);
+      const start = params.offset || 0;
+      return { data: source.slice(start, start + params.limit) };
+    });
+    return { client, requests };
+  }
+
+  const rows = Array.from({ length: 7 }, (_, index) => ({ id: index + 1 }));
+
+  it('reads offset pages until a short page', async () => {
+    const { client, requests } = createPagedClient(rows);
+
+    const pages: any[][] = [];
+    for await (const page of client.iterateItems('articles', { pageSize: 3 })) {
+      pages.push(page);
+    }
+
+    expect(pages.map(page => page.map(row => row.id))).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+    expect(requests.map(params => params.offset)).toEqual([0, 3, 6]);
+  });
+
+  it('pages by key after the last row with keyset paging', async () => {
+    const { client, requests } = createPagedClient(rows);
+    const filter = { status: { _eq: 'published' } };
+
+    const all = await client.readAll('/items/articles', { pageSize: 3, paging: 'keyset', filter });
+
+    expect(all.map(row => row.id)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(requests[0]).toMatchObject({ sort: 'id', filter });
+    expect(requests[0].offset).toBeUndefined();
+    expect(requests[1].filter).toEqual({ _and: [filter, { id: { _gt: 3 } }] });
+    expect(requests[2].filter).toEqual({ _and: [filter, { id: { _gt: 6 } }] });
+  });
+
+  it('stops after the requested limit', async () => {
+    const { client, requests } = createPagedClient(rows);
+
+    const all = await client.readAll('/items/articles', { pageSize: 3, limit: 5 });
+
+    expect(all.map(row => row.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(requests.map(params => params.limit)).toEqual([3, 2]);
+  });
+
+  it('adds the key field to the selected fields for keyset paging', async () => {
+    const { client, requests } = createPagedClient(rows);
+
+    await client.readAll('/items/articles', { paging: 'keyset', fields: ['title'] });
+
+    expect(requests[0].fields).toBe('title,id');
+  });
+
+  it('stops on an empty first page without yielding', async () => {
+    const { client } = createPagedClient([]);
+
+    const pages: any[][] = [];
+    for await (const page of client.iterateItems('articles')) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([]);
+  });
+});
@@ -1,17 +1,134 @@
+import { RequestScheduler, abortableDelay, createAbortError, isAbortError, type ThrottleConfig } from './requestScheduler';
+
+/**
+ * Retry policy for transient failures (rate limiting, gateway errors, network drops)
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  baseDelayMs: number; // Backoff base, doubled on every attempt
+  maxDelayMs: number; // Upper bound for a single wait (also caps Retry-After)
+  retryStatuses: number[]; // HTTP statuses considered transient
+  idempotentMethods: string[]; // Methods that are safe to replay after any transient failure
+}
+
+export type RetryEvent = {
+  method: string;
+  endpoint: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  status: number; // 0 = network error
+  reason: string;
+};
+
+export interface DirectusClientOptions {
+  retry?: Partial<RetryPolicy>;
+  onRetry?: (event: RetryEvent) => void;
+  signal?: AbortSignal; // Cancels in-flight requests, queued requests and retry waits
+}
+
+/**
+ * Options for paged reads through iterate() / iterateItems()
+ */
+export interface IterateOptions {
+  pageSize?: number; // Rows per request (default 500)
+  filter?: Record<string, any>;
+  fields?: string[];
+  sort?: string[]; // Ignored for keyset paging, which always sorts by keyField
+  paging?: 'offset' | 'keyset'; // keyset stays fast on deep pages but needs a sortable unique key
+  keyField?: string; // Key used for keyset paging (default 'id')
+  limit?: number; // Stop after this many rows in total
+  offset?: number; // Rows to skip first (offset paging only)
+}
+
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Login session obtained through /auth/login, kept so long-running jobs can refresh it
+ */
+interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // Epoch ms, 0 when the server did not report an expiry
+  refreshing?: Promise<string>;
+}
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryStatuses: [429, 502, 503, 504],
+  idempotentMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'PATCH', 'DELETE'],
+};
+
 /**
  * DirectusClient - Replacement for useApi hook from Directus Extensions SDK
  * Provides the same interface but works as standalone client
  * Supports both Bearer token and username/password authentication
  */
 export class DirectusClient {
+  // Throttling is shared per base URL so parallel handlers respect one budget
+  private static schedulers = new Map<string, RequestScheduler>();
+  // Login sessions keyed by base URL + any access token issued for them, so handlers
+  // that build their own clients from (url, token) share the refreshed token
+  private static sessions = new Map<string, AuthSession>();
+
   private baseUrl: string;
   private token: string;
   private authType: 'token' | 'login';
+  private retryPolicy: RetryPolicy;
+  private onRetry?: (event: RetryEvent) => void;
+  private signal?: AbortSignal;
 
-  constructor(baseUrl: string, token: string, authType: 'token' | 'login' = 'token') {
+  constructor(
+    baseUrl: string,
+    token: string,
+    authType: 'token' | 'login' = 'token',
+    options: DirectusClientOptions = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.token = token.replace(/^Bearer\s+/i, ''); // Remove Bearer prefix if present
     this.authType = authType;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.onRetry = options.onRetry;
+    this.signal = options.signal;
+  }
+
+  /**
+   * Configure the concurrency pool and rate limit for every client of a base URL
+   */
+  static configureThrottle(baseUrl: string, config: Partial<ThrottleConfig>): void {
+    DirectusClient.getScheduler(baseUrl).configure(config);
+  }
+
+  static getThrottle(baseUrl: string): ThrottleConfig {
+    return DirectusClient.getScheduler(baseUrl).getConfig();
+  }
+
+  private static getScheduler(baseUrl: string): RequestScheduler {
+    const key = baseUrl.replace(/\/$/, '');
+    let scheduler = DirectusClient.schedulers.get(key);
+    if (!scheduler) {
+      scheduler = new RequestScheduler();
+      DirectusClient.schedulers.set(key, scheduler);
+    }
+    return scheduler;
+  }
+
+  private static sessionKey(baseUrl: string, token: string): string {
+    return `${baseUrl.replace(/\/$/, '')}|${token.replace(/^Bearer\s+/i, '')}`;
+  }
+
+  /**
+   * Resolve the current access token for a (url, token) pair, refreshing a login
+   * session first when it is about to expire. Static tokens are returned unchanged.
+   * Used where requests go through the Directus SDK instead of this client.
+   */
+  static async getAccessToken(baseUrl: string, token: string): Promise<string> {
+    return new DirectusClient(baseUrl, token).getAuthToken();
   }
 
   /**
@@ -23,10 +140,18 @@ export class DirectusClient {
     try {
       const response = await tempClient.post('/auth/login', {
         email,
-        password
+        password,
+        mode: 'json'
       });
       
       if (response.data?.access_token) {
+        if (response.data.refresh_token) {
+          DirectusClient.sessions.set(DirectusClient.sessionKey(baseUrl, response.data.access_token), {
+            accessToken: response.data.access_token,
+            refreshToken: response.data.refresh_token,
+            expiresAt: response.data.expires ? Date.now() + Number(response.data.expires) : 0,
+          });
+        }
         return new DirectusClient(baseUrl, response.data.access_token, 'token');
       } else {
         throw new Error('No access token received from login');
@@ -36,18 +161,178 @@ export class DirectusClient {
     }
   }
 
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+  private getSession(): AuthSession | undefined {
+    return this.token ? DirectusClient.sessions.get(DirectusClient.sessionKey(this.baseUrl, this.token)) : undefined;
+  }
+
+  /**
+   * Current bearer token, refreshed ahead of expiry for login sessions
+   */
+  private async getAuthToken(): Promise<string> {
+    const session = this.getSession();
+    if (!session) {
+      return this.token;
+    }
+    if (session.expiresAt && session.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      return this.refreshSession(session);
+    }
+    return session.accessToken;
+  }
+
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share one in-flight refresh, since Directus rotates the refresh token.
+   */
+  private refreshSession(session: AuthSession): Promise<string> {
+    if (!session.refreshing) {
+      session.refreshing = (async () => {
+        try {
+          const response = await fetch(`${this.baseUrl}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refresh_token: session.refreshToken, mode: 'json' }),
+          });
+          const body = await response.json().catch(() => ({}));
+          if (!response.ok || !body.data?.access_token) {
+            throw new Error(`Session refresh failed: HTTP ${response.status}`);
+          }
+
+          session.accessToken = body.data.access_token;
+          session.refreshToken = body.data.refresh_token || session.refreshToken;
+          session.expiresAt = body.data.expires ? Date.now() + Number(body.data.expires) : 0;
+          DirectusClient.sessions.set(DirectusClient.sessionKey(this.baseUrl, session.accessToken), session);
+          return session.accessToken;
+        } finally {
+          session.refreshing = undefined;
+        }
+      })();
+    }
+    return session.refreshing;
+  }
+
+  /**
+   * Send a request with the current bearer token. A 401 on a login session triggers
+   * one refresh and one replay of the request.
+   */
+  private async authorizedFetch(endpoint: string, config: RequestInit): Promise<Response> {
+    const withAuth = (token: string): RequestInit => {
+      const headers: Record<string, string> = { ...(config.headers as Record<string, string>) };
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      return { ...config, headers };
+    };
+
+    const token = await this.getAuthToken();
+    const response = await this.fetchWithRetry(endpoint, withAuth(token));
+
+    const session = this.getSession();
+    if (response.status !== 401 || !session) {
+      return response;
+    }
+
+    // Another request may already have refreshed the session while this one was in flight
+    const freshToken = session.accessToken !== token ? session.accessToken : await this.refreshSession(session);
+    return this.fetchWithRetry(endpoint, withAuth(freshToken));
+  }
+
+  /**
+   * Decide whether a failed attempt may be replayed.
+   * Non-idempotent methods (POST) are only replayed on 429, where the server
+   * rejected the request before processing it; anything else could create duplicates.
+   * A 429 is only retried while the policy lists it.
+   */
+  private isRetryable(method: string, status: number): boolean {
+    if (status === 429) {
+      return this.retryPolicy.retryStatuses.includes(429);
+    }
+    if (!this.retryPolicy.idempotentMethods.includes(method)) {
+      return false;
+    }
+    return status === 0 || this.retryPolicy.retryStatuses.includes(status);
+  }
+
+  /**
+   * Compute the wait before the next attempt: Retry-After when the server sent one,
+   * otherwise exponential backoff with full jitter
+   */
+  private getRetryDelay(attempt: number, retryAfter: string | null): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const retryAfterMs = Number.isFinite(seconds)
+        ? seconds * 1000
+        : new Date(retryAfter).getTime() - Date.now();
+      if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+        return Math.min(retryAfterMs, this.retryPolicy.maxDelayMs);
+      }
+    }
+
+    const exponential = this.retryPolicy.baseDelayMs * Math.pow(2, attempt - 1);
+    return Math.round(Math.random() * Math.min(exponential, this.retryPolicy.maxDelayMs));
+  }
+
+  /**
+   * fetch() wrapper applying the retry policy.
+   * Returns the last response (ok or not) and only throws for network errors.
+   */
+  private async fetchWithRetry(endpoint: string, config: RequestInit): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
-    
+    const method = (config.method || 'GET').toUpperCase();
+    const { maxAttempts } = this.retryPolicy;
+    const signal = this.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | null = null;
+      let networkError: any = null;
+
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      try {
+        response = await DirectusClient.getScheduler(this.baseUrl).schedule(
+          () => fetch(url, { ...config, signal }),
+          signal
+        );
+      } catch (error: any) {
+        // Cancellation is never retried
+        if (isAbortError(error)) {
+          throw error;
+        }
+        networkError = error;
+      }
+
+      const status = response ? response.status : 0;
+      const failed = networkError || (response && !response.ok);
+
+      if (!failed || attempt >= maxAttempts || !this.isRetryable(method, status)) {
+        if (networkError) {
+          throw networkError;
+        }
+        return response!;
+      }
+
+      const delayMs = this.getRetryDelay(attempt, response?.headers.get('retry-after') ?? null);
+      this.onRetry?.({
+        method,
+        endpoint,
+        attempt,
+        maxAttempts,
+        delayMs,
+        status,
+        reason: networkError ? networkError.message : `HTTP ${status}`,
+      });
+
+      await abortableDelay(delayMs, signal);
+    }
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
     const defaultHeaders: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    // Only add Authorization header if we have a token
-    if (this.token) {
-      defaultHeaders['Authorization'] = `Bearer ${this.token}`;
-    }
-
+    // Authorization is added by authorizedFetch
     const config: RequestInit = {
       ...options,
       headers: {
@@ -57,7 +342,7 @@ export class DirectusClient {
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = await this.authorizedFetch(endpoint, config);
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -114,6 +399,101 @@ export class DirectusClient {
     }
   }
 
+  /**
+   * Read a list endpoint page by page. Yields one array of rows per request,
+   * so callers can process huge collections without holding them in memory.
+   */
+  async *iterate(endpoint: string, options: IterateOptions = {}): AsyncGenerator<any[], void, undefined> {
+    const pageSize = Math.max(1, options.pageSize || DEFAULT_PAGE_SIZE);
+    const keyset = options.paging === 'keyset';
+    const keyField = options.keyField || 'id';
+    const fields = options.fields && keyset && !options.fields.includes(keyField) && !options.fields.includes('*')
+      ? [...options.fields, keyField]
+      : options.fields;
+
+    let offset = keyset ? 0 : options.offset || 0;
+    let lastKey: any = undefined;
+    let remaining = options.limit !== undefined && options.limit >= 0 ? options.limit : Infinity;
+
+    while (remaining > 0) {
+      const limit = Math.min(pageSize, remaining);
+      let filter = options.filter;
+      if (keyset && lastKey !== undefined) {
+        const after = { [keyField]: { _gt: lastKey } };
+        filter = filter ? { _and: [filter, after] } : after;
+      }
+
+      const params: Record<string, any> = { limit, filter };
+      if (fields) {
+        params.fields = fields.join(',');
+      }
+      if (keyset) {
+        params.sort = keyField;
+      } else {
+        params.offset = offset;
+        if (options.sort) {
+          params.sort = options.sort.join(',');
+        }
+      }
+
+      const response = await this.get(endpoint, { params });
+      const rows: any[] = Array.isArray(response?.data) ? response.data : [];
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows;
+
+      remaining -= rows.length;
+      offset += rows.length;
+      lastKey = rows[rows.length - 1]?.[keyField];
+      if (rows.length < limit) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Page through /items/{collection}
+   */
+  iterateItems(collection: string, options: IterateOptions = {}): AsyncGenerator<any[], void, undefined> {
+    return this.iterate(`/items/${collection}`, options);
+  }
+
+  /**
+   * Read every row of a list endpoint through iterate()
+   */
+  async readAll(endpoint: string, options: IterateOptions = {}): Promise<any[]> {
+    const rows: any[] = [];
+    for await (const page of this.iterate(endpoint, options)) {
+      rows.push(...page);
+    }
+    return rows;
+  }
+
+  /**
+   * Count rows of a collection (optionally filtered) without reading them
+   */
+  async countItems(collection: string, filter?: Record<string, any>): Promise<number> {
+    const response = await this.get(`/items/${collection}`, {
+      params: { aggregate: { count: '*' }, filter },
+    });
+    return Number(response?.data?.[0]?.count ?? 0);
+  }
+
+  /**
+   * Name of the primary key field of a collection (falls back to 'id')
+   */
+  async getPrimaryKeyField(collection: string): Promise<string> {
+    try {
+      const response = await this.get(`/fields/${collection}`);
+      const primaryKey = (response?.data || []).find((field: any) => field.schema?.is_primary_key);
+      return primaryKey?.field || 'id';
+    } catch {
+      return 'id';
+    }
+  }
+
   async get(endpoint: string, options: { params?: Record<string, any> } = {}): Promise<any> {
     let url = endpoint;
     
@@ -143,16 +523,8 @@ export class DirectusClient {
    * Download file as Blob (for file migration)
    */
   async getBlob(endpoint: string): Promise<Blob> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const headers: Record<string, string> = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
-    const response = await fetch(url, {
+    const response = await this.authorizedFetch(endpoint, {
       method: 'GET',
-      headers,
     });
 
     if (!response.ok) {
@@ -178,12 +550,7 @@ export class DirectusClient {
     if (data) {
       if (data instanceof FormData) {
         // Remove Content-Type header for FormData (let browser set it with boundary)
-        const formHeaders: Record<string, string> = {};
-        if (this.token) {
-          formHeaders['Authorization'] = `Bearer ${this.token}`;
-        }
         config.headers = {
-          ...formHeaders,
           ...options.headers,
         };
         config.body = data;
@@ -247,6 +614,6 @@ export class DirectusClient {
 
   // Get the current token (useful for API calls that need raw token)
   getToken(): string {
-    return this.token;
+    return this.getSession()?.accessToken ?? this.token;
   }
 }
@@ -3,6 +3,8 @@
  */
 
 import { DirectusClient } from './DirectusClient'
+import { forEachConcurrent, isAbortError } from './requestScheduler'
+import { renamePermission, type RenameMap } from './renameMap'
 
 export interface DirectusRole {
   id: string;
@@ -54,6 +56,8 @@ export interface AccessControlMigrationOptions {
     validateCollections?: boolean;
     skipInvalidPermissions?: boolean;
   };
+  renames?: RenameMap; // Permission collections and fields named differently on the target
+  signal?: AbortSignal; // Stops the migration after the in-flight requests
 }
 
 export interface AccessControlAnalysis {
@@ -89,19 +93,14 @@ export async function fetchAccessControlData(
   try {
     const client = new DirectusClient(baseUrl, token);
     
-    // Fetch basic data first
-    const [rolesResponse, policiesResponse, permissionsResponse, accessResponse] = await Promise.all([
-      client.get('/roles', { params: { limit: -1 } }),
-      client.get('/policies', { params: { limit: -1 } }),
-      client.get('/permissions', { params: { limit: -1 } }),
-      client.get('/access', { params: { limit: -1 } }).catch(() => ({ data: [] })) // Fetch role-policy relationships
+    // Fetch basic data first (paged, permissions can run into the thousands)
+    const [roles, policies, permissions, accessRelations] = await Promise.all([
+      client.readAll('/roles'),
+      client.readAll('/policies'),
+      client.readAll('/permissions', { paging: 'keyset' }),
+      client.readAll('/access').catch(() => []) // Fetch role-policy relationships
     ]);
 
-    const roles = rolesResponse.data || rolesResponse || [];
-    const policies = policiesResponse.data || policiesResponse || [];
-    const permissions = permissionsResponse.data || permissionsResponse || [];
-    const accessRelations = accessResponse.data || accessResponse || [];
-
     // Map access relationships to roles (add policies array to each role)
     const rolesWithPolicies = roles.map((role: any) => {
       const rolePolicies = accessRelations
@@ -184,30 +183,33 @@ export async function importAccessControlData(
   importedRoles?: any[];
   importedPolicies?: any[];
   importedPermissions?: any[];
+  cancelled?: boolean;
 }> {
+  const signal = options?.signal;
+
   try {
-    const client = new DirectusClient(targetUrl, targetToken);
+    const client = new DirectusClient(targetUrl, targetToken, 'token', { signal });
     
     const importedRoles: any[] = [];
     const importedPolicies: any[] = [];
     const importedPermissions: any[] = [];
 
     // Load existing data from target for comparison
-    const [targetRolesRes, targetPoliciesRes, targetPermissionsRes] = await Promise.all([
-      client.get('/roles').catch(() => ({ data: [] })),
-      client.get('/policies').catch(() => ({ data: [] })),
-      client.get('/permissions').catch(() => ({ data: [] }))
+    const [existingRoles, existingPolicies, existingPermissions] = await Promise.all([
+      client.readAll('/roles').catch(() => []),
+      client.readAll('/policies').catch(() => []),
+      client.readAll('/permissions', { paging: 'keyset' }).catch(() => [])
     ]);
 
-    const existingRoles = targetRolesRes.data || [];
-    const existingPolicies = targetPoliciesRes.data || [];
-    const existingPermissions = targetPermissionsRes.data || [];
+    // Entries within a step run in parallel; the steps themselves stay in order
+    // because policies, permissions and access rows reference each other
+    const concurrency = DirectusClient.getThrottle(targetUrl).maxConcurrent;
 
     // Step 1: Import Roles
-    for (const role of sourceRoles) {
+    await forEachConcurrent(sourceRoles, concurrency, async (role) => {
       try {
         if (options?.roles?.skipAdminRoles && role.admin_access) {
-          continue;
+          return;
         }
 
         const { users, policies, ...cleanRole } = role; // Remove users and policies arrays - they're managed via directus_access junction table
@@ -240,6 +242,9 @@ export async function importAccessControlData(
           status: 'success'
         });
       } catch (error: any) {
+        if (isAbortError(error)) {
+          return;
+        }
         importedRoles.push({
           originalId: role.id,
           newId: '',
@@ -248,13 +253,13 @@ export async function importAccessControlData(
           error: error.message
         });
       }
-    }
+    }, signal);
 
     // Step 2: Import Policies
-    for (const policy of sourcePolicies) {
+    await forEachConcurrent(sourcePolicies, concurrency, async (policy) => {
       try {
         if (options?.policies?.skipAdminPolicies && policy.admin_access) {
-          continue;
+          return;
         }
 
         const { users, roles, permissions, ...cleanPolicy } = policy; // Remove users, roles, and permissions arrays - they're managed via junction tables
@@ -291,6 +296,9 @@ export async function importAccessControlData(
           status: 'success'
         });
       } catch (error: any) {
+        if (isAbortError(error)) {
+          return;
+        }
         importedPolicies.push({
           originalId: policy.id,
           newId: '',
@@ -299,15 +307,16 @@ export async function importAccessControlData(
           error: error.message
         });
       }
-    }
+    }, signal);
 
     // Step 3: Import Permissions (simplified - create new IDs)
     let successfulPermissions = 0;
     
-    for (const permission of sourcePermissions) {
+    await forEachConcurrent(sourcePermissions, concurrency, async (sourcePermission) => {
+      const permission = renamePermission(options?.renames, sourcePermission);
       try {
         if (options?.permissions?.skipInvalidPermissions && !permission.policy) {
-          continue;
+          return;
         }
 
         // Verify that the policy exists in target (either pre-existing or just imported)
@@ -324,7 +333,7 @@ export async function importAccessControlData(
               status: 'skipped',
               error: `Policy ${permission.policy} not found in target`
             });
-            continue;
+            return;
           }
         }
 
@@ -380,6 +389,9 @@ export async function importAccessControlData(
 
         successfulPermissions++;
       } catch (error: any) {
+        if (isAbortError(error)) {
+          return;
+        }
         importedPermissions.push({
           originalId: permission.id,
           newId: 0,
@@ -389,21 +401,20 @@ export async function importAccessControlData(
           error: error.message
         });
       }
-    }
+    }, signal);
 
     // Step 4: Import Role-Policy Relationships (directus_access)
     const importedAccess: any[] = [];
     let successfulAccess = 0;
     
     // Fetch existing access relationships from target
-    const targetAccessRes = await client.get('/access').catch(() => ({ data: [] }));
-    const existingAccess = targetAccessRes.data || [];
+    const existingAccess = await client.readAll('/access').catch(() => []);
     
     // Build access relationships from source roles that have policies
-    for (const role of sourceRoles) {
+    await forEachConcurrent(sourceRoles, concurrency, async (role) => {
       // Skip if role doesn't have policies array or it's empty
       if (!role.policies || !Array.isArray(role.policies) || role.policies.length === 0) {
-        continue;
+        return;
       }
       
       for (const policyId of role.policies) {
@@ -433,7 +444,7 @@ export async function importAccessControlData(
             sort: null
           };
           
-          const response = await client.post('/access', accessData);
+          await client.post('/access', accessData);
           
           importedAccess.push({
             role: role.id,
@@ -443,6 +454,9 @@ export async function importAccessControlData(
           
           successfulAccess++;
         } catch (error: any) {
+          if (isAbortError(error)) {
+            return;
+          }
           importedAccess.push({
             role: role.id,
             policy: policyId,
@@ -451,11 +465,22 @@ export async function importAccessControlData(
           });
         }
       }
-    }
+    }, signal);
 
     const successfulRoles = importedRoles.filter(r => r.status === 'success').length;
     const successfulPolicies = importedPolicies.filter(p => p.status === 'success').length;
 
+    if (signal?.aborted) {
+      return {
+        success: false,
+        cancelled: true,
+        message: `Access control migration cancelled after ${successfulRoles} roles, ${successfulPolicies} policies, ${successfulPermissions} permissions, and ${successfulAccess} access relationships`,
+        importedRoles,
+        importedPolicies,
+        importedPermissions
+      };
+    }
+
     return {
       success: true,
       message: `Successfully imported ${successfulRoles} roles, ${successfulPolicies} policies, ${successfulPermissions} permissions, and ${successfulAccess} access relationships`,
@@ -465,6 +490,13 @@ export async function importAccessControlData(
     };
 
   } catch (error: any) {
+    if (isAbortError(error)) {
+      return {
+        success: false,
+        cancelled: true,
+        message: 'Access control migration cancelled'
+      };
+    }
     return {
       success: false,
       message: `Access control migration failed: ${error.message}`
@@ -1,44 +1,25 @@
 import { createDirectus, readItems, rest, staticToken, readRelations } from "@directus/sdk";
 import { DirectusClient } from "./DirectusClient";
+import { forEachConcurrent, isAbortError } from "./requestScheduler";
+import {
+  getSyncState,
+  saveSyncState,
+  detectTimestampFields,
+  buildChangedSinceFilter,
+  getItemTimestamp,
+  hashItem,
+  type CollectionSyncState,
+  type SyncMode,
+  type TimestampFields,
+} from "./syncState";
+import { getMatchKey, getMatchValue, buildMatchFilter } from "./matchKeys";
+import { saveIdMap, MigrationIdMap, createForeignKeyRewriter, type CollectionIdMap } from "./idMap";
+import { getRenameMap, renameCollection, renameField, renameItemFields, type RenameMap } from "./renameMap";
+import { applyFieldTransforms, getTransformedSelection, type FieldTransform } from "./fieldTransforms";
+import { loadFieldConstraints, preparePayload, describeViolations, type FieldConstraints, type InvalidRowAction } from "./payloadValidation";
+import { getRelatedRowsPlans, stripRelatedAliases, getJunctionMatchKey, groupLinkedItems, type RelatedRowsPlan } from "./relationalCopy";
 import type { ImportLogEntry } from "../types";
 
-interface Translation {
-  languages_code: string;
-  title: string | { value: string };
-  body: string | { value: string } | null;
-  [key: string]: any;
-}
-
-interface BaseItem {
-  id: number | string;
-  title?: string;
-  status: number | string;
-  date?: string;
-  date_created?: string;
-  counter?: number;
-  url?: string;
-  path?: string;
-  sort?: number;
-  client?: any;
-  site?: any;
-  services?: any;
-  body?: any;
-  image?: string | null;
-  audio?: string | null;
-  video?: string | string[] | null;
-  videoFiles?: (string | { id: string })[];
-  media?: Array<{
-    url: string;
-    filename: string;
-    type: string;
-    type_short: string;
-    id: number;
-    description: string;
-    field_name: string;
-  }>;
-  translations?: Translation[];
-}
-
 interface ImportedItem {
   originalId: string | number;
   newId?: string | number;
@@ -58,8 +39,19 @@ interface ImportResult {
   importedItems?: ImportedItem[];
   error?: any;
   importLog?: ImportLogEntry[];
+  cancelled?: boolean; // Stopped through the signal; importedItems holds what finished before
+  idMap?: CollectionIdMap; // Source id -> target id of every item written
+  relatedRows?: RelatedRowsResult[]; // Relational copy outcome per O2M alias
 }
 
+// Keeps the `_in` filter of a selected-items read well below URL length limits
+const SELECTED_IDS_PER_REQUEST = 100;
+
+// Items per batch POST/PATCH (and per existence check) when writing to the target
+const DEFAULT_WRITE_BATCH_SIZE = 100;
+
+const ID_MAP_NOT_SAVED = "the ID map did not fit in browser storage, later runs cannot rewrite foreign keys to these items";
+
 interface ValidationResult {
   success: boolean;
   message: string;
@@ -175,11 +167,11 @@ export async function testCollectionAccess(
   try {
     const normalizedToken = adminToken.replace(/^Bearer\s+/i, "");
     const sourceDirectus = createDirectus(selectedDomain)
-      .with(staticToken(normalizedToken))
+      .with(staticToken(await DirectusClient.getAccessToken(selectedDomain, normalizedToken)))
       .with(rest());
 
     try {
-      const testResult = await sourceDirectus.request(
+      await sourceDirectus.request(
         (readItems as any)(collectionName, { limit: 1 }),
       );
 
@@ -274,6 +266,555 @@ export async function testMultipleCollections(
   };
 }
 
+/**
+ * Pair rows created without a source id with the items they came from, by match value.
+ * Items with an empty match key take the remaining rows without one, in order.
+ */
+function pairCreatedRows(items: { matchValue?: string }[], rows: any[], matchKey: string[]): any[] {
+  const byValue = new Map<string, any[]>();
+  const unkeyed: any[] = [];
+  rows.forEach((row) => {
+    const value = row ? getMatchValue(row, matchKey) : undefined;
+    if (value === undefined) {
+      unkeyed.push(row);
+    } else {
+      byValue.set(value, [...(byValue.get(value) || []), row]);
+    }
+  });
+  return items.map(({ matchValue }) =>
+    matchValue !== undefined ? byValue.get(matchValue)?.shift() : unkeyed.shift()
+  );
+}
+
+/**
+ * Write a set of source items to the target collection.
+ * One `_in` query per chunk decides create vs update, then creates go out as batch
+ * POSTs and updates as batch PATCHes. Directus runs a batch in one transaction, so a
+ * failed batch is replayed item by item to pin the error on the offending items.
+ * With a match key, existing rows are found by that natural key instead of the primary
+ * key, and new rows are created without the source id so the target assigns its own.
+ * Field transforms run first on each item. Items, selected fields and the match key
+ * use source names; the rename map turns them into the target's collection and field
+ * names. With pre-flight constraints, rows breaking them are coerced or skipped before
+ * they are sent.
+ */
+async function writeItemBatch(
+  targetClient: DirectusClient,
+  sourceCollection: string,
+  sourceItems: any[],
+  options: {
+    primaryKey?: string; // Source primary key field (defaults to id)
+    selectedFields?: string[];
+    batchSize?: number;
+    matchKey?: string[];
+    renames?: RenameMap;
+    transforms?: FieldTransform[];
+    preflight?: { constraints: FieldConstraints; action: InvalidRowAction };
+    concurrency?: number; // Batches in flight at once (default 1, in source order)
+    signal?: AbortSignal;
+    onResults: (results: ImportedItem[]) => void;
+  },
+  logStep: (step: string, details: Record<string, unknown>) => void,
+): Promise<void> {
+  const batchSize = Math.max(1, options.batchSize || DEFAULT_WRITE_BATCH_SIZE);
+  const collectionName = renameCollection(options.renames, sourceCollection);
+  const sourceKey = options.primaryKey || "id";
+  const primaryKey = renameField(options.renames, sourceCollection, sourceKey);
+  const matchKey = options.matchKey?.map((field) => renameField(options.renames, sourceCollection, field));
+  const selectedFields = options.selectedFields && getTransformedSelection(options.selectedFields, options.transforms);
+
+  const prepared = sourceItems.map((item) => {
+    // Remove the primary key and system fields
+    const { [sourceKey]: id, ...withoutKey } = item;
+    const { date_created, date_updated, user_created, user_updated, ...sourceItem } = withoutKey;
+    const cleanItem = applyFieldTransforms(sourceItem, options.transforms);
+
+    let payload: Record<string, any> = {};
+    if (selectedFields && selectedFields.length > 0) {
+      // Only migrate selected fields - user has full control
+      selectedFields.forEach(field => {
+        if (field in cleanItem) {
+          payload[field] = cleanItem[field];
+        }
+      });
+    } else {
+      // Migrate all fields (user didn't select specific fields)
+      payload = { ...cleanItem };
+    }
+    const target = renameItemFields(options.renames, sourceCollection, cleanItem);
+    return {
+      id,
+      payload: renameItemFields(options.renames, sourceCollection, payload),
+      target,
+      matchValue: matchKey ? getMatchValue(target, matchKey) : undefined,
+      targetId: undefined as string | number | undefined,
+    };
+  });
+
+  const batches: Array<{ action: "created" | "updated"; items: typeof prepared }> = [];
+  for (let start = 0; start < prepared.length; start += batchSize) {
+    const chunk = prepared.slice(start, start + batchSize);
+
+    // One query tells which items of the chunk already exist in the target
+    try {
+      if (matchKey) {
+        // Items with an empty match key can't be matched and are always created
+        const matchable = chunk.filter(({ matchValue }) => matchValue !== undefined);
+        const existing = matchable.length > 0
+          ? await targetClient.readAll(`/items/${collectionName}`, {
+              filter: buildMatchFilter(matchable.map(({ target }) => target), matchKey),
+              fields: [primaryKey, ...matchKey],
+              pageSize: matchable.length,
+            })
+          : [];
+        const targetIds = new Map<string, string | number>();
+        existing.forEach((row: any) => {
+          const value = getMatchValue(row, matchKey);
+          if (value !== undefined && !targetIds.has(value)) {
+            targetIds.set(value, row[primaryKey]);
+          }
+        });
+        chunk.forEach((item) => {
+          item.targetId = item.matchValue !== undefined ? targetIds.get(item.matchValue) : undefined;
+        });
+        logStep("items_exist_check", { collectionName, matchKey, checked: matchable.length, existing: targetIds.size });
+      } else {
+        const ids = chunk.map(({ id }) => id);
+        const existing = await targetClient.readAll(`/items/${collectionName}`, {
+          filter: { [primaryKey]: { _in: ids } },
+          fields: [primaryKey],
+          pageSize: ids.length,
+        });
+        const existingIds = new Set(existing.map((row: any) => String(row[primaryKey])));
+        chunk.forEach((item) => {
+          item.targetId = existingIds.has(String(item.id)) ? item.id : undefined;
+        });
+        logStep("items_exist_check", { collectionName, checked: ids.length, existing: existingIds.size });
+      }
+    } catch (checkErr: any) {
+      if (isAbortError(checkErr)) {
+        throw checkErr;
+      }
+      // Treat the chunk as new; creates that collide fall back to per-item errors
+      logStep("items_exist_check_failed", { collectionName, checked: chunk.length, error: checkErr.message });
+    }
+
+    const preflight = options.preflight;
+    const valid = preflight ? chunk.filter((item) => {
+      const created = item.targetId === undefined;
+      const { payload, violations } = preparePayload(item.payload, preflight.constraints, preflight.action, created);
+      if (violations.length === 0) {
+        item.payload = payload;
+        return true;
+      }
+      logStep("item_skipped_preflight", { sourceId: String(item.id), collectionName, violations });
+      options.onResults([{
+        originalId: item.id,
+        status: "error",
+        error: { message: `Skipped by pre-flight check: ${describeViolations(violations)}`, details: violations },
+      }]);
+      return false;
+    }) : chunk;
+
+    const toCreate = valid.filter(({ targetId }) => targetId === undefined);
+    const toUpdate = valid.filter(({ targetId }) => targetId !== undefined);
+    if (toCreate.length > 0) {
+      batches.push({ action: "created", items: toCreate });
+    }
+    if (toUpdate.length > 0) {
+      batches.push({ action: "updated", items: toUpdate });
+    }
+  }
+
+  // Created rows come back sorted by the target, so they must carry their match key to be paired
+  const createEndpoint = matchKey
+    ? `/items/${collectionName}?fields=${encodeURIComponent(["*", ...matchKey].join(","))}`
+    : `/items/${collectionName}`;
+
+  await forEachConcurrent(batches, options.concurrency || 1, async ({ action, items }) => {
+    const body = items.map(({ id, payload, targetId }) =>
+      action === "updated" ? { [primaryKey]: targetId, ...payload } : matchKey ? payload : { [primaryKey]: id, ...payload }
+    );
+
+    try {
+      const response = action === "created"
+        ? await targetClient.post(createEndpoint, body)
+        : await targetClient.patch(`/items/${collectionName}`, body);
+      const rows: any[] = Array.isArray(response?.data) ? response.data : [];
+
+      logStep(action === "updated" ? "batch_updated" : "batch_imported", {
+        collectionName,
+        count: items.length,
+      });
+      const createdRows = action === "created" && matchKey ? pairCreatedRows(items, rows, matchKey) : undefined;
+      options.onResults(items.map(({ id, targetId }, index) => {
+        const row = createdRows
+          ? createdRows[index]
+          : rows.find((r) => String(r?.[primaryKey]) === String(targetId ?? id)) ?? rows[index];
+        return {
+          originalId: id,
+          newId: row?.[primaryKey] ?? targetId ?? id,
+          status: "success" as const,
+          action,
+          data: row,
+        };
+      }));
+      return;
+    } catch (batchError: any) {
+      if (isAbortError(batchError)) {
+        throw batchError;
+      }
+      logStep("batch_write_failed", {
+        collectionName,
+        action,
+        count: items.length,
+        error: batchError.message,
+        status: batchError.response?.status,
+      });
+    }
+
+    // Replay the failed batch one item at a time
+    for (const { id, payload, targetId } of items) {
+      try {
+        const response = action === "created"
+          ? await targetClient.post(createEndpoint, matchKey ? payload : { [primaryKey]: id, ...payload })
+          : await targetClient.patch(`/items/${collectionName}/${encodeURIComponent(String(targetId))}`, payload);
+        options.onResults([{
+          originalId: id,
+          newId: response.data?.[primaryKey] ?? targetId,
+          status: "success",
+          action,
+          data: response.data,
+        }]);
+      } catch (itemError: any) {
+        if (isAbortError(itemError)) {
+          throw itemError;
+        }
+        logStep(action === "updated" ? "item_update_failed" : "item_create_failed", {
+          sourceId: String(id),
+          collectionName,
+          error: itemError?.message,
+          status: itemError?.response?.status,
+          details: itemError?.response?.data
+        });
+
+        // Only log 403 errors to console (permission issues)
+        if (action === "created" && itemError?.response?.status === 403) {
+          console.error(`\n❌ 403 FORBIDDEN - Cannot create ${collectionName} item ${id}`);
+          console.error(`📋 Full error response:`, JSON.stringify(itemError?.response?.data, null, 2));
+          console.error(`📦 Payload:`, JSON.stringify(payload, null, 2));
+
+          const errorMsg = itemError?.response?.data?.errors?.[0];
+          if (errorMsg?.extensions?.collection) {
+            console.error(`\n💡 Missing READ permission on: "${errorMsg.extensions.collection}"`);
+          } else if (errorMsg?.message) {
+            console.error(`\n💡 Error: ${errorMsg.message}`);
+          }
+
+          console.error(`\n🔍 Check: Flows, Hooks, or Database permissions\n`);
+        }
+
+        options.onResults([{
+          originalId: id,
+          status: "error",
+          error: {
+            message: itemError.message,
+            status: itemError.response?.status,
+            details: itemError.response?.data,
+          },
+        }]);
+      }
+    }
+  }, options.signal);
+}
+
+interface RelatedRowsResult {
+  alias: string;
+  collection: string;
+  copied: number;
+  failed: number;
+  removed: number;
+}
+
+/**
+ * Copy the junction rows and O2M children of written parents. Items an M2M or M2A
+ * junction points at are upserted first, then the rows are written with their foreign keys
+ * rewritten to target ids. When every row of an alias was written, target rows still
+ * linked to these parents but gone from the source are deleted or unlinked.
+ */
+async function copyRelatedRows(
+  sourceClient: DirectusClient,
+  targetClient: DirectusClient,
+  collectionName: string,
+  parentIds: CollectionIdMap, // Source id -> target id of the parents written
+  plans: RelatedRowsPlan[],
+  context: {
+    sourceUrl: string;
+    targetUrl: string;
+    relations: any[];
+    idMaps: MigrationIdMap;
+    renames?: RenameMap;
+    batchSize?: number;
+    concurrency: number;
+    signal?: AbortSignal;
+  },
+  logStep: (step: string, details: Record<string, unknown>) => void,
+): Promise<RelatedRowsResult[]> {
+  const { relations, idMaps, renames } = context;
+  const sourceParentIds = Object.keys(parentIds);
+  const targetParentIds = Object.values(parentIds);
+  const results: RelatedRowsResult[] = [];
+  if (sourceParentIds.length === 0) {
+    return results;
+  }
+
+  // Upsert a set of source items into another collection and record their target ids
+  const writeRows = async (collection: string, rows: any[], matchKey?: string[]) => {
+    const rewrite = createForeignKeyRewriter(collection, relations, idMaps, renames);
+    const rowPlans = getRelatedRowsPlans(collection, relations);
+    const written: CollectionIdMap = {};
+    let failed = 0;
+    await writeItemBatch(
+      targetClient,
+      collection,
+      rows.map((row) => stripRelatedAliases(rewrite ? rewrite(row) : row, rowPlans)),
+      {
+        primaryKey: await sourceClient.getPrimaryKeyField(collection),
+        batchSize: context.batchSize,
+        matchKey: getMatchKey(context.sourceUrl, context.targetUrl, collection) || matchKey,
+        renames,
+        concurrency: context.concurrency,
+        signal: context.signal,
+        onResults: (itemResults) => itemResults.forEach((result) => {
+          if (result.status === "success" && result.newId !== undefined) {
+            written[String(result.originalId)] = result.newId;
+            idMaps.set(collection, result.originalId, result.newId);
+          } else {
+            failed++;
+          }
+        }),
+      },
+      logStep,
+    );
+    if (!saveIdMap(context.sourceUrl, context.targetUrl, collection, written)) {
+      logStep("id_map_not_saved", { collectionName: collection, items: Object.keys(written).length, reason: "Storage quota exceeded" });
+    }
+    return { written, failed };
+  };
+
+  const readByKeys = async (client: DirectusClient, collection: string, field: string, keys: any[], fields?: string[]) => {
+    const rows: any[] = [];
+    for (let start = 0; start < keys.length; start += SELECTED_IDS_PER_REQUEST) {
+      const chunk = keys.slice(start, start + SELECTED_IDS_PER_REQUEST);
+      rows.push(...await client.readAll(`/items/${collection}`, {
+        filter: { [field]: { _in: chunk } },
+        fields,
+        pageSize: DEFAULT_WRITE_BATCH_SIZE,
+      }));
+    }
+    return rows;
+  };
+
+  for (const plan of plans) {
+    const result: RelatedRowsResult = { alias: plan.alias, collection: plan.collection, copied: 0, failed: 0, removed: 0 };
+    results.push(result);
+
+    try {
+      const sourceRows = await readByKeys(sourceClient, plan.collection, plan.parentField, sourceParentIds);
+
+      // Items an M2M or M2A links to must exist on the target before the junction rows
+      for (const [related, relatedIds] of groupLinkedItems(plan, sourceRows)) {
+        if (related.startsWith("directus_")) {
+          continue;
+        }
+        const relatedKey = await sourceClient.getPrimaryKeyField(related);
+        if (relatedKey === "id") {
+          const relatedRows = await readByKeys(sourceClient, related, "id", relatedIds);
+          const { failed } = await writeRows(related, relatedRows);
+          logStep("related_items_copied", { collectionName: related, count: relatedRows.length, failed });
+        } else {
+          // e.g. languages keyed by code: expected to exist on the target already
+          logStep("related_items_skipped", { collectionName: related, primaryKey: relatedKey, count: relatedIds.length });
+        }
+      }
+
+      const { written, failed } = await writeRows(plan.collection, sourceRows, getJunctionMatchKey(plan));
+      result.copied = Object.keys(written).length;
+      result.failed = failed;
+      logStep("related_rows_copied", { collectionName, alias: plan.alias, relatedCollection: plan.collection, copied: result.copied, failed });
+
+      // Stale links are only reconciled when nothing failed, so a failed row is never mistaken for a removed one
+      if (failed > 0 || context.signal?.aborted) {
+        logStep("related_reconcile_skipped", { collectionName, alias: plan.alias, failed });
+        continue;
+      }
+      const keep = new Set(Object.values(written).map(String));
+      const targetCollection = renameCollection(renames, plan.collection);
+      const targetParentField = renameField(renames, plan.collection, plan.parentField);
+      const targetKey = await targetClient.getPrimaryKeyField(targetCollection);
+      const targetRows = await readByKeys(targetClient, targetCollection, targetParentField, targetParentIds, [targetKey]);
+      const staleIds = targetRows.map((row) => row[targetKey]).filter((id) => !keep.has(String(id)));
+      if (staleIds.length > 0) {
+        if (plan.deselectAction === "delete") {
+          await targetClient.delete(`/items/${targetCollection}`, { body: JSON.stringify(staleIds) });
+        } else {
+          await targetClient.patch(`/items/${targetCollection}`, { keys: staleIds, data: { [targetParentField]: null } });
+        }
+        result.removed = staleIds.length;
+        logStep("related_rows_reconciled", { collectionName, alias: plan.alias, action: plan.deselectAction, count: staleIds.length });
+      }
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      result.failed = Math.max(result.failed, 1);
+      logStep("related_rows_failed", { collectionName, alias: plan.alias, error: error.message, status: error.response?.status });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * How an incremental sync reads a collection: by timestamp watermark when the
+ * collection has date_updated/date_created, otherwise by comparing content hashes
+ */
+interface IncrementalSyncPlan {
+  mode: SyncMode;
+  timestamps: TimestampFields;
+  previous: CollectionSyncState | null; // Only set when it was recorded in the same mode
+  filter?: Record<string, any>;
+}
+
+async function planIncrementalSync(
+  sourceClient: DirectusClient,
+  sourceUrl: string,
+  targetUrl: string,
+  collectionName: string,
+): Promise<IncrementalSyncPlan> {
+  const fieldsResponse = await sourceClient.get(`/fields/${collectionName}`).catch(() => ({ data: [] }));
+  const timestamps = detectTimestampFields(fieldsResponse?.data || []);
+  const mode: SyncMode = timestamps.updated || timestamps.created ? "timestamp" : "hash";
+
+  const saved = getSyncState(sourceUrl, targetUrl, collectionName);
+  const previous = saved?.mode === mode ? saved : null;
+
+  return {
+    mode,
+    timestamps,
+    previous,
+    filter: mode === "timestamp" && previous?.watermark
+      ? buildChangedSinceFilter(timestamps, previous.watermark)
+      : undefined,
+  };
+}
+
+/**
+ * Persist the outcome of an incremental sync. The watermark only moves forward when
+ * every changed item was written, otherwise failed items would be skipped next time.
+ * Hashes are recorded per written item, so failed items stay "changed". Returns a
+ * warning when the state did not fit in storage.
+ */
+function saveIncrementalSync(
+  plan: IncrementalSyncPlan,
+  outcome: {
+    sourceUrl: string;
+    targetUrl: string;
+    collectionName: string;
+    latestTimestamp?: string;
+    hashes: Record<string, string>;
+    complete: boolean;
+  },
+  logStep: (step: string, details: Record<string, unknown>) => void,
+): string | undefined {
+  const { sourceUrl, targetUrl, collectionName } = outcome;
+
+  if (plan.mode === "hash") {
+    const stored = saveSyncState(sourceUrl, targetUrl, collectionName, {
+      mode: "hash",
+      hashes: outcome.hashes,
+      lastSyncAt: new Date().toISOString(),
+    });
+    if (!stored) {
+      logStep("sync_hashes_dropped", { collectionName, items: Object.keys(outcome.hashes).length, reason: "Storage quota exceeded" });
+      return "sync hashes did not fit in browser storage, the next sync compares every item";
+    }
+    logStep("sync_state_saved", { collectionName, mode: "hash", items: Object.keys(outcome.hashes).length });
+    return undefined;
+  }
+
+  if (!outcome.complete) {
+    logStep("watermark_not_advanced", {
+      collectionName,
+      watermark: plan.previous?.watermark,
+      reason: "Some items failed or the import was limited",
+    });
+    return undefined;
+  }
+
+  if (!saveSyncState(sourceUrl, targetUrl, collectionName, {
+    mode: "timestamp",
+    watermark: outcome.latestTimestamp,
+    lastSyncAt: new Date().toISOString(),
+  })) {
+    logStep("sync_state_not_saved", { collectionName, reason: "Storage quota exceeded" });
+    return "the sync watermark did not fit in browser storage";
+  }
+  logStep("sync_state_saved", { collectionName, mode: "timestamp", watermark: outcome.latestTimestamp });
+  return undefined;
+}
+
+/**
+ * Count the source items an incremental sync would import
+ */
+export async function countChangedItems(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  collectionName: string,
+): Promise<{
+  success: boolean;
+  mode?: SyncMode;
+  changed?: number;
+  total?: number;
+  lastSyncAt?: string;
+  error?: any;
+}> {
+  try {
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken);
+    const plan = await planIncrementalSync(sourceClient, sourceUrl, targetUrl, collectionName);
+    const total = await sourceClient.countItems(collectionName);
+
+    let changed = total;
+    if (plan.mode === "timestamp" && plan.filter) {
+      changed = await sourceClient.countItems(collectionName, plan.filter);
+    } else if (plan.mode === "hash" && plan.previous?.hashes) {
+      changed = 0;
+      const primaryKey = await sourceClient.getPrimaryKeyField(collectionName);
+      for await (const page of sourceClient.iterateItems(collectionName, { paging: "keyset", keyField: primaryKey })) {
+        changed += page.filter((item) => plan.previous?.hashes?.[String(item[primaryKey])] !== hashItem(item)).length;
+      }
+    }
+
+    return {
+      success: true,
+      mode: plan.mode,
+      changed,
+      total,
+      lastSyncAt: plan.previous?.lastSyncAt,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        status: error.response?.status,
+        details: error.response?.data,
+      },
+    };
+  }
+}
+
 /**
  * Imports data from another Directus instance
  */
@@ -289,6 +830,18 @@ export async function importFromDirectus(
     onProgress?: (current: number, total: number) => void;
     selectedFields?: string[]; // Only migrate selected fields
     forceUpdate?: boolean; // Force update even if item exists
+    pageSize?: number; // Source rows read per request
+    batchSize?: number; // Items per batch write to the target
+    writeConcurrency?: number; // Batches written at the same time; 1 (default) keeps the source order
+    matchKey?: string[]; // Natural key to match target rows (defaults to the saved match key)
+    relations?: any[]; // Source relations, loaded when not given
+    idMaps?: MigrationIdMap; // Shared across a multi-collection run
+    deferredFields?: string[]; // Written as null; a second pass patches them once every row exists
+    incremental?: boolean; // Only import items changed since the last sync
+    renames?: RenameMap; // Target collection/field names (defaults to the saved rename map)
+    invalidRows?: InvalidRowAction; // Check every item against the target's field constraints first
+    transforms?: FieldTransform[]; // Value transforms the user has previewed; none when not given
+    signal?: AbortSignal; // Stops the import; items already written are kept
   }
 ): Promise<ImportResult> {
   const importLog: ImportLogEntry[] = [];
@@ -340,15 +893,20 @@ export async function importFromDirectus(
     });
 
     // Create clients
-    const normalizedSourceToken = sourceToken.replace(/^Bearer\s+/i, "");
-    const sourceDirectus = createDirectus(sourceUrl)
-      .with(staticToken(normalizedSourceToken))
-      .with(rest());
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', {
+      onRetry: (event) => logStep("request_retry", event),
+      signal: options?.signal,
+    });
 
-    const targetClient = new DirectusClient(targetUrl, targetToken);
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', {
+      onRetry: (event) => logStep("request_retry", event),
+      signal: options?.signal,
+    });
 
-    // Ensure target folder exists (name: collectionName) and get its ID
-    const targetFolderName = collectionName;
+    // Ensure target folder exists (named after the target collection) and get its ID
+    const renames = options?.renames || getRenameMap(sourceUrl, targetUrl);
+    const targetCollection = renameCollection(renames, collectionName);
+    const targetFolderName = targetCollection;
     let targetFolderId: string | null = null;
     try {
       const findFolderRes = await targetClient.get("/folders", {
@@ -372,12 +930,9 @@ export async function importFromDirectus(
       logStep("target_folder_error", { name: targetFolderName, error: folderErr.message });
     }
 
-    // Fetch data from source server
+    // Count source rows first so progress has a total without reading the collection
     logStep("fetch_data_start", { collectionName, titleFilter: options?.titleFilter });
-    const fetchLimit = typeof options?.limit === "number" && options.limit > 0 ? options.limit : -1;
-    
-    // Build query parameters
-    const queryParams: any = { limit: fetchLimit };
+    const fetchLimit = typeof options?.limit === "number" && options.limit > 0 ? options.limit : undefined;
     
     // Note: titleFilter is intentionally NOT applied here to avoid filtering issues
     // with collections that don't have a 'translations' field structure.
@@ -390,23 +945,34 @@ export async function importFromDirectus(
       });
     }
     
-    const response = await sourceDirectus.request(
-      (readItems as any)(collectionName, queryParams),
-    );
+    // Incremental mode narrows the read to items changed since the last sync
+    const syncPlan = options?.incremental
+      ? await planIncrementalSync(sourceClient, sourceUrl, targetUrl, collectionName)
+      : null;
+    if (syncPlan) {
+      logStep("incremental_sync", {
+        collectionName,
+        mode: syncPlan.mode,
+        watermark: syncPlan.previous?.watermark,
+        lastSyncAt: syncPlan.previous?.lastSyncAt,
+      });
+    }
 
-    // Ensure sourceItems is always an array
-    const sourceItems = Array.isArray(response) ? response : [];
+    const sourceCount = await sourceClient.countItems(collectionName, syncPlan?.filter);
+    const totalItems = fetchLimit !== undefined ? Math.min(fetchLimit, sourceCount) : sourceCount;
 
     logStep("fetch_data_success", {
-      itemCount: sourceItems.length,
+      itemCount: totalItems,
       collectionName,
     });
 
-    if (sourceItems.length === 0) {
-      logStep("collection_empty", { collectionName });
+    if (totalItems === 0) {
+      logStep("collection_empty", { collectionName, incremental: !!syncPlan });
       return {
         success: true,
-        message: `Collection '${collectionName}' is empty on the source server`,
+        message: syncPlan?.filter
+          ? `No changes in '${collectionName}' since the last sync`
+          : `Collection '${collectionName}' is empty on the source server`,
         importedItems: [],
         importLog,
       };
@@ -414,174 +980,198 @@ export async function importFromDirectus(
 
     // Import items to target server
     logStep("import_items_start", {
-      itemCount: sourceItems.length,
+      itemCount: totalItems,
       collectionName,
     });
 
     const importedItems: ImportedItem[] = [];
+    const idMap: CollectionIdMap = {};
     let successCount = 0;
     let errorCount = 0;
 
-    const itemsToImport = typeof options?.limit === "number" && options.limit > 0 
-      ? sourceItems.slice(0, options.limit) 
-      : sourceItems;
-
-    const totalItems = itemsToImport.length;
-    
-    for (let i = 0; i < itemsToImport.length; i++) {
-      const item = itemsToImport[i];
-      
-      // Report progress
-      if (options?.onProgress) {
-        options.onProgress(i + 1, totalItems);
+    // Batches go out one after another unless asked otherwise: parents before the
+    // children referencing them, and rows in their sort order
+    const concurrency = Math.max(1, options?.writeConcurrency || 1);
+    const matchKey = options?.matchKey || getMatchKey(sourceUrl, targetUrl, collectionName);
+
+    // Relational values pointing at remapped items are rewritten to target ids
+    const idMaps = options?.idMaps || new MigrationIdMap(sourceUrl, targetUrl);
+    const relations = options?.relations || (await getRelations(sourceUrl, sourceToken)).relations || [];
+    const rewriteForeignKeys = createForeignKeyRewriter(collectionName, relations, idMaps, renames);
+    const deferredFields = options?.deferredFields || [];
+    const prepareItem = (item: any) => {
+      const rewritten = rewriteForeignKeys ? rewriteForeignKeys(item) : item;
+      if (deferredFields.length === 0) {
+        return rewritten;
       }
-      
-      try {
-        // Remove system fields
-        const { id, date_created, date_updated, user_created, user_updated, ...cleanItem } = item;
-
-        // Prepare item to import
-        let itemToImport: Record<string, any> = {};
-        
-        if (options?.selectedFields && options.selectedFields.length > 0) {
-          // Only migrate selected fields - user has full control
-          options.selectedFields.forEach(field => {
-            if (field in cleanItem) {
-              itemToImport[field] = cleanItem[field];
-            }
-          });
-        } else {
-          // Migrate all fields (user didn't select specific fields)
-          itemToImport = { ...cleanItem };
-        }
-
-        let importResponse: any | null = null;
-        let action: "created" | "updated" = "created";
-        const sourceIdStr = String(id);
-
-        // Step 1: Check if item already exists in target
-        let itemExists = false;
-        try {
-          const checkResponse = await targetClient.get(`/items/${collectionName}/${sourceIdStr}`);
-          itemExists = !!checkResponse?.data;
-          logStep("item_exists_check", { 
-            sourceId: sourceIdStr, 
-            collectionName, 
-            exists: itemExists 
-          });
-        } catch (checkErr: any) {
-          // Item doesn't exist (404) or other error
-          itemExists = false;
+      const prepared = { ...rewritten };
+      deferredFields.forEach((field) => {
+        if (field in prepared) {
+          prepared[field] = null;
         }
+      });
+      return prepared;
+    };
+    if (deferredFields.length > 0) {
+      logStep("fields_deferred", { collectionName, fields: deferredFields });
+    }
+    const preflight = options?.invalidRows
+      ? { constraints: await loadFieldConstraints(targetClient, targetCollection), action: options.invalidRows }
+      : undefined;
+    const transforms = options?.transforms || [];
+    if (transforms.length > 0) {
+      logStep("field_transforms", { collectionName, transforms });
+    }
+    let completedCount = 0;
+
+    // Keyset paging on the primary key keeps deep pages fast and only one page in memory
+    const primaryKey = await sourceClient.getPrimaryKeyField(collectionName);
+    const pages = sourceClient.iterateItems(collectionName, {
+      filter: syncPlan?.filter,
+      paging: "keyset",
+      keyField: primaryKey,
+      limit: fetchLimit,
+      pageSize: options?.pageSize,
+    });
 
-        // Step 2: Update or Create based on existence
-        if (itemExists) {
-          // Item exists - UPDATE it
-          try {
-            logStep("item_update_start", { sourceId: sourceIdStr, collectionName });
-            importResponse = await targetClient.patch(
-              `/items/${collectionName}/${sourceIdStr}`,
-              itemToImport,
-            );
-            action = "updated";
-          } catch (updateErr: any) {
-            // Update failed - log detailed error
-            logStep("item_update_failed", { 
-              sourceId: sourceIdStr, 
-              collectionName,
-              error: updateErr?.message,
-              status: updateErr?.response?.status,
-              details: updateErr?.response?.data
-            });
-            throw updateErr;
+    // Per-item sync metadata, applied to the sync state once the item is written
+    const itemTimestamps = new Map<string, string | undefined>();
+    const itemHashes = new Map<string, string>();
+    const nextHashes: Record<string, string> = { ...syncPlan?.previous?.hashes };
+    let latestTimestamp = syncPlan?.previous?.watermark;
+    let unchangedCount = 0;
+
+    const recordResults = (results: ImportedItem[]) => {
+      for (const result of results) {
+        importedItems.push(result);
+        if (result.status === "success") {
+          successCount++;
+          if (result.newId !== undefined) {
+            idMap[String(result.originalId)] = result.newId;
+            idMaps.set(collectionName, result.originalId, result.newId);
+          }
+          const key = String(result.originalId);
+          const timestamp = itemTimestamps.get(key);
+          if (timestamp && (!latestTimestamp || timestamp > latestTimestamp)) {
+            latestTimestamp = timestamp;
+          }
+          if (itemHashes.has(key)) {
+            nextHashes[key] = itemHashes.get(key)!;
           }
         } else {
-          // Item doesn't exist - CREATE it
-          try {
-            logStep("item_create_with_id_start", { sourceId: sourceIdStr, collectionName });
-            const payloadWithId = { id: sourceIdStr, ...itemToImport };
-            importResponse = await targetClient.post(`/items/${collectionName}`, payloadWithId);
-            action = "created";
-          } catch (createErr: any) {
-            // Create failed - log detailed error
-            logStep("item_create_failed", { 
-              sourceId: sourceIdStr, 
-              collectionName,
-              error: createErr?.message,
-              status: createErr?.response?.status,
-              details: createErr?.response?.data
-            });
-            
-            // Only log 403 errors to console (permission issues)
-            if (createErr?.response?.status === 403) {
-              console.error(`\n❌ 403 FORBIDDEN - Cannot create ${collectionName} item ${sourceIdStr}`);
-              console.error(`📋 Full error response:`, JSON.stringify(createErr?.response?.data, null, 2));
-              console.error(`🔗 Request URL:`, createErr?.config?.url);
-              console.error(`📦 Payload:`, JSON.stringify(itemToImport, null, 2));
-              
-              const errorMsg = createErr?.response?.data?.errors?.[0];
-              if (errorMsg?.extensions?.collection) {
-                console.error(`\n💡 Missing READ permission on: "${errorMsg.extensions.collection}"`);
-              } else if (errorMsg?.message) {
-                console.error(`\n💡 Error: ${errorMsg.message}`);
-              }
-              
-              console.error(`\n🔍 Check: Flows, Hooks, or Database permissions\n`);
-            }
-            
-            throw createErr;
+          errorCount++;
+        }
+      }
+      completedCount += results.length;
+      if (options?.onProgress) {
+        options.onProgress(completedCount, totalItems);
+      }
+    };
+
+    try {
+      for await (const sourcePage of pages) {
+        let page = sourcePage;
+        if (syncPlan?.mode === "timestamp") {
+          page.forEach((item) => itemTimestamps.set(String(item[primaryKey]), getItemTimestamp(item, syncPlan.timestamps)));
+        } else if (syncPlan?.mode === "hash") {
+          // Without timestamps every item is read, but only changed content is written
+          page = sourcePage.filter((item) => {
+            const hash = hashItem(item);
+            itemHashes.set(String(item[primaryKey]), hash);
+            return syncPlan.previous?.hashes?.[String(item[primaryKey])] !== hash;
+          });
+          const unchanged = sourcePage.length - page.length;
+          if (unchanged > 0) {
+            unchangedCount += unchanged;
+            completedCount += unchanged;
+            options?.onProgress?.(completedCount, totalItems);
           }
         }
 
-        importedItems.push({
-          originalId: id,
-          newId: importResponse.data?.id,
-          status: "success",
-          action,
-          data: importResponse.data,
-        });
-        successCount++;
+        await writeItemBatch(targetClient, collectionName, page.map(prepareItem), {
+          primaryKey,
+          selectedFields: options?.selectedFields,
+          batchSize: options?.batchSize,
+          matchKey,
+          renames,
+          transforms,
+          preflight,
+          concurrency,
+          signal: options?.signal,
+          onResults: recordResults,
+        }, logStep);
+      }
+    } catch (pageError: any) {
+      // Cancellation ends the loop; the cancelled result is returned below
+      if (!isAbortError(pageError)) {
+        throw pageError;
+      }
+    }
 
-        logStep(action === "updated" ? "item_updated" : "item_imported", {
-          originalId: id,
-          newId: importResponse.data?.id,
-          collectionName,
-        });
+    // Kept so later collections can rewrite foreign keys pointing at these items
+    const idMapSaved = saveIdMap(sourceUrl, targetUrl, collectionName, idMap);
+    if (!idMapSaved) {
+      logStep("id_map_not_saved", { collectionName, items: Object.keys(idMap).length, reason: "Storage quota exceeded" });
+    }
 
-      } catch (itemError: any) {
-        errorCount++;
-        importedItems.push({
-          originalId: item.id,
-          status: "error",
-          error: {
-            message: itemError.message,
-            status: itemError.response?.status,
-            details: itemError.response?.data,
-          },
-        });
+    if (options?.signal?.aborted) {
+      logStep("import_cancelled", { completed: importedItems.length, totalItems, collectionName });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Import of ${collectionName} cancelled after ${importedItems.length} of ${totalItems} items (${successCount} imported)`,
+        importedItems,
+        idMap,
+        importLog,
+      };
+    }
 
-        logStep("item_import_failed", {
-          originalId: item.id,
-          error: itemError.message,
-          collectionName,
-        });
+    // A full pass saw every source item, so hashes of items deleted at the source go
+    if (syncPlan?.mode === "hash" && fetchLimit === undefined) {
+      const staleIds = Object.keys(nextHashes).filter((key) => !itemHashes.has(key));
+      staleIds.forEach((key) => delete nextHashes[key]);
+      if (staleIds.length > 0) {
+        logStep("sync_hashes_pruned", { collectionName, items: staleIds.length });
       }
     }
 
+    const syncWarning = syncPlan && saveIncrementalSync(syncPlan, {
+      sourceUrl,
+      targetUrl,
+      collectionName,
+      latestTimestamp,
+      hashes: nextHashes,
+      complete: errorCount === 0 && fetchLimit === undefined,
+    }, logStep);
+
     logStep("import_complete", {
-      totalItems: sourceItems.length,
+      totalItems,
       successCount,
       errorCount,
+      unchangedCount,
       collectionName,
     });
       
     return {
       success: true,
-      message: `Successfully imported ${successCount} items from ${collectionName} (${errorCount} failed)`,
+      message: syncPlan
+        ? `Synced ${successCount} changed items from ${collectionName} (${unchangedCount} unchanged, ${errorCount} failed)${syncWarning ? `; ${syncWarning}` : ""}${idMapSaved ? "" : `; ${ID_MAP_NOT_SAVED}`}`
+        : `Successfully imported ${successCount} items from ${collectionName} (${errorCount} failed)${idMapSaved ? "" : `; ${ID_MAP_NOT_SAVED}`}`,
       importedItems,
+      idMap,
       importLog,
     };
   } catch (error: any) {
+    if (isAbortError(error)) {
+      logStep("import_cancelled", { collectionName });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Import of ${collectionName} cancelled before any items were written`,
+        importedItems: [],
+        importLog,
+      };
+    }
     logStep("fatal_error", {
       message: error.message,
       stack: error.stack,
@@ -609,6 +1199,7 @@ export async function previewCollectionItems(
   options?: {
     limit?: number;
     offset?: number;
+    pageSize?: number; // Rows read per request
   }
 ): Promise<{
   success: boolean;
@@ -617,27 +1208,23 @@ export async function previewCollectionItems(
   error?: any;
 }> {
   try {
-    const normalizedToken = sourceToken.replace(/^Bearer\s+/i, "");
-    const sourceDirectus = createDirectus(sourceUrl)
-      .with(staticToken(normalizedToken))
-      .with(rest());
+    const client = new DirectusClient(sourceUrl, sourceToken);
 
     // Use provided limit or default to 100
-    // limit: -1 means fetch all items (no limit)
+    // limit: -1 means fetch all items (no limit), read page by page
     const limit = options?.limit !== undefined ? options.limit : 100;
     const offset = options?.offset || 0;
 
-    const response: any = await sourceDirectus.request(
-      (readItems as any)(collectionName, { 
-        limit, 
-        offset,
-        meta: 'total_count'
-      }),
-    );
+    const items: any[] = [];
+    for await (const page of client.iterateItems(collectionName, {
+      offset,
+      limit: limit >= 0 ? limit : undefined,
+      pageSize: options?.pageSize,
+    })) {
+      items.push(...page);
+    }
 
-    // Handle both array response and object with data property
-    const items = Array.isArray(response) ? response : (response?.data || []);
-    const total = response?.meta?.total_count || items.length;
+    const total = await client.countItems(collectionName).catch(() => items.length);
 
     return {
       success: true,
@@ -669,6 +1256,15 @@ export async function importSelectedItems(
   options?: {
     selectedFields?: string[];  // Only migrate selected fields
     onProgress?: (current: number, total: number) => void;
+    batchSize?: number; // Items per batch write to the target
+    writeConcurrency?: number; // Batches written at the same time; 1 (default) keeps the source order
+    matchKey?: string[]; // Natural key to match target rows (defaults to the saved match key)
+    relations?: any[]; // Source relations, loaded when not given
+    idMaps?: MigrationIdMap; // Shared across a multi-collection run
+    relational?: boolean; // Also copy junction rows, translations and O2M children
+    renames?: RenameMap; // Target collection/field names (defaults to the saved rename map)
+    transforms?: FieldTransform[]; // Value transforms the user has previewed; none when not given
+    signal?: AbortSignal; // Stops the import; items already written are kept
   }
 ): Promise<ImportResult> {
   const importLog: ImportLogEntry[] = [];
@@ -691,29 +1287,32 @@ export async function importSelectedItems(
     });
 
     // Create clients
-    const normalizedSourceToken = sourceToken.replace(/^Bearer\s+/i, "");
-    const sourceDirectus = createDirectus(sourceUrl)
-      .with(staticToken(normalizedSourceToken))
-      .with(rest());
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', {
+      onRetry: (event) => logStep("request_retry", event),
+      signal: options?.signal,
+    });
 
-    const targetClient = new DirectusClient(targetUrl, targetToken);
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', {
+      onRetry: (event) => logStep("request_retry", event),
+      signal: options?.signal,
+    });
 
-    // Fetch selected items from source
+    // Fetch selected items from source, one request per chunk of ids
+    const primaryKey = await sourceClient.getPrimaryKeyField(collectionName);
     const sourceItems: any[] = [];
-    for (const id of selectedIds) {
+    for (let start = 0; start < selectedIds.length; start += SELECTED_IDS_PER_REQUEST) {
+      const ids = selectedIds.slice(start, start + SELECTED_IDS_PER_REQUEST);
       try {
-        const item: any = await sourceDirectus.request(
-          (readItems as any)(collectionName, { 
-            filter: { id: { _eq: id } },
-            limit: 1 
-          }),
-        );
-        const itemData = Array.isArray(item) ? item[0] : item?.data?.[0];
-        if (itemData) {
-          sourceItems.push(itemData);
-        }
+        const items = await sourceClient.readAll(`/items/${collectionName}`, {
+          filter: { [primaryKey]: { _in: ids } },
+          pageSize: ids.length,
+        });
+        sourceItems.push(...items);
       } catch (err: any) {
-        logStep("fetch_item_failed", { id, error: err.message });
+        if (isAbortError(err)) {
+          break;
+        }
+        logStep("fetch_items_failed", { ids, error: err.message });
       }
     }
 
@@ -724,97 +1323,138 @@ export async function importSelectedItems(
 
     // Import items
     const importedItems: ImportedItem[] = [];
+    const idMap: CollectionIdMap = {};
     let successCount = 0;
     let errorCount = 0;
 
-    for (let i = 0; i < sourceItems.length; i++) {
-      const item = sourceItems[i];
-      
-      if (options?.onProgress) {
-        options.onProgress(i + 1, sourceItems.length);
-      }
-      
-      try {
-        const { id, date_created, date_updated, user_created, user_updated, ...cleanItem } = item;
-
-        // Prepare item to import
-        let itemToImport: Record<string, any> = {};
-        
-        if (options?.selectedFields && options.selectedFields.length > 0) {
-          // Only migrate selected fields - user has full control
-          options.selectedFields.forEach(field => {
-            if (field in cleanItem) {
-              itemToImport[field] = cleanItem[field];
-            }
-          });
+    // Batches go out one after another unless asked otherwise: parents before the
+    // children referencing them, and rows in their sort order
+    const concurrency = Math.max(1, options?.writeConcurrency || 1);
+    const matchKey = options?.matchKey || getMatchKey(sourceUrl, targetUrl, collectionName);
+
+    // Relational values pointing at remapped items are rewritten to target ids
+    const idMaps = options?.idMaps || new MigrationIdMap(sourceUrl, targetUrl);
+    const relations = options?.relations || (await getRelations(sourceUrl, sourceToken)).relations || [];
+    const renames = options?.renames || getRenameMap(sourceUrl, targetUrl);
+    const rewriteForeignKeys = createForeignKeyRewriter(collectionName, relations, idMaps, renames);
+    let completedCount = 0;
+
+    // Aliases copied row by row after the parents; with selected fields, only the selected ones
+    const relatedPlans = options?.relational
+      ? getRelatedRowsPlans(collectionName, relations).filter((plan) =>
+          !options.selectedFields || options.selectedFields.length === 0 || options.selectedFields.includes(plan.alias)
+        )
+      : [];
+
+    const recordResults = (results: ImportedItem[]) => {
+      for (const result of results) {
+        importedItems.push(result);
+        if (result.status === "success") {
+          successCount++;
+          if (result.newId !== undefined) {
+            idMap[String(result.originalId)] = result.newId;
+            idMaps.set(collectionName, result.originalId, result.newId);
+          }
         } else {
-          // Migrate all fields (user didn't select specific fields)
-          itemToImport = { ...cleanItem };
-        }
-
-        let importResponse: any | null = null;
-        let action: "created" | "updated" = "created";
-        const sourceIdStr = String(id);
-
-        // Check if exists
-        let itemExists = false;
-        try {
-          const checkResponse = await targetClient.get(`/items/${collectionName}/${sourceIdStr}`);
-          itemExists = !!checkResponse?.data;
-        } catch (checkErr: any) {
-          itemExists = false;
+          errorCount++;
         }
+      }
+      completedCount += results.length;
+      if (options?.onProgress) {
+        options.onProgress(completedCount, sourceItems.length);
+      }
+    };
 
-        // Update or Create
-        if (itemExists) {
-          importResponse = await targetClient.patch(
-            `/items/${collectionName}/${sourceIdStr}`,
-            itemToImport,
-          );
-          action = "updated";
-        } else {
-          // Create with explicit ID only - no fallback
-          const payloadWithId = { id: sourceIdStr, ...itemToImport };
-          importResponse = await targetClient.post(`/items/${collectionName}`, payloadWithId);
-          action = "created";
-        }
+    try {
+      const parentItems = sourceItems.map((item) =>
+        stripRelatedAliases(rewriteForeignKeys ? rewriteForeignKeys(item) : item, relatedPlans)
+      );
+      await writeItemBatch(targetClient, collectionName, parentItems, {
+        primaryKey,
+        selectedFields: options?.selectedFields,
+        batchSize: options?.batchSize,
+        matchKey,
+        renames,
+        transforms: options?.transforms,
+        concurrency,
+        signal: options?.signal,
+        onResults: recordResults,
+      }, logStep);
+    } catch (writeError: any) {
+      // Cancellation is reported below with the items written so far
+      if (!isAbortError(writeError)) {
+        throw writeError;
+      }
+    }
 
-        importedItems.push({
-          originalId: id,
-          newId: importResponse.data?.id,
-          status: "success",
-          action,
-          data: importResponse.data,
-        });
-        successCount++;
+    // Kept so later collections can rewrite foreign keys pointing at these items
+    const idMapSaved = saveIdMap(sourceUrl, targetUrl, collectionName, idMap);
+    if (!idMapSaved) {
+      logStep("id_map_not_saved", { collectionName, items: Object.keys(idMap).length, reason: "Storage quota exceeded" });
+    }
 
-      } catch (itemError: any) {
-        errorCount++;
-        importedItems.push({
-          originalId: item.id,
-          status: "error",
-          error: {
-            message: itemError.message,
-            status: itemError.response?.status,
-            details: itemError.response?.data,
-          },
-        });
+    let relatedRows: RelatedRowsResult[] | undefined;
+    if (relatedPlans.length > 0 && !options?.signal?.aborted) {
+      try {
+        relatedRows = await copyRelatedRows(sourceClient, targetClient, collectionName, idMap, relatedPlans, {
+          sourceUrl,
+          targetUrl,
+          relations,
+          idMaps,
+          renames,
+          batchSize: options?.batchSize,
+          concurrency,
+          signal: options?.signal,
+        }, logStep);
+      } catch (relatedError: any) {
+        if (!isAbortError(relatedError)) {
+          throw relatedError;
+        }
       }
     }
 
+    if (options?.signal?.aborted) {
+      logStep("import_cancelled", { completed: importedItems.length, totalItems: sourceItems.length, collectionName });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Import of ${collectionName} cancelled after ${importedItems.length} of ${sourceItems.length} selected items (${successCount} imported)`,
+        importedItems,
+        idMap,
+        relatedRows,
+        importLog,
+      };
+    }
+
     logStep("import_selected_complete", {
       totalItems: sourceItems.length,
       successCount,
       errorCount,
     });
-      
+
+    const relatedSummary = relatedRows && relatedRows.length > 0
+      ? `; related rows: ${relatedRows.map((r) => `${r.alias} ${r.copied} copied${r.removed > 0 ? `, ${r.removed} removed` : ""}${r.failed > 0 ? `, ${r.failed} failed` : ""}`).join("; ")}`
+      : "";
+
     return {
       success: true,
-      message: `Successfully imported ${successCount} selected items from ${collectionName} (${errorCount} failed)`,
+      message: `Successfully imported ${successCount} selected items from ${collectionName} (${errorCount} failed)${relatedSummary}${idMapSaved ? "" : `; ${ID_MAP_NOT_SAVED}`}`,
       importedItems,
+      idMap,
+      relatedRows,
       importLog,
     };
   } catch (error: any) {
+    if (isAbortError(error)) {
+      logStep("import_cancelled", { collectionName });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Import of ${collectionName} cancelled before any items were written`,
+        importedItems: [],
+        importLog,
+      };
+    }
     logStep("fatal_error", {
       message: error.message,
       stack: error.stack,
@@ -928,7 +1568,7 @@ export async function getRelations(
   try {
     const normalizedToken = sourceToken.replace(/^Bearer\s+/i, "");
     const sourceDirectus = createDirectus(sourceUrl)
-      .with(staticToken(normalizedToken))
+      .with(staticToken(await DirectusClient.getAccessToken(sourceUrl, normalizedToken)))
       .with(rest());
 
     const relations: any = await sourceDirectus.request(readRelations());
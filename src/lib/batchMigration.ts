@@ -0,0 +1,329 @@
+import { DirectusClient } from './DirectusClient';
+import { getRelations, importFromDirectus } from './apiHandlers';
+import {
+  analyzeDependencies,
+  calculateMigrationOrder,
+  findBackReferences,
+  groupIntoBatches,
+  type DeferredField,
+} from './dependencyAnalyzer';
+import { MigrationIdMap, createForeignKeyRewriter } from './idMap';
+import type { CollectionTransforms } from './fieldTransforms';
+import { getRenameMap, renameCollection, renameField, renameItemFields, type RenameMap } from './renameMap';
+import { forEachConcurrent, isAbortError } from './requestScheduler';
+import type { ImportLogEntry } from '../types';
+
+/**
+ * Batch Migration - imports several collections in dependency order.
+ * Collections of one dependency level run concurrently; the next level starts
+ * once the whole level is done. Cycles are broken in two passes: foreign keys
+ * pointing at collections not yet imported are written as null, then patched
+ * once every row exists.
+ */
+
+export interface BatchMigrationPlan {
+  order: string[];
+  batches: string[][]; // Dependency levels; collections of one level are independent
+  cycles: string[][];
+  warnings: string[];
+  deferredFields: DeferredField[]; // Nullable back references patched in the second pass
+  relations: any[];
+}
+
+export interface BatchMigrationPlanResult {
+  success: boolean;
+  message: string;
+  plan?: BatchMigrationPlan;
+  error?: any;
+}
+
+export interface BatchCollectionResult {
+  collection: string;
+  success: boolean;
+  message: string;
+  imported: number;
+  failed: number;
+}
+
+export interface BatchMigrationResult {
+  success: boolean;
+  message: string;
+  results: BatchCollectionResult[];
+  deferredPatched: number;
+  deferredFailed: number;
+  importLog?: ImportLogEntry[];
+  cancelled?: boolean; // Stopped through the signal; results holds the collections finished before
+}
+
+export interface BatchMigrationOptions {
+  maxParallel?: number; // Collections imported at the same time within a level
+  limit?: number;
+  incremental?: boolean;
+  transforms?: CollectionTransforms; // Previewed value transforms per collection; others are imported unchanged
+  signal?: AbortSignal;
+  onCollectionStart?: (collection: string, level: number) => void;
+  onProgress?: (collection: string, current: number, total: number) => void;
+}
+
+// Rows read and patched per request in the second pass
+const PATCH_BATCH_SIZE = 100;
+
+export const DEFAULT_PARALLEL_COLLECTIONS = 2;
+
+/**
+ * Order the collections, find the cycles and decide which foreign keys are deferred.
+ * A back reference can only be deferred when its field accepts null.
+ */
+export async function planBatchMigration(
+  sourceUrl: string,
+  sourceToken: string,
+  collections: string[]
+): Promise<BatchMigrationPlanResult> {
+  try {
+    const relationsResult = await getRelations(sourceUrl, sourceToken);
+    if (!relationsResult.success) {
+      return {
+        success: false,
+        message: `Could not load relations: ${relationsResult.error?.message}`,
+        error: relationsResult.error,
+      };
+    }
+    const relations = relationsResult.relations || [];
+    const graph = analyzeDependencies(relations);
+    const migrationOrder = calculateMigrationOrder(graph, collections);
+    const batches = groupIntoBatches(graph, migrationOrder.order);
+    const warnings = [...migrationOrder.warnings];
+
+    const client = new DirectusClient(sourceUrl, sourceToken);
+    const nullable = new Map<string, Set<string>>();
+    const deferredFields: DeferredField[] = [];
+    for (const candidate of findBackReferences(relations, batches)) {
+      if (!nullable.has(candidate.collection)) {
+        const response = await client.get(`/fields/${candidate.collection}`).catch(() => ({ data: [] }));
+        nullable.set(candidate.collection, new Set(
+          (response?.data || [])
+            .filter((field: any) => field.schema?.is_nullable !== false)
+            .map((field: any) => field.field)
+        ));
+      }
+
+      if (nullable.get(candidate.collection)!.has(candidate.field)) {
+        deferredFields.push(candidate);
+      } else {
+        warnings.push(
+          `${candidate.collection}.${candidate.field} → ${candidate.related.join(', ')} is required and cannot be deferred: ` +
+          'items pointing at rows not imported yet will fail'
+        );
+      }
+    }
+
+    return {
+      success: true,
+      message: `${migrationOrder.order.length} collections in ${batches.length} levels, ${deferredFields.length} fields deferred`,
+      plan: {
+        order: batches.flat(),
+        batches,
+        cycles: migrationOrder.cycles,
+        warnings,
+        deferredFields,
+        relations,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      message: `Migration planning failed: ${error.message}`,
+      error: { message: error.message, status: error.response?.status },
+    };
+  }
+}
+
+/**
+ * Import the plan level by level, then patch the deferred fields
+ */
+export async function runBatchMigration(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  targetToken: string,
+  plan: BatchMigrationPlan,
+  options: BatchMigrationOptions = {}
+): Promise<BatchMigrationResult> {
+  const importLog: ImportLogEntry[] = [];
+  const logStep = (step: string, details: Record<string, unknown>) => {
+    importLog.push({ timestamp: new Date().toISOString(), step, details });
+  };
+
+  const { signal } = options;
+  const idMaps = new MigrationIdMap(sourceUrl, targetUrl);
+  const renames = getRenameMap(sourceUrl, targetUrl);
+  const results: BatchCollectionResult[] = [];
+  const importedIds = new Map<string, (string | number)[]>();
+
+  const importCollection = async (collection: string) => {
+    const deferred = plan.deferredFields.filter(field => field.collection === collection).map(field => field.field);
+    const result = await importFromDirectus(sourceUrl, sourceToken, targetUrl, targetToken, collection, {
+      limit: options.limit,
+      incremental: options.incremental,
+      relations: plan.relations,
+      idMaps,
+      renames,
+      transforms: options.transforms?.[collection],
+      deferredFields: deferred,
+      signal,
+      onProgress: (current, total) => options.onProgress?.(collection, current, total),
+    });
+
+    const items = result.importedItems || [];
+    const written = items.filter(item => item.status === 'success');
+    results.push({
+      collection,
+      success: result.success,
+      message: result.message,
+      imported: written.length,
+      failed: items.length - written.length,
+    });
+    if (deferred.length > 0) {
+      importedIds.set(collection, written.map(item => item.originalId));
+    }
+    logStep('batch_collection_done', { collection, success: result.success, imported: written.length });
+  };
+
+  // First pass: level by level, collections of a level side by side, deferred fields written as null
+  const maxParallel = Math.max(1, options.maxParallel || DEFAULT_PARALLEL_COLLECTIONS);
+  for (const [level, batch] of plan.batches.entries()) {
+    if (signal?.aborted) {
+      break;
+    }
+    logStep('batch_level_start', { level, collections: batch });
+    await forEachConcurrent(batch, maxParallel, async (collection) => {
+      options.onCollectionStart?.(collection, level);
+      await importCollection(collection);
+    }, signal);
+  }
+
+  // Second pass: every row exists now, so the deferred foreign keys can be resolved
+  let deferredPatched = 0;
+  let deferredFailed = 0;
+  if (!signal?.aborted && importedIds.size > 0) {
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { signal });
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', { signal });
+
+    for (const [collection, sourceIds] of importedIds) {
+      const fields = plan.deferredFields.filter(field => field.collection === collection);
+      try {
+        const outcome = await patchDeferredFields(sourceClient, targetClient, collection, fields, sourceIds, plan.relations, idMaps, renames, logStep);
+        deferredPatched += outcome.patched;
+        deferredFailed += outcome.failed;
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          break;
+        }
+        deferredFailed += sourceIds.length;
+        logStep('deferred_patch_failed', { collection, error: error.message });
+      }
+    }
+  }
+
+  const failedItems = results.reduce((sum, result) => sum + result.failed, 0);
+  const failedCollections = results.filter(result => !result.success).length;
+
+  if (signal?.aborted) {
+    return {
+      success: false,
+      cancelled: true,
+      message: `Migration cancelled after ${results.length} of ${plan.order.length} collections`,
+      results,
+      deferredPatched,
+      deferredFailed,
+      importLog,
+    };
+  }
+
+  return {
+    success: failedCollections === 0 && deferredFailed === 0,
+    message: `Migrated ${results.length} collections (${failedCollections} failed, ${failedItems} items failed)` +
+      (plan.deferredFields.length > 0 ? `; ${deferredPatched} deferred references patched, ${deferredFailed} failed` : ''),
+    results,
+    deferredPatched,
+    deferredFailed,
+    importLog,
+  };
+}
+
+/**
+ * Second pass of one collection: read the deferred fields from the source, resolve
+ * them to target ids and patch the target rows. Rows whose deferred fields are all
+ * empty in the source are already correct.
+ */
+async function patchDeferredFields(
+  sourceClient: DirectusClient,
+  targetClient: DirectusClient,
+  collection: string,
+  fields: DeferredField[],
+  sourceIds: (string | number)[],
+  relations: any[],
+  idMaps: MigrationIdMap,
+  renames: RenameMap,
+  logStep: (step: string, details: Record<string, unknown>) => void
+): Promise<{ patched: number; failed: number }> {
+  const rewrite = createForeignKeyRewriter(collection, relations, idMaps, renames);
+  const targetCollection = renameCollection(renames, collection);
+  const fieldNames = fields.map(field => field.field);
+  const primaryKey = await sourceClient.getPrimaryKeyField(collection);
+  const targetKey = renameField(renames, collection, primaryKey);
+  const readFields = [primaryKey, ...fieldNames, ...fields.map(field => field.collectionField).filter(Boolean) as string[]];
+  let patched = 0;
+  let failed = 0;
+
+  for (let start = 0; start < sourceIds.length; start += PATCH_BATCH_SIZE) {
+    const chunk = sourceIds.slice(start, start + PATCH_BATCH_SIZE);
+    const rows = await sourceClient.readAll(`/items/${collection}`, {
+      filter: { [primaryKey]: { _in: chunk } },
+      fields: readFields,
+      pageSize: chunk.length,
+    });
+
+    const updates = rows
+      .filter(row => fieldNames.some(field => row[field] !== null && row[field] !== undefined))
+      .map(row => {
+        const rewritten = rewrite ? rewrite(row) : row;
+        const update: Record<string, any> = {};
+        fieldNames.forEach(field => {
+          update[field] = rewritten[field];
+        });
+        return { key: idMaps.resolve(collection, row[primaryKey]), data: renameItemFields(renames, collection, update) };
+      });
+    if (updates.length === 0) {
+      continue;
+    }
+
+    try {
+      await targetClient.patch(`/items/${targetCollection}`, updates.map(({ key, data }) => ({ [targetKey]: key, ...data })));
+      patched += updates.length;
+      continue;
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      logStep('deferred_batch_failed', { collection, count: updates.length, error: error.message });
+    }
+
+    // Replay the failed batch one row at a time
+    for (const { key, data } of updates) {
+      try {
+        await targetClient.patch(`/items/${targetCollection}/${encodeURIComponent(String(key))}`, data);
+        patched++;
+      } catch (itemError: any) {
+        if (isAbortError(itemError)) {
+          throw itemError;
+        }
+        failed++;
+        logStep('deferred_item_failed', { collection, id: key, error: itemError.message, status: itemError.response?.status });
+      }
+    }
+  }
+
+  logStep('deferred_fields_patched', { collection, fields: fieldNames, patched, failed });
+  return { patched, failed };
+}
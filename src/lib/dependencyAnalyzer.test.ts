@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDependencies, findBackReferences, groupIntoBatches } from './dependencyAnalyzer';
+
+// Many-to-one relation: `collection.field` points at `related`
+const m2o = (collection: string, field: string, related: string) => ({ collection, field, related_collection: related });
+
+describe('groupIntoBatches', () => {
+  it('puts every collection after the collections it depends on', () => {
+    const graph = analyzeDependencies([
+      m2o('articles', 'author', 'authors'),
+      m2o('comments', 'article', 'articles'),
+      m2o('articles', 'category', 'categories'),
+    ]);
+
+    expect(groupIntoBatches(graph, ['authors', 'categories', 'articles', 'comments'])).toEqual([
+      ['authors', 'categories'],
+      ['articles'],
+      ['comments'],
+    ]);
+  });
+
+  it('does not let a self-reference block its collection', () => {
+    const graph = analyzeDependencies([m2o('categories', 'parent', 'categories')]);
+
+    expect(groupIntoBatches(graph, ['categories'])).toEqual([['categories']]);
+  });
+
+  it('ignores dependencies outside the migrated collections', () => {
+    const graph = analyzeDependencies([m2o('articles', 'author', 'authors')]);
+
+    expect(groupIntoBatches(graph, ['articles'])).toEqual([['articles']]);
+  });
+
+  it('batches a cycle on its own before the collections depending on it', () => {
+    const graph = analyzeDependencies([
+      m2o('articles', 'author', 'authors'),
+      m2o('authors', 'featured_article', 'articles'),
+      m2o('comments', 'article', 'articles'),
+    ]);
+
+    expect(groupIntoBatches(graph, ['articles', 'authors', 'comments'])).toEqual([
+      ['articles', 'authors'],
+      ['comments'],
+    ]);
+  });
+
+  it('releases a cycle only once the cycle it depends on is batched', () => {
+    const graph = analyzeDependencies([
+      m2o('a', 'b', 'b'),
+      m2o('b', 'a', 'a'),
+      m2o('c', 'd', 'd'),
+      m2o('d', 'c', 'c'),
+      m2o('c', 'a', 'a'),
+    ]);
+
+    expect(groupIntoBatches(graph, ['c', 'd', 'a', 'b'])).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('holds a cycle back until what it depends on outside the cycle is batched', () => {
+    const graph = analyzeDependencies([
+      m2o('a', 'b', 'b'),
+      m2o('b', 'a', 'a'),
+      m2o('b', 'tags', 'tags'),
+      m2o('tags', 'owner', 'users_list'),
+    ]);
+
+    expect(groupIntoBatches(graph, ['a', 'b', 'tags', 'users_list'])).toEqual([
+      ['users_list'],
+      ['tags'],
+      ['a', 'b'],
+    ]);
+  });
+});
+
+describe('findBackReferences', () => {
+  it('defers self-references', () => {
+    const relations = [m2o('categories', 'parent', 'categories')];
+
+    expect(findBackReferences(relations, [['categories']])).toEqual([
+      { collection: 'categories', field: 'parent', related: ['categories'], collectionField: undefined },
+    ]);
+  });
+
+  it('defers the reference closing a cycle but not the one following the order', () => {
+    const relations = [m2o('articles', 'author', 'authors'), m2o('authors', 'featured_article', 'articles')];
+
+    expect(findBackReferences(relations, [['authors'], ['articles']])).toEqual([
+      { collection: 'authors', field: 'featured_article', related: ['articles'], collectionField: undefined },
+    ]);
+  });
+
+  it('defers references into the same batch', () => {
+    const relations = [m2o('articles', 'author', 'authors')];
+
+    expect(findBackReferences(relations, [['articles', 'authors']])).toHaveLength(1);
+    expect(findBackReferences(relations, [['authors'], ['articles']])).toEqual([]);
+  });
+
+  it('keeps only the later collections of a many-to-any field', () => {
+    const relations = [{
+      collection: 'blocks',
+      field: 'item',
+      related_collection: null,
+      meta: { one_collection_field: 'collection', one_allowed_collections: ['headings', 'galleries'] },
+    }];
+
+    expect(findBackReferences(relations, [['headings'], ['blocks'], ['galleries']])).toEqual([
+      { collection: 'blocks', field: 'item', related: ['galleries'], collectionField: 'collection' },
+    ]);
+  });
+});
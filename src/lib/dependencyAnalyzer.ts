@@ -15,6 +15,16 @@ export interface DependencyGraph {
   [collection: string]: CollectionDependency;
 }
 
+/**
+ * Foreign key written as null on the first pass and patched once every row exists
+ */
+export interface DeferredField {
+  collection: string;
+  field: string;
+  related: string[]; // Collections the field points at (several for an M2A)
+  collectionField?: string; // M2A only: field naming the related collection
+}
+
 export interface MigrationOrder {
   order: string[];
   cycles: string[][];
@@ -24,6 +34,20 @@ export interface MigrationOrder {
   dependencies: Map<string, CollectionDependency>;
 }
 
+/**
+ * Collections a relation points at: the related collection of an M2O, or every
+ * allowed collection of a Many-to-Any (M2A) `item` field
+ */
+export function getRelatedCollections(rel: any): string[] {
+  if (rel.related_collection) {
+    return [rel.related_collection];
+  }
+  if (rel.meta?.one_collection_field && Array.isArray(rel.meta?.one_allowed_collections)) {
+    return rel.meta.one_allowed_collections.filter(Boolean);
+  }
+  return [];
+}
+
 /**
  * Analyzes schema relations to build a dependency graph
  */
@@ -36,9 +60,11 @@ export function analyzeDependencies(relations: any[]): DependencyGraph {
     if (rel.collection && !rel.collection.startsWith('directus_')) {
       allCollections.add(rel.collection);
     }
-    if (rel.related_collection && !rel.related_collection.startsWith('directus_')) {
-      allCollections.add(rel.related_collection);
-    }
+    getRelatedCollections(rel).forEach(related => {
+      if (!related.startsWith('directus_')) {
+        allCollections.add(related);
+      }
+    });
   });
 
   allCollections.forEach(collection => {
@@ -54,36 +80,38 @@ export function analyzeDependencies(relations: any[]): DependencyGraph {
   // Build dependency relationships
   relations.forEach((rel: any) => {
     const sourceCollection = rel.collection;
-    const targetCollection = rel.related_collection;
-
-    // Skip system collections
-    if (sourceCollection?.startsWith('directus_') || targetCollection?.startsWith('directus_')) {
-      return;
-    }
-
-    if (!sourceCollection || !targetCollection) {
-      return;
-    }
 
     // Determine dependency direction based on relation type
     // For many-to-one: source depends on target (target must exist first)
     // For one-to-many: target depends on source
+    // For many-to-any: source depends on every allowed collection
     const relationType = rel.meta?.one_collection_field || rel.meta?.one_field;
     const isManyToOne = relationType !== null;
 
-    if (isManyToOne) {
-      // Source collection depends on target collection
-      if (!graph[sourceCollection].dependsOn.includes(targetCollection)) {
-        graph[sourceCollection].dependsOn.push(targetCollection);
+    getRelatedCollections(rel).forEach(targetCollection => {
+      // Skip system collections
+      if (sourceCollection?.startsWith('directus_') || targetCollection.startsWith('directus_')) {
+        return;
       }
-      if (!graph[targetCollection].requiredBy.includes(sourceCollection)) {
-        graph[targetCollection].requiredBy.push(sourceCollection);
+
+      if (!sourceCollection) {
+        return;
       }
-      // Also populate dependedBy (alias for requiredBy)
-      if (!graph[targetCollection].dependedBy.includes(sourceCollection)) {
-        graph[targetCollection].dependedBy.push(sourceCollection);
+
+      if (isManyToOne) {
+        // Source collection depends on target collection
+        if (!graph[sourceCollection].dependsOn.includes(targetCollection)) {
+          graph[sourceCollection].dependsOn.push(targetCollection);
+        }
+        if (!graph[targetCollection].requiredBy.includes(sourceCollection)) {
+          graph[targetCollection].requiredBy.push(sourceCollection);
+        }
+        // Also populate dependedBy (alias for requiredBy)
+        if (!graph[targetCollection].dependedBy.includes(sourceCollection)) {
+          graph[targetCollection].dependedBy.push(sourceCollection);
+        }
       }
-    }
+    });
   });
 
   return graph;
@@ -275,6 +303,67 @@ function calculateLevelsFromGraph(
   return levels;
 }
 
+/**
+ * Foreign keys pointing at a collection that is not migrated yet when their own
+ * collection is imported: self-references and the back edges that close a cycle.
+ * Collections of one batch run concurrently, so a reference into the same batch
+ * counts as not migrated yet. Writing these as null first and patching them later
+ * breaks the cycle.
+ */
+export function findBackReferences(relations: any[], batches: string[][]): DeferredField[] {
+  const position = new Map<string, number>();
+  batches.forEach((batch, index) => batch.forEach(collection => position.set(collection, index)));
+  const deferred: DeferredField[] = [];
+
+  relations.forEach((rel: any) => {
+    const own = position.get(rel.collection);
+    if (own === undefined || !rel.field) {
+      return;
+    }
+    const later = getRelatedCollections(rel).filter(related => {
+      const other = position.get(related);
+      return other !== undefined && other >= own;
+    });
+    if (later.length > 0) {
+      deferred.push({
+        collection: rel.collection,
+        field: rel.field,
+        related: later,
+        collectionField: rel.related_collection ? undefined : rel.meta?.one_collection_field || undefined,
+      });
+    }
+  });
+
+  return deferred;
+}
+
+/**
+ * Members of the cycles among the pending collections that depend on no pending
+ * collection outside their own cycle: everything such a member reaches reaches it back
+ */
+function findReadyCycles(graph: DependencyGraph, pending: string[]): string[] {
+  const pendingSet = new Set(pending);
+  const reachable = new Map<string, Set<string>>();
+  pending.forEach(start => {
+    const seen = new Set<string>([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      (graph[current]?.dependsOn || []).forEach(dep => {
+        if (pendingSet.has(dep) && !seen.has(dep)) {
+          seen.add(dep);
+          queue.push(dep);
+        }
+      });
+    }
+    reachable.set(start, seen);
+  });
+
+  return pending.filter(collection =>
+    [...reachable.get(collection)!].every(other => reachable.get(other)!.has(collection))
+  );
+}
+
 /**
  * Groups collections into batches that can be migrated in parallel
  */
@@ -291,8 +380,9 @@ export function groupIntoBatches(graph: DependencyGraph, order: string[]): strin
       }
 
       // Check if all dependencies are processed
+      // A self-reference never blocks its own collection
       const deps = graph[collection]?.dependsOn || [];
-      const allDepsProcessed = deps.every(dep => processed.has(dep) || !order.includes(dep));
+      const allDepsProcessed = deps.every(dep => dep === collection || processed.has(dep) || !order.includes(dep));
 
       if (allDepsProcessed) {
         batch.push(collection);
@@ -300,13 +390,9 @@ export function groupIntoBatches(graph: DependencyGraph, order: string[]): strin
     }
 
     if (batch.length === 0) {
-      // No progress - remaining collections have circular dependencies
-      // Add them to a final batch
-      order.forEach(col => {
-        if (!processed.has(col)) {
-          batch.push(col);
-        }
-      });
+      // No progress - remaining collections wait on a cycle. The cycles depending on
+      // nothing else pending get a batch of their own; their dependents are levelled after
+      batch.push(...findReadyCycles(graph, order.filter(col => !processed.has(col))));
     }
 
     batch.forEach(col => processed.add(col));
@@ -370,37 +456,39 @@ export function analyzeCollectionDependencies(
   // Analyze relations to build dependency graph
   relations.forEach(relation => {
     const fromCollection = relation.collection;
-    const toCollection = relation.related_collection;
 
-    // Skip if either collection is not in our list
-    if (!dependencyMap.has(fromCollection) || !dependencyMap.has(toCollection)) {
-      return;
-    }
+    getRelatedCollections(relation).forEach(toCollection => {
+      // Skip if either collection is not in our list
+      if (!dependencyMap.has(fromCollection) || !dependencyMap.has(toCollection)) {
+        return;
+      }
 
-    // Skip self-references
-    if (fromCollection === toCollection) {
-      return;
-    }
+      // Skip self-references
+      if (fromCollection === toCollection) {
+        return;
+      }
 
-    // fromCollection depends on toCollection (has foreign key to it)
-    const fromDep = dependencyMap.get(fromCollection)!;
-    const toDep = dependencyMap.get(toCollection)!;
+      // fromCollection depends on toCollection (has foreign key to it)
+      const fromDep = dependencyMap.get(fromCollection)!;
+      const toDep = dependencyMap.get(toCollection)!;
 
-    if (!fromDep.dependsOn.includes(toCollection)) {
-      fromDep.dependsOn.push(toCollection);
-    }
+      if (!fromDep.dependsOn.includes(toCollection)) {
+        fromDep.dependsOn.push(toCollection);
+      }
 
-    if (!toDep.dependedBy.includes(fromCollection)) {
-      toDep.dependedBy.push(fromCollection);
-    }
+      if (!toDep.dependedBy.includes(fromCollection)) {
+        toDep.dependedBy.push(fromCollection);
+      }
     
-    if (!toDep.requiredBy.includes(fromCollection)) {
-      toDep.requiredBy.push(fromCollection);
-    }
+      if (!toDep.requiredBy.includes(fromCollection)) {
+        toDep.requiredBy.push(fromCollection);
+      }
+    });
   });
 
   // Calculate migration levels using topological sort
-  const levels = calculateMigrationLevels(dependencyMap);
+  const cycles: string[][] = [];
+  const levels = calculateMigrationLevels(dependencyMap, cycles);
 
   // Sort collections by level
   const sortedCollections: string[] = [];
@@ -413,8 +501,8 @@ export function analyzeCollectionDependencies(
 
   return {
     order: sortedCollections,
-    cycles: [],
-    warnings: [],
+    cycles,
+    warnings: cycles.map(cycle => `Circular dependency detected: ${cycle.join(' → ')}`),
     collections: sortedCollections,
     levels,
     dependencies: dependencyMap
@@ -428,11 +516,13 @@ export function analyzeCollectionDependencies(
  * Level 2 = depends on level 0 or 1, etc.
  */
 function calculateMigrationLevels(
-  dependencyMap: Map<string, CollectionDependency>
+  dependencyMap: Map<string, CollectionDependency>,
+  cycles: string[][] = []
 ): Map<number, string[]> {
   const levels = new Map<number, string[]>();
   const collectionLevels = new Map<string, number>();
   const visiting = new Set<string>();
+  const path: string[] = [];
 
   function visit(collection: string): number {
     if (collectionLevels.has(collection)) {
@@ -441,17 +531,19 @@ function calculateMigrationLevels(
 
     if (visiting.has(collection)) {
       // Circular dependency detected - assign to level 0
-      console.warn(`Circular dependency detected for ${collection}`);
+      cycles.push(path.slice(path.indexOf(collection)).concat(collection));
       return 0;
     }
 
     visiting.add(collection);
+    path.push(collection);
     const dep = dependencyMap.get(collection);
     
     if (!dep || dep.dependsOn.length === 0) {
       // No dependencies - level 0
       collectionLevels.set(collection, 0);
       visiting.delete(collection);
+      path.pop();
       return 0;
     }
 
@@ -467,6 +559,7 @@ function calculateMigrationLevels(
     dep.level = level;
     
     visiting.delete(collection);
+    path.pop();
     
     return level;
   }
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFieldTransforms,
+  getTransformedSelection,
+  parseTransformValue,
+  previewFieldTransforms,
+  validateTransform,
+  type FieldTransform,
+} from './fieldTransforms';
+
+describe('applyFieldTransforms', () => {
+  it('returns the item itself without transforms', () => {
+    const item = { id: 1 };
+
+    expect(applyFieldTransforms(item, [])).toBe(item);
+    expect(applyFieldTransforms(item, undefined)).toBe(item);
+  });
+
+  it('applies transforms in order without touching the source item', () => {
+    const item = { id: 1, headline: 'Hello World', status: null };
+    const transforms: FieldTransform[] = [
+      { kind: 'regex', field: 'headline', pattern: 'world', flags: 'gi', replacement: 'there' },
+      { kind: 'rename', field: 'headline', to: 'title' },
+      { kind: 'default_if_null', field: 'status', value: 'draft' },
+      { kind: 'constant', field: 'source', value: 'legacy' },
+    ];
+
+    expect(applyFieldTransforms(item, transforms)).toEqual({ id: 1, title: 'Hello there', status: 'draft', source: 'legacy' });
+    expect(item).toEqual({ id: 1, headline: 'Hello World', status: null });
+  });
+
+  it('shifts dates and keeps their layout', () => {
+    const shift = (value: any, amount: number, unit: 'hours' | 'days' | 'months') =>
+      applyFieldTransforms({ date: value }, [{ kind: 'date_shift', field: 'date', amount, unit }]).date;
+
+    expect(shift('2024-01-31', 1, 'days')).toBe('2024-02-01');
+    expect(shift('2024-01-31T22:00:00', 3, 'hours')).toBe('2024-02-01T01:00:00');
+    expect(shift('2024-01-15T10:00:00.000Z', -1, 'months')).toBe('2023-12-15T10:00:00.000Z');
+    expect(shift('not a date', 1, 'days')).toBe('not a date');
+    expect(shift(null, 1, 'days')).toBeNull();
+  });
+
+  it('maps values through a lookup table', () => {
+    const lookup = (unmatched: 'keep' | 'null'): FieldTransform[] => [
+      { kind: 'lookup', field: 'status', table: { '1': 'published', '0': 'draft' }, unmatched },
+    ];
+
+    expect(applyFieldTransforms({ status: 1 }, lookup('keep')).status).toBe('published');
+    expect(applyFieldTransforms({ status: 7 }, lookup('keep')).status).toBe(7);
+    expect(applyFieldTransforms({ status: 7 }, lookup('null')).status).toBeNull();
+    expect(applyFieldTransforms({ title: 'x' }, lookup('null'))).toEqual({ title: 'x' });
+  });
+
+  it('leaves values alone when a pattern does not compile', () => {
+    const transforms: FieldTransform[] = [{ kind: 'regex', field: 'title', pattern: '(', flags: '', replacement: '' }];
+
+    expect(applyFieldTransforms({ title: 'kept' }, transforms)).toEqual({ title: 'kept' });
+  });
+});
+
+describe('getTransformedSelection', () => {
+  it('follows renames, including chained ones', () => {
+    const transforms: FieldTransform[] = [
+      { kind: 'rename', field: 'headline', to: 'title' },
+      { kind: 'rename', field: 'title', to: 'name' },
+    ];
+
+    expect(getTransformedSelection(['id', 'headline'], transforms)).toEqual(['id', 'name']);
+  });
+});
+
+describe('previewFieldTransforms', () => {
+  it('lists the changes of the items that change', () => {
+    const items = [{ uuid: 'a', status: null }, { uuid: 'b', status: 'published' }];
+    const transforms: FieldTransform[] = [{ kind: 'default_if_null', field: 'status', value: 'draft' }];
+
+    expect(previewFieldTransforms(items, transforms, 'uuid')).toEqual([
+      { id: 'a', changes: [{ field: 'status', before: null, after: 'draft' }] },
+    ]);
+  });
+
+  it('shows a rename as a field removed and a field added', () => {
+    const transforms: FieldTransform[] = [{ kind: 'rename', field: 'headline', to: 'title' }];
+
+    expect(previewFieldTransforms([{ id: 1, headline: 'Hi' }], transforms)[0].changes).toEqual([
+      { field: 'headline', before: 'Hi', after: undefined },
+      { field: 'title', before: undefined, after: 'Hi' },
+    ]);
+  });
+});
+
+describe('transform editor helpers', () => {
+  it('reads typed values as JSON when they parse', () => {
+    expect(parseTransformValue('42')).toBe(42);
+    expect(parseTransformValue('null')).toBeNull();
+    expect(parseTransformValue('{"a":1}')).toEqual({ a: 1 });
+    expect(parseTransformValue('draft')).toBe('draft');
+  });
+
+  it('reports transforms that cannot run', () => {
+    expect(validateTransform({ kind: 'constant', field: ' ', value: 1 })).toBe('Field is required');
+    expect(validateTransform({ kind: 'rename', field: 'a', to: '' })).toBe('New field name is required');
+    expect(validateTransform({ kind: 'regex', field: 'a', pattern: '(', flags: '', replacement: '' })).toMatch(/^Invalid pattern/);
+    expect(validateTransform({ kind: 'date_shift', field: 'a', amount: NaN, unit: 'days' })).toBe('Shift amount must be a number');
+    expect(validateTransform({ kind: 'lookup', field: 'a', table: {}, unmatched: 'keep' })).toBeNull();
+  });
+});
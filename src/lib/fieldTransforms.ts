@@ -0,0 +1,232 @@
+/**
+ * Field Transforms - per-collection value changes applied to items on their way to the target
+ * Transforms run in order on the source item (source field names), after foreign keys
+ * are rewritten and before the rename map. They are stored per source/target pair and
+ * travel with the connection preset they were saved in.
+ */
+
+export type DateShiftUnit = 'minutes' | 'hours' | 'days' | 'months' | 'years';
+
+export type FieldTransform =
+  | { kind: 'constant'; field: string; value: any }
+  | { kind: 'rename'; field: string; to: string }
+  | { kind: 'regex'; field: string; pattern: string; flags: string; replacement: string }
+  | { kind: 'default_if_null'; field: string; value: any }
+  | { kind: 'date_shift'; field: string; amount: number; unit: DateShiftUnit }
+  | { kind: 'lookup'; field: string; table: Record<string, any>; unmatched: 'keep' | 'null' };
+
+export type FieldTransformKind = FieldTransform['kind'];
+
+export type CollectionTransforms = Record<string, FieldTransform[]>; // Source collection -> transforms in order
+
+export interface TransformPreviewRow {
+  id: any;
+  changes: { field: string; before: any; after: any }[];
+}
+
+const STORAGE_KEY = 'directus-migration-field-transforms';
+
+export const TRANSFORM_LABELS: Record<FieldTransformKind, string> = {
+  constant: 'Constant override',
+  rename: 'Rename field',
+  regex: 'Regex replace',
+  default_if_null: 'Default if null',
+  date_shift: 'Date shift',
+  lookup: 'Lookup table',
+};
+
+function getMapKey(sourceUrl: string, targetUrl: string): string {
+  const normalize = (url: string) => url.replace(/\/$/, '');
+  return `${normalize(sourceUrl)}|${normalize(targetUrl)}`;
+}
+
+function loadAll(): Record<string, CollectionTransforms> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getFieldTransforms(sourceUrl: string, targetUrl: string): CollectionTransforms {
+  return loadAll()[getMapKey(sourceUrl, targetUrl)] || {};
+}
+
+export function getCollectionTransforms(sourceUrl: string, targetUrl: string, collection: string): FieldTransform[] {
+  return getFieldTransforms(sourceUrl, targetUrl)[collection] || [];
+}
+
+export function saveFieldTransforms(sourceUrl: string, targetUrl: string, transforms: CollectionTransforms): void {
+  const all = loadAll();
+  const key = getMapKey(sourceUrl, targetUrl);
+  const cleaned = Object.fromEntries(Object.entries(transforms).filter(([, list]) => list.length > 0));
+  if (Object.keys(cleaned).length > 0) {
+    all[key] = cleaned;
+  } else {
+    delete all[key];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+export function saveCollectionTransforms(sourceUrl: string, targetUrl: string, collection: string, transforms: FieldTransform[]): void {
+  saveFieldTransforms(sourceUrl, targetUrl, { ...getFieldTransforms(sourceUrl, targetUrl), [collection]: transforms });
+}
+
+export function createTransform(kind: FieldTransformKind, field = ''): FieldTransform {
+  switch (kind) {
+    case 'constant': return { kind, field, value: null };
+    case 'rename': return { kind, field, to: '' };
+    case 'regex': return { kind, field, pattern: '', flags: 'g', replacement: '' };
+    case 'default_if_null': return { kind, field, value: null };
+    case 'date_shift': return { kind, field, amount: 0, unit: 'days' };
+    case 'lookup': return { kind, field, table: {}, unmatched: 'keep' };
+  }
+}
+
+/**
+ * Value typed in the editor: JSON when it parses (numbers, booleans, null, objects), text otherwise
+ */
+export function parseTransformValue(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function formatTransformValue(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+}
+
+/**
+ * Problem with a transform that would keep it from running, or null when it is usable
+ */
+export function validateTransform(transform: FieldTransform): string | null {
+  if (!transform.field.trim()) {
+    return 'Field is required';
+  }
+  if (transform.kind === 'rename' && !transform.to.trim()) {
+    return 'New field name is required';
+  }
+  if (transform.kind === 'regex') {
+    try {
+      new RegExp(transform.pattern, transform.flags);
+    } catch (error: any) {
+      return `Invalid pattern: ${error.message}`;
+    }
+  }
+  if (transform.kind === 'date_shift' && !Number.isFinite(transform.amount)) {
+    return 'Shift amount must be a number';
+  }
+  return null;
+}
+
+// Shift a date string, keeping its layout (date only, local date-time or with a zone)
+function shiftDate(value: any, amount: number, unit: DateShiftUnit): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  const date = new Date(dateOnly || hasZone ? value : `${value}Z`);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  switch (unit) {
+    case 'minutes': date.setUTCMinutes(date.getUTCMinutes() + amount); break;
+    case 'hours': date.setUTCHours(date.getUTCHours() + amount); break;
+    case 'days': date.setUTCDate(date.getUTCDate() + amount); break;
+    case 'months': date.setUTCMonth(date.getUTCMonth() + amount); break;
+    case 'years': date.setUTCFullYear(date.getUTCFullYear() + amount); break;
+  }
+
+  const iso = date.toISOString();
+  if (dateOnly) {
+    return iso.slice(0, 10);
+  }
+  return hasZone ? iso : iso.slice(0, 19);
+}
+
+function applyTransform(item: Record<string, any>, transform: FieldTransform): void {
+  const { field } = transform;
+  switch (transform.kind) {
+    case 'constant':
+      item[field] = transform.value;
+      break;
+    case 'rename':
+      if (field in item) {
+        item[transform.to] = item[field];
+        delete item[field];
+      }
+      break;
+    case 'regex':
+      if (typeof item[field] === 'string') {
+        try {
+          item[field] = item[field].replace(new RegExp(transform.pattern, transform.flags), transform.replacement);
+        } catch {
+          // An invalid pattern leaves the value as it is
+        }
+      }
+      break;
+    case 'default_if_null':
+      if (item[field] === null || item[field] === undefined) {
+        item[field] = transform.value;
+      }
+      break;
+    case 'date_shift':
+      if (field in item) {
+        item[field] = shiftDate(item[field], transform.amount, transform.unit);
+      }
+      break;
+    case 'lookup':
+      if (field in item && item[field] !== null && item[field] !== undefined) {
+        const key = String(item[field]);
+        if (key in transform.table) {
+          item[field] = transform.table[key];
+        } else if (transform.unmatched === 'null') {
+          item[field] = null;
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Copy of an item with the transforms applied in order
+ */
+export function applyFieldTransforms(item: Record<string, any>, transforms: FieldTransform[] | undefined): Record<string, any> {
+  if (!transforms || transforms.length === 0) {
+    return item;
+  }
+  const transformed = { ...item };
+  transforms.forEach(transform => applyTransform(transformed, transform));
+  return transformed;
+}
+
+/**
+ * Selected fields as named after the transforms: a renamed field is selected under its new name
+ */
+export function getTransformedSelection(selectedFields: string[], transforms: FieldTransform[] | undefined): string[] {
+  const renamed = (transforms || []).filter((transform): transform is Extract<FieldTransform, { kind: 'rename' }> => transform.kind === 'rename');
+  return selectedFields.map(field => renamed.reduce((name, transform) => (transform.field === name ? transform.to : name), field));
+}
+
+/**
+ * Field-by-field difference each item would get, for items that change at all
+ */
+export function previewFieldTransforms(items: Record<string, any>[], transforms: FieldTransform[], primaryKey = 'id'): TransformPreviewRow[] {
+  return items
+    .map(item => {
+      const transformed = applyFieldTransforms(item, transforms);
+      const fields = [...new Set([...Object.keys(item), ...Object.keys(transformed)])];
+      return {
+        id: item[primaryKey],
+        changes: fields
+          .filter(field => JSON.stringify(item[field] ?? null) !== JSON.stringify(transformed[field] ?? null) || (field in item) !== (field in transformed))
+          .map(field => ({ field, before: item[field], after: transformed[field] })),
+      };
+    })
+    .filter(row => row.changes.length > 0);
+}
@@ -1,4 +1,5 @@
-import { DirectusClient } from "./DirectusClient";
+import { DirectusClient, type RetryEvent } from "./DirectusClient";
+import { forEachConcurrent, isAbortError } from "./requestScheduler";
 import type { ImportLogEntry } from "../types";
 
 interface FileItem {
@@ -41,6 +42,7 @@ interface FileImportResult {
   }>;
   importLog?: ImportLogEntry[];
   error?: any;
+  cancelled?: boolean; // Stopped through the signal; importedFiles holds what finished before
 }
 
 /**
@@ -62,20 +64,18 @@ export async function getFiles(
   try {
     const client = new DirectusClient(sourceUrl, sourceToken);
     
-    const params: any = {
-      limit: options?.limit || -1,
-      fields: '*',
-    };
-    
     // Filter by folder if specified
-    if (options?.folder !== undefined) {
-      params.filter = {
-        folder: options.folder === null ? { _null: true } : { _eq: options.folder }
-      };
-    }
-    
-    const response = await client.get('/files', { params });
-    const files = response.data || [];
+    const filter = options?.folder !== undefined
+      ? { folder: options.folder === null ? { _null: true } : { _eq: options.folder } }
+      : undefined;
+    
+    // Files are read page by page; file ids are UUIDs, so keyset paging on id is stable
+    const files: FileItem[] = await client.readAll('/files', {
+      filter,
+      fields: ['*'],
+      paging: 'keyset',
+      limit: options?.limit || undefined,
+    });
     
     return {
       success: true,
@@ -133,16 +133,20 @@ export async function importFolders(
   sourceToken: string,
   targetUrl: string,
   targetToken: string,
-  selectedFolderIds?: string[] // Optional: if provided, only migrate these folders
+  selectedFolderIds?: string[], // Optional: if provided, only migrate these folders
+  options?: {
+    signal?: AbortSignal;
+  }
 ): Promise<{
   success: boolean;
   message: string;
   folderMapping?: Map<string, string>; // source ID -> target ID
   error?: any;
+  cancelled?: boolean;
 }> {
   try {
-    const sourceClient = new DirectusClient(sourceUrl, sourceToken);
-    const targetClient = new DirectusClient(targetUrl, targetToken);
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { signal: options?.signal });
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', { signal: options?.signal });
 
     // Get all folders from source
     const sourceFoldersResponse = await sourceClient.get('/folders', { params: { limit: -1 } });
@@ -201,6 +205,9 @@ export async function importFolders(
 
     // Import folders in order
     for (const sourceFolder of sortedFolders) {
+      if (options?.signal?.aborted) {
+        break;
+      }
       try {
         // Check if folder already exists by ID
         const existingFolder = existingFoldersById.get(sourceFolder.id);
@@ -237,6 +244,9 @@ export async function importFolders(
         }
 
       } catch (error: any) {
+        if (isAbortError(error)) {
+          break;
+        }
         errorCount++;
         console.error(`[Folder ${sourceFolder.id}] ✗ Failed to create:`, {
           name: sourceFolder.name,
@@ -256,6 +266,15 @@ export async function importFolders(
       messageParts.push(`${errorCount} failed`);
     }
 
+    if (options?.signal?.aborted) {
+      return {
+        success: false,
+        cancelled: true,
+        message: `Folder migration cancelled: ${messageParts.join(', ')}`,
+        folderMapping,
+      };
+    }
+
     return {
       success: true,
       message: messageParts.join(', '),
@@ -263,6 +282,14 @@ export async function importFolders(
     };
 
   } catch (error: any) {
+    if (isAbortError(error)) {
+      return {
+        success: false,
+        cancelled: true,
+        message: 'Folder migration cancelled',
+        folderMapping: new Map(),
+      };
+    }
     return {
       success: false,
       message: `Failed to migrate folders: ${error.message}`,
@@ -289,12 +316,15 @@ export async function importFile(
   options?: {
     targetFolderId?: string | null;
     preserveId?: boolean;
+    onRetry?: (event: RetryEvent) => void; // Forward request retries to the caller's log
+    signal?: AbortSignal;
   }
 ): Promise<{
   success: boolean;
   fileId?: string;
   action?: 'created' | 'updated' | 'skipped';
   error?: any;
+  cancelled?: boolean;
 }> {
   const importLog: ImportLogEntry[] = [];
   
@@ -307,8 +337,9 @@ export async function importFile(
   };
 
   try {
-    const sourceClient = new DirectusClient(sourceUrl, sourceToken);
-    const targetClient = new DirectusClient(targetUrl, targetToken);
+    const clientOptions = { onRetry: options?.onRetry, signal: options?.signal };
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', clientOptions);
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', clientOptions);
 
     // Step 1: Get file metadata from source
     logStep('fetch_file_metadata', { fileId });
@@ -511,6 +542,15 @@ export async function importFile(
     };
 
   } catch (error: any) {
+    if (isAbortError(error)) {
+      logStep('import_cancelled', { fileId });
+      return {
+        success: false,
+        cancelled: true,
+        error: { message: error.message },
+      };
+    }
+
     const errorDetails = {
       fileId,
       error: error.message,
@@ -546,6 +586,7 @@ export async function importFiles(
     folderMapping?: Map<string, string>; // Map source folder IDs to target folder IDs
     preserveId?: boolean;
     onProgress?: (current: number, total: number) => void;
+    signal?: AbortSignal; // Stops the import; files already copied are kept
   }
 ): Promise<FileImportResult> {
   const importLog: ImportLogEntry[] = [];
@@ -577,15 +618,15 @@ export async function importFiles(
     let errorCount = 0;
     let skippedCount = 0;
 
-    const sourceClient = new DirectusClient(sourceUrl, sourceToken);
+    const onRetry = (event: RetryEvent) => logStep('request_retry', event);
+    const signal = options?.signal;
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { onRetry, signal });
 
-    for (let i = 0; i < fileIds.length; i++) {
-      const fileId = fileIds[i];
-      
-      if (options?.onProgress) {
-        options.onProgress(i + 1, fileIds.length);
-      }
+    // Files are processed in parallel; the shared throttle of the target keeps us under its rate limit
+    const concurrency = DirectusClient.getThrottle(targetUrl).maxConcurrent;
+    let completedCount = 0;
 
+    await forEachConcurrent(fileIds, concurrency, async (fileId, i) => {
       // Get file metadata to determine folder
       let targetFolderId: string | null | undefined = undefined;
       try {
@@ -599,6 +640,9 @@ export async function importFiles(
           targetFolderId = null;
         }
       } catch (err) {
+        if (isAbortError(err)) {
+          return;
+        }
         // Continue without folder mapping if metadata fetch fails
         console.warn(`[File ${fileId}] Could not fetch metadata for folder mapping:`, err);
       }
@@ -615,9 +659,16 @@ export async function importFiles(
           {
             targetFolderId,
             preserveId: options?.preserveId,
+            onRetry,
+            signal,
           }
         );
 
+        // Cancelled mid-copy: the file is neither done nor failed
+        if (result.cancelled) {
+          return;
+        }
+
         if (result.success) {
           if (result.action === 'skipped') {
             skippedCount++;
@@ -660,8 +711,24 @@ export async function importFiles(
         });
       }
 
-      // Add small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
+      completedCount++;
+      if (options?.onProgress) {
+        options.onProgress(completedCount, fileIds.length);
+      }
+    }, signal);
+
+    if (signal?.aborted) {
+      logStep('import_files_cancelled', {
+        total: fileIds.length,
+        completed: importedFiles.length,
+      });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Cancelled after ${importedFiles.length} of ${fileIds.length} files (${successCount} imported, ${skippedCount} skipped, ${errorCount} failed)`,
+        importedFiles,
+        importLog,
+      };
     }
 
     logStep('import_files_complete', {
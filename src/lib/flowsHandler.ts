@@ -1,4 +1,5 @@
 import { DirectusClient } from './DirectusClient';
+import { forEachConcurrent, isAbortError } from './requestScheduler';
 import type { ImportLogEntry } from '../types';
 
 // Directus Flow Types
@@ -61,6 +62,7 @@ export interface FlowMigrationOptions {
     roles?: Record<string, string>;
     baseUrl?: string;
   };
+  signal?: AbortSignal; // Stops the migration; flows already imported are kept
 }
 
 export interface FlowValidationResult {
@@ -93,6 +95,7 @@ export interface FlowImportResult {
   }[];
   validationResults?: FlowValidationResult;
   importLog?: ImportLogEntry[];
+  cancelled?: boolean;
 }
 
 /**
@@ -111,16 +114,10 @@ export async function getFlowsFromDirectus(
     const client = new DirectusClient(baseUrl, token);
 
     // Fetch flows
-    const flowsResponse = await client.get('/flows', {
-      params: { limit: -1 }
-    });
-    const flows = flowsResponse.data || [];
+    const flows: DirectusFlow[] = await client.readAll('/flows');
 
-    // Fetch operations
-    const operationsResponse = await client.get('/operations', {
-      params: { limit: -1 }
-    });
-    const operations = operationsResponse.data || [];
+    // Fetch operations (paged, large instances have many of them)
+    const operations: DirectusOperation[] = await client.readAll('/operations', { paging: 'keyset' });
 
     return {
       success: true,
@@ -365,6 +362,27 @@ export function transformOperationOptions(
   };
 }
 
+/**
+ * Map the collections an event trigger listens to for the target environment
+ */
+export function transformFlowTrigger(
+  flow: DirectusFlow,
+  environmentMapping: FlowMigrationOptions['environmentMapping'] = {}
+): DirectusFlow {
+  const collections = flow.options?.collections;
+  if (!Array.isArray(collections) || !environmentMapping?.collections) {
+    return flow;
+  }
+
+  return {
+    ...flow,
+    options: {
+      ...flow.options,
+      collections: collections.map((collection: string) => environmentMapping.collections?.[collection] || collection)
+    }
+  };
+}
+
 /**
  * Import flows and operations to target Directus instance
  */
@@ -407,7 +425,10 @@ export async function importFlowsToDirectus(
       };
     }
 
-    const client = new DirectusClient(targetUrl, targetToken);
+    const client = new DirectusClient(targetUrl, targetToken, 'token', {
+      onRetry: (event) => logStep('request_retry', event),
+      signal: options.signal
+    });
 
     // Create ID mapping if not preserving IDs
     const idMapping: Record<string, string> = {};
@@ -424,10 +445,14 @@ export async function importFlowsToDirectus(
 
     // Import each flow as a complete unit (flow + operations together)
     // This is the correct approach according to Directus API
-    for (const sourceFlow of sourceFlows) {
+    // Flows are independent of each other, so they are imported in parallel
+    const concurrency = DirectusClient.getThrottle(targetUrl).maxConcurrent;
+    await forEachConcurrent(sourceFlows, concurrency, async (sourceFlow) => {
       try {
         const flowId = options.preserveIds ? sourceFlow.id : idMapping[sourceFlow.id];
-        const { date_created, user_created, date_updated, user_updated, ...cleanFlow } = sourceFlow;
+        const { date_created, user_created, date_updated, user_updated, ...cleanFlow } = options.transformOptions
+          ? transformFlowTrigger(sourceFlow, options.environmentMapping)
+          : sourceFlow;
         
         // Get all operations for this flow
         const flowOperations = sourceOperations.filter(op => op.flow === sourceFlow.id);
@@ -436,7 +461,9 @@ export async function importFlowsToDirectus(
         const operations = flowOperations.map(sourceOp => {
           const operationId = options.preserveIds ? sourceOp.id : idMapping[sourceOp.id];
           
-          const { date_created, user_created, date_updated, user_updated, resolve, reject, ...cleanOp } = sourceOp;
+          const { date_created, user_created, date_updated, user_updated, resolve, reject, ...cleanOp } = options.transformOptions
+            ? transformOperationOptions(sourceOp, options.environmentMapping)
+            : sourceOp;
           
           return {
             ...cleanOp,
@@ -461,10 +488,9 @@ export async function importFlowsToDirectus(
         };
         
         // Try to import the complete flow
-        let importResponse;
         try {
           // Try POST first (create new flow with operations)
-          importResponse = await client.post('/flows', flowWithOperations);
+          await client.post('/flows', flowWithOperations);
           logStep('flow_created', { originalId: sourceFlow.id, newId: flowId, name: sourceFlow.name });
           
           importedFlows?.push({
@@ -498,7 +524,8 @@ export async function importFlowsToDirectus(
                   reject: rejectId
                 });
                 
-              } catch (refError: any) {
+              } catch {
+                // References are best-effort; the flow itself was created
               }
             }
           }
@@ -508,48 +535,47 @@ export async function importFlowsToDirectus(
           // If POST fails, try PATCH (update existing)
           const { id, operations: ops, ...flowUpdateData } = flowWithOperations;
           
-          try {
-            await client.patch(`/flows/${flowId}`, flowUpdateData);
-            logStep('flow_updated', { originalId: sourceFlow.id, newId: flowId, name: sourceFlow.name });
-            
-            importedFlows?.push({
-              originalId: sourceFlow.id,
-              newId: flowId,
-              name: sourceFlow.name,
-              status: 'success'
-            });
-            
-            // Update operations individually
-            for (const operation of operations) {
-              try {
-                const opId = operation.id || idMapping[sourceOperations.find(o => o.flow === sourceFlow.id && o.key === operation.key)?.id || ''];
-                const { id: _, ...opData } = operation;
-                
-                await client.patch(`/operations/${opId}`, opData);
-                
-                importedOperations?.push({
-                  originalId: sourceOperations.find(o => o.id === opId)?.id || opId,
-                  newId: opId,
-                  flowId: flowId,
-                  status: 'success'
-                });
-              } catch (opError: any) {
-                importedOperations?.push({
-                  originalId: operation.id || '',
-                  newId: '',
-                  flowId: flowId,
-                  status: 'error',
-                  error: opError.message
-                });
-              }
+          await client.patch(`/flows/${flowId}`, flowUpdateData);
+          logStep('flow_updated', { originalId: sourceFlow.id, newId: flowId, name: sourceFlow.name });
+          
+          importedFlows?.push({
+            originalId: sourceFlow.id,
+            newId: flowId,
+            name: sourceFlow.name,
+            status: 'success'
+          });
+          
+          // Update operations individually
+          for (const operation of operations) {
+            try {
+              const opId = operation.id || idMapping[sourceOperations.find(o => o.flow === sourceFlow.id && o.key === operation.key)?.id || ''];
+              const { id: _, ...opData } = operation;
+              
+              await client.patch(`/operations/${opId}`, opData);
+              
+              importedOperations?.push({
+                originalId: sourceOperations.find(o => o.id === opId)?.id || opId,
+                newId: opId,
+                flowId: flowId,
+                status: 'success'
+              });
+            } catch (opError: any) {
+              importedOperations?.push({
+                originalId: operation.id || '',
+                newId: '',
+                flowId: flowId,
+                status: 'error',
+                error: opError.message
+              });
             }
-            
-          } catch (updateError: any) {
-            throw updateError;
           }
         }
 
       } catch (error: any) {
+        // Cancelled flows are left out of the results rather than reported as failures
+        if (isAbortError(error)) {
+          return;
+        }
         logStep('flow_import_failed', { flowId: sourceFlow.id, error: error.message });
         
         importedFlows?.push({
@@ -560,7 +586,7 @@ export async function importFlowsToDirectus(
           error: error.message
         });
       }
-    }  
+    }, options.signal);
 
     const successfulFlows = importedFlows?.filter(f => f.status === 'success').length || 0;
     const successfulOperations = importedOperations?.filter(o => o.status === 'success').length || 0;
@@ -572,6 +598,19 @@ export async function importFlowsToDirectus(
       totalOperations: sourceOperations.length
     });
 
+    if (options.signal?.aborted) {
+      logStep('flow_migration_cancelled', { successfulFlows, totalFlows: sourceFlows.length });
+      return {
+        success: false,
+        cancelled: true,
+        message: `Flow migration cancelled after ${successfulFlows}/${sourceFlows.length} flows`,
+        importedFlows,
+        importedOperations,
+        validationResults: validationResult,
+        importLog
+      };
+    }
+
     return {
       success: true,
       message: `Successfully imported ${successfulFlows}/${sourceFlows.length} flows and ${successfulOperations}/${sourceOperations.length} operations`,
@@ -0,0 +1,154 @@
+import { analyzeDependencies, calculateMigrationOrder, getRelatedCollections } from './dependencyAnalyzer';
+
+/**
+ * Graph Export - the collection dependency graph as Mermaid, Graphviz DOT or JSON.
+ * Output is sorted and carries no timestamp, so exports of two releases diff cleanly.
+ */
+
+export type GraphExportFormat = 'mermaid' | 'dot' | 'json';
+
+export interface GraphEdge {
+  from: string; // Collection holding the foreign key
+  to: string; // Collection it points at
+  field: string;
+  kind: 'm2o' | 'm2a';
+  inCycle: boolean;
+}
+
+export interface GraphExport {
+  version: 1;
+  collections: { collection: string; level: number }[];
+  edges: GraphEdge[];
+  cycles: string[][];
+  order: string[];
+}
+
+export const GRAPH_EXPORT_EXTENSIONS: Record<GraphExportFormat, string> = {
+  mermaid: 'mmd',
+  dot: 'dot',
+  json: 'json',
+};
+
+/**
+ * Build the exported graph of the given collections (every related collection when omitted)
+ */
+export function buildGraphExport(relations: any[], collections?: string[]): GraphExport {
+  const graph = analyzeDependencies(relations);
+  const selected = collections || Object.keys(graph);
+  const migrationOrder = calculateMigrationOrder(graph, selected);
+
+  const levels = new Map<string, number>();
+  migrationOrder.levels.forEach((names, level) => names.forEach(name => levels.set(name, level)));
+
+  // Consecutive collections of a cycle are the edges closing it
+  const cycleEdges = new Set<string>();
+  migrationOrder.cycles.forEach(cycle => {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      cycleEdges.add(`${cycle[i]}\u0000${cycle[i + 1]}`);
+    }
+  });
+
+  const edges: GraphEdge[] = [];
+  relations.forEach((rel: any) => {
+    if (!rel.field || !selected.includes(rel.collection)) {
+      return;
+    }
+    getRelatedCollections(rel)
+      .filter(related => selected.includes(related))
+      .forEach(related => {
+        edges.push({
+          from: rel.collection,
+          to: related,
+          field: rel.field,
+          kind: rel.related_collection ? 'm2o' : 'm2a',
+          inCycle: cycleEdges.has(`${rel.collection}\u0000${related}`),
+        });
+      });
+  });
+
+  edges.sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to) || a.field.localeCompare(b.field));
+
+  return {
+    version: 1,
+    collections: [...selected].sort().map(collection => ({ collection, level: levels.get(collection) ?? 0 })),
+    edges,
+    cycles: migrationOrder.cycles,
+    order: migrationOrder.order,
+  };
+}
+
+export function formatGraph(graph: GraphExport, format: GraphExportFormat): string {
+  if (format === 'mermaid') {
+    return toMermaid(graph);
+  }
+  if (format === 'dot') {
+    return toDot(graph);
+  }
+  return JSON.stringify(graph, null, 2) + '\n';
+}
+
+function groupByLevel(graph: GraphExport): [number, string[]][] {
+  const byLevel = new Map<number, string[]>();
+  graph.collections.forEach(({ collection, level }) => {
+    byLevel.set(level, [...(byLevel.get(level) || []), collection]);
+  });
+  return [...byLevel.entries()].sort(([a], [b]) => a - b);
+}
+
+// Mermaid node ids only allow word characters; the label keeps the real name
+function mermaidId(collection: string): string {
+  return `c_${collection.replace(/\W/g, '_')}`;
+}
+
+function toMermaid(graph: GraphExport): string {
+  const lines = ['graph LR'];
+
+  groupByLevel(graph).forEach(([level, names]) => {
+    lines.push(`  subgraph level_${level} ["Level ${level}"]`);
+    names.forEach(name => lines.push(`    ${mermaidId(name)}["${name}"]`));
+    lines.push('  end');
+  });
+
+  graph.edges.forEach(edge => {
+    const arrow = edge.kind === 'm2a' ? '-.->' : '-->';
+    lines.push(`  ${mermaidId(edge.from)} ${arrow}|${edge.field}| ${mermaidId(edge.to)}`);
+  });
+
+  // Edges are numbered in declaration order
+  graph.edges.forEach((edge, index) => {
+    if (edge.inCycle) {
+      lines.push(`  linkStyle ${index} stroke:#dc2626,stroke-width:2px`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function toDot(graph: GraphExport): string {
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+
+  groupByLevel(graph).forEach(([level, names]) => {
+    lines.push(`  subgraph cluster_level_${level} {`);
+    lines.push(`    label=${dotString(`Level ${level}`)};`);
+    names.forEach(name => lines.push(`    ${dotString(name)};`));
+    lines.push('  }');
+  });
+
+  graph.edges.forEach(edge => {
+    const attributes = [`label=${dotString(edge.field)}`];
+    if (edge.kind === 'm2a') {
+      attributes.push('style=dashed');
+    }
+    if (edge.inCycle) {
+      attributes.push('color=red');
+    }
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attributes.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
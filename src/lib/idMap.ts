@@ -0,0 +1,183 @@
+import { renameCollection, type RenameMap } from './renameMap';
+
+/**
+ * ID Map - Source → target primary keys recorded by imports
+ * Only remapped ids are stored; an id without an entry is the same on both sides.
+ */
+
+const STORAGE_KEY = 'directus-migration-id-map';
+
+export type CollectionIdMap = Record<string, string | number>;
+
+function getMapKey(sourceUrl: string, targetUrl: string, collection: string): string {
+  const normalize = (url: string) => url.replace(/\/$/, '');
+  return `${normalize(sourceUrl)}|${normalize(targetUrl)}|${collection}`;
+}
+
+function loadAll(): Record<string, CollectionIdMap> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getIdMap(sourceUrl: string, targetUrl: string, collection: string): CollectionIdMap {
+  return loadAll()[getMapKey(sourceUrl, targetUrl, collection)] || {};
+}
+
+/**
+ * Merge newly imported ids into the stored map of a collection. Returns false when
+ * the map does not fit in storage; the stored map is then left as it was.
+ */
+export function saveIdMap(
+  sourceUrl: string,
+  targetUrl: string,
+  collection: string,
+  idMap: CollectionIdMap
+): boolean {
+  const key = getMapKey(sourceUrl, targetUrl, collection);
+  const all = loadAll();
+  const merged = { ...all[key] };
+  Object.entries(idMap).forEach(([sourceId, targetId]) => {
+    if (String(sourceId) === String(targetId)) {
+      delete merged[sourceId];
+    } else {
+      merged[sourceId] = targetId;
+    }
+  });
+
+  if (Object.keys(merged).length > 0) {
+    all[key] = merged;
+  } else {
+    delete all[key];
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function clearIdMap(sourceUrl: string, targetUrl: string, collection: string): void {
+  const all = loadAll();
+  delete all[getMapKey(sourceUrl, targetUrl, collection)];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+/**
+ * Migration-wide view of the id maps of every collection.
+ * Maps are loaded lazily and updated in memory as items are written, so a
+ * collection imported later (or a self-reference) sees ids created earlier in the run.
+ */
+export class MigrationIdMap {
+  private sourceUrl: string;
+  private targetUrl: string;
+  private maps = new Map<string, CollectionIdMap>();
+
+  constructor(sourceUrl: string, targetUrl: string) {
+    this.sourceUrl = sourceUrl;
+    this.targetUrl = targetUrl;
+  }
+
+  get(collection: string): CollectionIdMap {
+    let map = this.maps.get(collection);
+    if (!map) {
+      map = getIdMap(this.sourceUrl, this.targetUrl, collection);
+      this.maps.set(collection, map);
+    }
+    return map;
+  }
+
+  set(collection: string, sourceId: string | number, targetId: string | number): void {
+    this.get(collection)[String(sourceId)] = targetId;
+  }
+
+  /**
+   * Target id of a source item, or the source id itself when it was not remapped
+   */
+  resolve(collection: string, sourceId: any): any {
+    if (sourceId === null || sourceId === undefined) {
+      return sourceId;
+    }
+    const mapped = this.get(collection)[String(sourceId)];
+    return mapped !== undefined ? mapped : sourceId;
+  }
+}
+
+type ForeignKeyRewrite =
+  | { kind: 'm2o'; field: string; related: string }
+  | { kind: 'o2m'; field: string; related: string }
+  | { kind: 'm2a'; field: string; collectionField: string; allowed?: string[] };
+
+/**
+ * Build a function that rewrites the relational values of a collection's items
+ * to target ids: M2O keys, O2M/M2M alias arrays (child and junction ids) and
+ * M2A `item` keys resolved against the collection named next to them.
+ * With a rename map, the collection names of M2A rows are renamed to the target's.
+ * Returns null when the collection has no relations to rewrite.
+ */
+export function createForeignKeyRewriter(
+  collection: string,
+  relations: any[],
+  idMaps: MigrationIdMap,
+  renames?: RenameMap
+): ((item: any) => any) | null {
+  const rewrites: ForeignKeyRewrite[] = [];
+  relations.forEach((rel: any) => {
+    if (rel.collection === collection && rel.field) {
+      if (rel.related_collection) {
+        rewrites.push({ kind: 'm2o', field: rel.field, related: rel.related_collection });
+      } else if (rel.meta?.one_collection_field) {
+        rewrites.push({
+          kind: 'm2a',
+          field: rel.field,
+          collectionField: rel.meta.one_collection_field,
+          allowed: Array.isArray(rel.meta.one_allowed_collections) ? rel.meta.one_allowed_collections : undefined,
+        });
+      }
+    }
+    if (rel.related_collection === collection && rel.meta?.one_field) {
+      rewrites.push({ kind: 'o2m', field: rel.meta.one_field, related: rel.collection });
+    }
+  });
+
+  if (rewrites.length === 0) {
+    return null;
+  }
+
+  // Values may be plain keys or expanded objects
+  const remap = (related: string, value: any): any => {
+    if (value && typeof value === 'object') {
+      return 'id' in value ? { ...value, id: idMaps.resolve(related, value.id) } : value;
+    }
+    return idMaps.resolve(related, value);
+  };
+
+  return (item: any) => {
+    const rewritten = { ...item };
+    rewrites.forEach(rewrite => {
+      const value = rewritten[rewrite.field];
+      if (value === null || value === undefined) {
+        return;
+      }
+      if (rewrite.kind === 'm2a') {
+        // Each row names its own collection; only allowed ones have a map to resolve against
+        const related = rewritten[rewrite.collectionField];
+        if (typeof related === 'string' && (!rewrite.allowed || rewrite.allowed.includes(related))) {
+          rewritten[rewrite.field] = remap(related, value);
+          rewritten[rewrite.collectionField] = renameCollection(renames, related);
+        }
+      } else if (rewrite.kind === 'o2m') {
+        if (Array.isArray(value)) {
+          rewritten[rewrite.field] = value.map(child => remap(rewrite.related, child));
+        }
+      } else {
+        rewritten[rewrite.field] = remap(rewrite.related, value);
+      }
+    });
+    return rewritten;
+  };
+}
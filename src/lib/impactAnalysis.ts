@@ -0,0 +1,217 @@
+import { DirectusClient } from './DirectusClient';
+import { getRelations } from './apiHandlers';
+import { fetchAccessControlData } from './accessControlHandler';
+import { getFlowsFromDirectus } from './flowsHandler';
+import { analyzeDependencies, getRelatedCollections } from './dependencyAnalyzer';
+import { isAbortError } from './requestScheduler';
+
+/**
+ * Impact Analysis - what else references a collection on an instance.
+ * Run against the target before overwriting or mirroring a collection: dependent
+ * collections, flows, permissions and dashboard panels all point at its rows or name.
+ */
+
+export interface ImpactDependent {
+  collection: string;
+  field: string;
+  kind: 'm2o' | 'm2a';
+  referencingRows: number | null; // Rows with the foreign key set (null when the count failed)
+}
+
+export interface ImpactFlow {
+  id: string;
+  name: string;
+  status: string;
+  reasons: string[];
+}
+
+export interface ImpactPermission {
+  id: number;
+  policy: string | null;
+  policyName: string;
+  action: string;
+  fields: string[] | null;
+}
+
+export interface ImpactPanel {
+  id: string;
+  name: string;
+  type: string;
+  dashboard: string;
+  dashboardName: string;
+}
+
+export interface CollectionImpact {
+  collection: string;
+  itemCount: number | null;
+  dependents: ImpactDependent[];
+  flows: ImpactFlow[];
+  permissions: ImpactPermission[];
+  panels: ImpactPanel[];
+  warnings: string[]; // Parts of the report that could not be loaded
+}
+
+export interface ImpactAnalysisResult {
+  success: boolean;
+  message: string;
+  impact?: CollectionImpact;
+  error?: any;
+  cancelled?: boolean;
+}
+
+/**
+ * Reasons a flow touches the collection: its trigger listens to it, or one of
+ * its operations reads/writes it or calls its items endpoint
+ */
+function getFlowReasons(flow: any, operations: any[], collection: string): string[] {
+  const reasons: string[] = [];
+  const triggerCollections: string[] = flow.options?.collections || [];
+  if (triggerCollections.includes(collection)) {
+    reasons.push(`${flow.trigger} trigger${flow.options?.scope ? ` (${[].concat(flow.options.scope).join(', ')})` : ''}`);
+  }
+
+  const itemsPath = `/items/${collection}`;
+  operations
+    .filter(operation => operation.flow === flow.id)
+    .forEach(operation => {
+      const label = operation.name || operation.key;
+      if (operation.options?.collection === collection) {
+        reasons.push(`${operation.type} operation "${label}"`);
+      } else if (JSON.stringify(operation.options || {}).includes(itemsPath)) {
+        reasons.push(`operation "${label}" calls ${itemsPath}`);
+      }
+    });
+
+  return reasons;
+}
+
+/**
+ * Build the impact report of one collection
+ */
+export async function analyzeCollectionImpact(
+  baseUrl: string,
+  token: string,
+  collection: string,
+  options?: { signal?: AbortSignal }
+): Promise<ImpactAnalysisResult> {
+  try {
+    const client = new DirectusClient(baseUrl, token, 'token', { signal: options?.signal });
+    const warnings: string[] = [];
+
+    const itemCount = await client.countItems(collection).catch((error: any) => {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      warnings.push(`Could not count ${collection} items: ${error.message}`);
+      return null;
+    });
+
+    // Dependents: every foreign key whose related collection is this one
+    const dependents: ImpactDependent[] = [];
+    const relationsResult = await getRelations(baseUrl, token);
+    if (relationsResult.success) {
+      const relations = relationsResult.relations || [];
+      const dependedBy = analyzeDependencies(relations)[collection]?.dependedBy || [];
+      for (const rel of relations) {
+        if (!rel.field || !dependedBy.includes(rel.collection) || !getRelatedCollections(rel).includes(collection)) {
+          continue;
+        }
+        const collectionField = rel.related_collection ? undefined : rel.meta?.one_collection_field;
+        const filter = collectionField
+          ? { _and: [{ [collectionField]: { _eq: collection } }, { [rel.field]: { _nnull: true } }] }
+          : { [rel.field]: { _nnull: true } };
+        const referencingRows = await client.countItems(rel.collection, filter).catch((error: any) => {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          return null;
+        });
+        dependents.push({
+          collection: rel.collection,
+          field: rel.field,
+          kind: collectionField ? 'm2a' : 'm2o',
+          referencingRows,
+        });
+      }
+    } else {
+      warnings.push(`Could not load relations: ${relationsResult.error?.message}`);
+    }
+
+    const flows: ImpactFlow[] = [];
+    const flowsResult = await getFlowsFromDirectus(baseUrl, token);
+    if (flowsResult.success) {
+      (flowsResult.flows || []).forEach(flow => {
+        const reasons = getFlowReasons(flow, flowsResult.operations || [], collection);
+        if (reasons.length > 0) {
+          flows.push({ id: flow.id, name: flow.name, status: flow.status, reasons });
+        }
+      });
+    } else {
+      warnings.push(`Could not load flows: ${flowsResult.error?.message}`);
+    }
+
+    const permissions: ImpactPermission[] = [];
+    const accessResult = await fetchAccessControlData(baseUrl, token);
+    if (accessResult.success) {
+      const policyNames = new Map((accessResult.policies || []).map(policy => [policy.id, policy.name]));
+      (accessResult.permissions || [])
+        .filter(permission => permission.collection === collection)
+        .forEach(permission => {
+          permissions.push({
+            id: permission.id,
+            policy: permission.policy,
+            policyName: permission.policy ? policyNames.get(permission.policy) || permission.policy : 'Public',
+            action: permission.action,
+            fields: permission.fields,
+          });
+        });
+    } else {
+      warnings.push(`Could not load permissions: ${accessResult.error}`);
+    }
+
+    // Insights panels keep the queried collection in their options
+    const panels: ImpactPanel[] = [];
+    try {
+      const [dashboards, allPanels] = await Promise.all([
+        client.readAll('/dashboards'),
+        client.readAll('/panels'),
+      ]);
+      const dashboardNames = new Map(dashboards.map((dashboard: any) => [dashboard.id, dashboard.name]));
+      allPanels
+        .filter((panel: any) => panel.options?.collection === collection)
+        .forEach((panel: any) => {
+          panels.push({
+            id: panel.id,
+            name: panel.name || panel.type,
+            type: panel.type,
+            dashboard: panel.dashboard,
+            dashboardName: dashboardNames.get(panel.dashboard) || panel.dashboard,
+          });
+        });
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      warnings.push(`Could not load dashboards: ${error.message}`);
+    }
+
+    const total = dependents.length + flows.length + permissions.length + panels.length;
+    return {
+      success: true,
+      message: total === 0
+        ? `Nothing else references ${collection}`
+        : `${collection} is referenced by ${dependents.length} relations, ${flows.length} flows, ` +
+          `${permissions.length} permissions and ${panels.length} panels`,
+      impact: { collection, itemCount, dependents, flows, permissions, panels, warnings },
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      return { success: false, cancelled: true, message: 'Impact analysis cancelled' };
+    }
+    return {
+      success: false,
+      message: `Impact analysis failed: ${error.message}`,
+      error: { message: error.message, status: error.response?.status, details: error.response?.data },
+    };
+  }
+}
@@ -0,0 +1,367 @@
+import { DirectusClient } from './DirectusClient';
+import { getRelations, importSelectedItems } from './apiHandlers';
+import { importFiles } from './filesHandler';
+import { analyzeDependencies, calculateMigrationOrder } from './dependencyAnalyzer';
+import { MigrationIdMap, saveIdMap, type CollectionIdMap } from './idMap';
+import type { CollectionTransforms } from './fieldTransforms';
+import { getRelatedRowsPlans, groupLinkedItems } from './relationalCopy';
+import { isAbortError } from './requestScheduler';
+import type { ImportLogEntry } from '../types';
+
+/**
+ * Item Closure - every item the selected items reference, directly or not.
+ * M2O, M2A and M2M references are followed recursively; files and users are
+ * collected but not expanded further. The closure migrates dependencies first.
+ */
+
+export interface ClosureCollection {
+  collection: string;
+  ids: (string | number)[];
+  selected: boolean; // The collection the user picked items from
+}
+
+export interface ItemClosure {
+  collections: ClosureCollection[]; // In migration order (dependencies first)
+  totalItems: number;
+  truncated: boolean; // The walk stopped at maxItems
+  warnings: string[];
+  relations: any[];
+}
+
+export interface ItemClosureResult {
+  success: boolean;
+  message: string;
+  closure?: ItemClosure;
+  error?: any;
+  cancelled?: boolean;
+}
+
+export interface ClosureMigrationResult {
+  success: boolean;
+  message: string;
+  results: { collection: string; imported: number; failed: number }[];
+  importLog?: ImportLogEntry[];
+  cancelled?: boolean;
+}
+
+// System collections whose items are copied with the closure (leaf nodes of the walk)
+const SYSTEM_LEAVES = ['directus_users', 'directus_files'];
+
+export const DEFAULT_MAX_CLOSURE_ITEMS = 1000;
+
+// Keeps the `_in` filter of a read well below URL length limits
+const IDS_PER_REQUEST = 100;
+
+/**
+ * Walk the references of the selected items until no new item turns up
+ */
+export async function resolveItemClosure(
+  sourceUrl: string,
+  sourceToken: string,
+  collection: string,
+  ids: (string | number)[],
+  options?: {
+    relations?: any[];
+    maxItems?: number;
+    signal?: AbortSignal;
+  }
+): Promise<ItemClosureResult> {
+  try {
+    const relations = options?.relations || (await getRelations(sourceUrl, sourceToken)).relations || [];
+    const maxItems = options?.maxItems || DEFAULT_MAX_CLOSURE_ITEMS;
+    const client = new DirectusClient(sourceUrl, sourceToken, 'token', { signal: options?.signal });
+    const warnings: string[] = [];
+
+    // Collection -> (String(id) -> id), so numeric and string keys are not counted twice
+    const found = new Map<string, Map<string, string | number>>();
+    let totalItems = 0;
+    let truncated = false;
+    const queue: { collection: string; ids: (string | number)[] }[] = [];
+
+    const add = (target: string, id: any) => {
+      if (id === null || id === undefined) {
+        return;
+      }
+      const key = id && typeof id === 'object' ? id.id : id;
+      if (key === null || key === undefined) {
+        return;
+      }
+      if (target.startsWith('directus_') && !SYSTEM_LEAVES.includes(target)) {
+        return;
+      }
+      if (!found.has(target)) {
+        found.set(target, new Map());
+      }
+      const seen = found.get(target)!;
+      if (seen.has(String(key))) {
+        return;
+      }
+      if (totalItems >= maxItems) {
+        truncated = true;
+        return;
+      }
+      seen.set(String(key), key);
+      totalItems++;
+      if (!SYSTEM_LEAVES.includes(target)) {
+        const pending = queue.find(entry => entry.collection === target);
+        if (pending) {
+          pending.ids.push(key);
+        } else {
+          queue.push({ collection: target, ids: [key] });
+        }
+      }
+    };
+
+    const readByKeys = async (target: string, field: string, keys: (string | number)[]) => {
+      const rows: any[] = [];
+      for (let start = 0; start < keys.length; start += IDS_PER_REQUEST) {
+        rows.push(...await client.readAll(`/items/${target}`, {
+          filter: { [field]: { _in: keys.slice(start, start + IDS_PER_REQUEST) } },
+        }));
+      }
+      return rows;
+    };
+
+    ids.forEach(id => add(collection, id));
+
+    while (queue.length > 0) {
+      const { collection: current, ids: pending } = queue.shift()!;
+      const rows = await readByKeys(current, 'id', pending);
+
+      // M2O and M2A: the keys are on the rows themselves
+      relations.forEach((rel: any) => {
+        if (rel.collection !== current || !rel.field) {
+          return;
+        }
+        const collectionField = rel.related_collection ? undefined : rel.meta?.one_collection_field;
+        rows.forEach(row => {
+          const target = rel.related_collection || (collectionField ? row[collectionField] : undefined);
+          if (typeof target === 'string') {
+            add(target, row[rel.field]);
+          }
+        });
+      });
+
+      // M2M and M2A aliases: the keys are on the junction rows
+      for (const plan of getRelatedRowsPlans(current, relations)) {
+        if (plan.kind === 'o2m') {
+          continue;
+        }
+        const junctionRows = await readByKeys(plan.collection, plan.parentField, pending);
+        groupLinkedItems(plan, junctionRows).forEach((linkedIds, target) => {
+          linkedIds.forEach(id => add(target, id));
+        });
+      }
+    }
+
+    if (truncated) {
+      warnings.push(`Stopped after ${maxItems} items: the closure is incomplete`);
+    }
+
+    // System leaves go first (files reference users), then dependency order
+    const userCollections = [...found.keys()].filter(name => !name.startsWith('directus_'));
+    const migrationOrder = calculateMigrationOrder(analyzeDependencies(relations), userCollections);
+    warnings.push(...migrationOrder.cycles.map(cycle =>
+      `Circular dependency ${cycle.join(' → ')}: some references may need a second import`
+    ));
+    const order = [...SYSTEM_LEAVES.filter(name => found.has(name)), ...migrationOrder.order];
+
+    return {
+      success: true,
+      message: `${totalItems} items in ${order.length} collections`,
+      closure: {
+        collections: order.map(name => ({
+          collection: name,
+          ids: [...found.get(name)!.values()],
+          selected: name === collection,
+        })),
+        totalItems,
+        truncated,
+        warnings,
+        relations,
+      },
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      return { success: false, cancelled: true, message: 'Dependency resolution cancelled' };
+    }
+    return {
+      success: false,
+      message: `Could not resolve dependencies: ${error.message}`,
+      error: { message: error.message, status: error.response?.status, details: error.response?.data },
+    };
+  }
+}
+
+/**
+ * Migrate a closure collection by collection, dependencies first. Foreign keys of
+ * later collections are rewritten through the ids recorded for earlier ones.
+ */
+export async function migrateItemClosure(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  targetToken: string,
+  closure: ItemClosure,
+  options?: {
+    selectedFields?: string[]; // Applies to the selected collection only
+    relational?: boolean;
+    transforms?: CollectionTransforms; // Previewed value transforms per collection; others are imported unchanged
+    signal?: AbortSignal;
+    onProgress?: (collection: string, current: number, total: number) => void;
+  }
+): Promise<ClosureMigrationResult> {
+  const importLog: ImportLogEntry[] = [];
+  const logStep = (step: string, details: Record<string, unknown>) => {
+    importLog.push({ timestamp: new Date().toISOString(), step, details });
+  };
+
+  const signal = options?.signal;
+  const idMaps = new MigrationIdMap(sourceUrl, targetUrl);
+  const results: ClosureMigrationResult['results'] = [];
+
+  for (const { collection, ids, selected } of closure.collections) {
+    if (signal?.aborted) {
+      break;
+    }
+    const onProgress = (current: number, total: number) => options?.onProgress?.(collection, current, total);
+
+    try {
+      if (collection === 'directus_users') {
+        results.push({ collection, ...await ensureUsers(sourceUrl, sourceToken, targetUrl, targetToken, ids, idMaps, signal, logStep) });
+      } else if (collection === 'directus_files') {
+        const result = await importFiles(sourceUrl, sourceToken, targetUrl, targetToken, ids.map(String), {
+          preserveId: true,
+          onProgress,
+          signal,
+        });
+        const files = result.importedFiles || [];
+        const fileIds: CollectionIdMap = {};
+        files.filter(file => file.status !== 'error').forEach(file => {
+          fileIds[file.originalId] = file.newId || file.originalId;
+          idMaps.set(collection, file.originalId, file.newId || file.originalId);
+        });
+        if (!saveIdMap(sourceUrl, targetUrl, collection, fileIds)) {
+          logStep('id_map_not_saved', { collection, items: Object.keys(fileIds).length, reason: 'Storage quota exceeded' });
+        }
+        results.push({ collection, imported: Object.keys(fileIds).length, failed: files.length - Object.keys(fileIds).length });
+      } else {
+        const result = await importSelectedItems(sourceUrl, sourceToken, targetUrl, targetToken, collection, ids, {
+          selectedFields: selected ? options?.selectedFields : undefined,
+          relations: closure.relations,
+          idMaps,
+          relational: options?.relational,
+          transforms: options?.transforms?.[collection],
+          onProgress,
+          signal,
+        });
+        const items = result.importedItems || [];
+        const imported = items.filter(item => item.status === 'success').length;
+        results.push({ collection, imported, failed: result.success ? items.length - imported : ids.length - imported });
+      }
+      logStep('closure_collection_done', { ...results[results.length - 1] });
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        break;
+      }
+      results.push({ collection, imported: 0, failed: ids.length });
+      logStep('closure_collection_failed', { collection, error: error.message });
+    }
+  }
+
+  const imported = results.reduce((sum, result) => sum + result.imported, 0);
+  const failed = results.reduce((sum, result) => sum + result.failed, 0);
+
+  if (signal?.aborted) {
+    return {
+      success: false,
+      cancelled: true,
+      message: `Migration cancelled after ${imported} of ${closure.totalItems} items`,
+      results,
+      importLog,
+    };
+  }
+
+  return {
+    success: failed === 0,
+    message: `Migrated ${imported} items across ${results.length} collections (${failed} failed)`,
+    results,
+    importLog,
+  };
+}
+
+/**
+ * Make the referenced users exist on the target. A user is matched by id, then by
+ * email; users found on neither are created as drafts without role or password.
+ */
+async function ensureUsers(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  targetToken: string,
+  ids: (string | number)[],
+  idMaps: MigrationIdMap,
+  signal: AbortSignal | undefined,
+  logStep: (step: string, details: Record<string, unknown>) => void
+): Promise<{ imported: number; failed: number }> {
+  const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { signal });
+  const targetClient = new DirectusClient(targetUrl, targetToken, 'token', { signal });
+  const userIds: CollectionIdMap = {};
+  let failed = 0;
+
+  for (let start = 0; start < ids.length; start += IDS_PER_REQUEST) {
+    const chunk = ids.slice(start, start + IDS_PER_REQUEST);
+    const users = await sourceClient.readAll('/users', {
+      filter: { id: { _in: chunk } },
+      fields: ['id', 'email', 'first_name', 'last_name'],
+    });
+    const existing = new Set((await targetClient.readAll('/users', {
+      filter: { id: { _in: chunk } },
+      fields: ['id'],
+    })).map(user => String(user.id)));
+
+    const emails = users.filter(user => !existing.has(String(user.id)) && user.email).map(user => user.email);
+    const byEmail = new Map<string, string>();
+    if (emails.length > 0) {
+      (await targetClient.readAll('/users', {
+        filter: { email: { _in: emails } },
+        fields: ['id', 'email'],
+      })).forEach(user => byEmail.set(String(user.email).toLowerCase(), user.id));
+    }
+
+    for (const user of users) {
+      if (existing.has(String(user.id))) {
+        userIds[user.id] = user.id;
+        continue;
+      }
+      const matched = user.email ? byEmail.get(String(user.email).toLowerCase()) : undefined;
+      if (matched) {
+        userIds[user.id] = matched;
+        continue;
+      }
+      try {
+        const response = await targetClient.post('/users', {
+          id: user.id,
+          email: user.email,
+          first_name: user.first_name,
+          last_name: user.last_name,
+          status: 'draft',
+        });
+        userIds[user.id] = response?.data?.id || user.id;
+        logStep('user_created', { id: user.id, email: user.email });
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        failed++;
+        logStep('user_create_failed', { id: user.id, error: error.message, status: error.response?.status });
+      }
+    }
+  }
+
+  Object.entries(userIds).forEach(([sourceId, targetId]) => idMaps.set('directus_users', sourceId, targetId));
+  if (!saveIdMap(sourceUrl, targetUrl, 'directus_users', userIds)) {
+    logStep('id_map_not_saved', { collection: 'directus_users', items: Object.keys(userIds).length, reason: 'Storage quota exceeded' });
+  }
+  return { imported: Object.keys(userIds).length, failed };
+}
@@ -0,0 +1,88 @@
+/**
+ * Match Keys - Natural keys used to find an item's existing row on the target
+ * A collection without a match key is matched on its primary key. Keys are stored
+ * per source/target pair, like ID maps and rename maps.
+ */
+
+const STORAGE_KEY = 'directus-migration-match-keys';
+
+type CollectionMatchKeys = Record<string, string[]>; // Source collection -> match key fields
+
+function getMapKey(sourceUrl: string, targetUrl: string): string {
+  const normalize = (url: string) => url.replace(/\/$/, '');
+  return `${normalize(sourceUrl)}|${normalize(targetUrl)}`;
+}
+
+function loadAll(): Record<string, CollectionMatchKeys> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const all = saved ? JSON.parse(saved) : {};
+    // Keys saved before they were scoped to a pair are plain field lists; they are dropped
+    return Object.fromEntries(Object.entries(all).filter(([, value]) => value && !Array.isArray(value))) as Record<string, CollectionMatchKeys>;
+  } catch {
+    return {};
+  }
+}
+
+export function getAllMatchKeys(sourceUrl: string, targetUrl: string): CollectionMatchKeys {
+  return loadAll()[getMapKey(sourceUrl, targetUrl)] || {};
+}
+
+/**
+ * Fields identifying an item across environments, e.g. ['slug'] or ['site', 'path']
+ */
+export function getMatchKey(sourceUrl: string, targetUrl: string, collection: string): string[] | undefined {
+  const fields = getAllMatchKeys(sourceUrl, targetUrl)[collection];
+  return fields && fields.length > 0 ? fields : undefined;
+}
+
+export function saveMatchKey(sourceUrl: string, targetUrl: string, collection: string, fields: string[]): void {
+  const all = loadAll();
+  const key = getMapKey(sourceUrl, targetUrl);
+  const keys = { ...all[key] };
+  const cleaned = fields.map(field => field.trim()).filter(Boolean);
+  if (cleaned.length > 0) {
+    keys[collection] = cleaned;
+  } else {
+    delete keys[collection];
+  }
+  if (Object.keys(keys).length > 0) {
+    all[key] = keys;
+  } else {
+    delete all[key];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+// M2O values may come back expanded
+function getFieldValue(item: Record<string, any>, field: string): any {
+  const value = item[field];
+  return value && typeof value === 'object' ? value.id : value;
+}
+
+/**
+ * Comparable value of an item's match key, undefined when any part of it is empty
+ */
+export function getMatchValue(item: Record<string, any>, fields: string[]): string | undefined {
+  const values = fields.map(field => getFieldValue(item, field));
+  if (values.some(value => value === null || value === undefined || value === '')) {
+    return undefined;
+  }
+  return JSON.stringify(values.map(String));
+}
+
+/**
+ * Filter selecting the target rows whose match key equals one of the given items.
+ * Items are expected to have a complete match value.
+ */
+export function buildMatchFilter(items: Record<string, any>[], fields: string[]): Record<string, any> {
+  if (fields.length === 1) {
+    const [field] = fields;
+    return { [field]: { _in: items.map(item => getFieldValue(item, field)) } };
+  }
+  return {
+    _or: items.map(item => ({
+      _and: fields.map(field => ({ [field]: { _eq: getFieldValue(item, field) } })),
+    })),
+  };
+}
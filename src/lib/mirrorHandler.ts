@@ -0,0 +1,298 @@
+import { DirectusClient } from './DirectusClient';
+import { getRelations } from './apiHandlers';
+import { analyzeDependencies, calculateMigrationOrder } from './dependencyAnalyzer';
+import { getMatchKey, getMatchValue } from './matchKeys';
+import { getRenameMap, renameCollection, renameField } from './renameMap';
+import { forEachConcurrent, isAbortError } from './requestScheduler';
+import type { ImportLogEntry } from '../types';
+
+/**
+ * Mirror mode - propagates deletions from source to target.
+ * Target items whose primary key (or match key, when the collection has one) no
+ * longer exists in the source are deleted, children before parents so foreign keys
+ * never point at removed rows.
+ */
+
+export interface MirrorCollectionPlan {
+  collection: string;
+  targetCollection: string; // Name on the target after the rename map
+  primaryKey: string; // Target primary key the delete ids refer to
+  sourceCount: number;
+  targetCount: number;
+  deleteIds: (string | number)[];
+}
+
+export interface MirrorPlan {
+  collections: MirrorCollectionPlan[]; // In deletion order (children first)
+  totalDeletes: number;
+  warnings: string[];
+}
+
+export interface MirrorPlanResult {
+  success: boolean;
+  message: string;
+  plan?: MirrorPlan;
+  error?: any;
+  importLog?: ImportLogEntry[];
+  cancelled?: boolean;
+}
+
+export interface MirrorDeleteResult {
+  success: boolean;
+  message: string;
+  deleted: number;
+  failed: { collection: string; id: string | number; error: string }[];
+  error?: any;
+  importLog?: ImportLogEntry[];
+  cancelled?: boolean; // Stopped through the signal; `deleted` counts what was removed before
+}
+
+export interface MirrorDeleteOptions {
+  maxDeletes: number; // Refuse to run when the plan deletes more items than this
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (current: number, total: number) => void;
+}
+
+export const DEFAULT_MAX_DELETES = 100;
+
+const DEFAULT_DELETE_BATCH_SIZE = 100;
+
+/**
+ * Compute the target items missing from the source for each collection.
+ * Only primary and match keys are read, so this stays cheap on large collections.
+ */
+export async function planMirrorDeletions(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  targetToken: string,
+  collections: string[],
+  options?: { signal?: AbortSignal }
+): Promise<MirrorPlanResult> {
+  const importLog: ImportLogEntry[] = [];
+  const logStep = (step: string, details: Record<string, unknown>) => {
+    importLog.push({ timestamp: new Date().toISOString(), step, details });
+  };
+
+  try {
+    const signal = options?.signal;
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { signal });
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', { signal });
+
+    // Children (collections holding the foreign keys) are deleted before their parents
+    const warnings: string[] = [];
+    let deletionOrder = [...collections];
+    const relationsResult = await getRelations(sourceUrl, sourceToken);
+    if (relationsResult.success) {
+      const migrationOrder = calculateMigrationOrder(
+        analyzeDependencies(relationsResult.relations || []),
+        collections
+      );
+      deletionOrder = [...migrationOrder.order].reverse();
+      warnings.push(...migrationOrder.cycles.map(cycle =>
+        `Circular dependency ${cycle.join(' → ')}: deletions in these collections may fail on foreign key constraints`
+      ));
+    } else {
+      warnings.push('Could not load relations; collections are deleted in the selected order');
+      logStep('relations_load_failed', { error: relationsResult.error });
+    }
+
+    const renames = getRenameMap(sourceUrl, targetUrl);
+    const plans: MirrorCollectionPlan[] = [];
+    for (const collection of deletionOrder) {
+      const targetCollection = renameCollection(renames, collection);
+      const primaryKey = await sourceClient.getPrimaryKeyField(collection);
+      const targetPrimaryKey = await targetClient.getPrimaryKeyField(targetCollection);
+      const matchKey = getMatchKey(sourceUrl, targetUrl, collection);
+      const targetMatchKey = matchKey?.map(field => renameField(renames, collection, field));
+      const readRows = (client: DirectusClient, name: string, keyField: string, fields: string[] = []) =>
+        client.readAll(`/items/${name}`, {
+          fields: [keyField, ...fields],
+          paging: 'keyset',
+          keyField,
+        });
+
+      const sourceRows = await readRows(sourceClient, collection, primaryKey, matchKey);
+      const targetRows = await readRows(targetClient, targetCollection, targetPrimaryKey, targetMatchKey);
+      let deleteIds: (string | number)[];
+      if (matchKey && targetMatchKey) {
+        // Target rows have their own primary keys; they belong to a source item through the match key
+        const sourceValues = new Set(sourceRows.map(row => getMatchValue(row, matchKey)));
+        const unmatched = targetRows.filter(row => getMatchValue(row, targetMatchKey) === undefined);
+        if (unmatched.length > 0) {
+          warnings.push(`${targetCollection}: ${unmatched.length} target items with an empty ${targetMatchKey.join(' + ')} are kept`);
+        }
+        deleteIds = targetRows
+          .filter(row => {
+            const value = getMatchValue(row, targetMatchKey);
+            return value !== undefined && !sourceValues.has(value);
+          })
+          .map(row => row[targetPrimaryKey]);
+      } else {
+        const sourceKeys = new Set(sourceRows.map(row => String(row[primaryKey])));
+        deleteIds = targetRows
+          .map(row => row[targetPrimaryKey])
+          .filter(key => !sourceKeys.has(String(key)));
+      }
+
+      plans.push({
+        collection,
+        targetCollection,
+        primaryKey: targetPrimaryKey,
+        sourceCount: sourceRows.length,
+        targetCount: targetRows.length,
+        deleteIds,
+      });
+      logStep('mirror_collection_planned', {
+        collection,
+        targetCollection,
+        matchKey,
+        sourceCount: sourceRows.length,
+        targetCount: targetRows.length,
+        deleteCount: deleteIds.length,
+      });
+    }
+
+    const totalDeletes = plans.reduce((sum, plan) => sum + plan.deleteIds.length, 0);
+    return {
+      success: true,
+      message: `${totalDeletes} target items are missing from the source`,
+      plan: { collections: plans, totalDeletes, warnings },
+      importLog,
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      return { success: false, cancelled: true, message: 'Mirror preview cancelled', importLog };
+    }
+    logStep('mirror_plan_failed', { error: error.message });
+    return {
+      success: false,
+      message: `Failed to compute deletions: ${error.message}`,
+      error: {
+        message: error.message,
+        status: error.response?.status,
+        details: error.response?.data,
+      },
+      importLog,
+    };
+  }
+}
+
+/**
+ * Delete the planned items from the target, collection by collection in plan order.
+ * A failed batch is retried item by item so one blocked row does not keep the rest.
+ */
+export async function executeMirrorDeletions(
+  targetUrl: string,
+  targetToken: string,
+  plan: MirrorPlan,
+  options: MirrorDeleteOptions
+): Promise<MirrorDeleteResult> {
+  const importLog: ImportLogEntry[] = [];
+  const logStep = (step: string, details: Record<string, unknown>) => {
+    importLog.push({ timestamp: new Date().toISOString(), step, details });
+  };
+
+  const failed: MirrorDeleteResult['failed'] = [];
+  let deleted = 0;
+
+  if (plan.totalDeletes > options.maxDeletes) {
+    return {
+      success: false,
+      message: `Refusing to delete ${plan.totalDeletes} items: above the safety limit of ${options.maxDeletes}`,
+      deleted,
+      failed,
+      importLog,
+    };
+  }
+
+  const { signal, onProgress } = options;
+  const batchSize = options.batchSize || DEFAULT_DELETE_BATCH_SIZE;
+  const client = new DirectusClient(targetUrl, targetToken, 'token', { signal });
+
+  try {
+    for (const collectionPlan of plan.collections) {
+      const { targetCollection: collection, deleteIds } = collectionPlan;
+      if (deleteIds.length === 0) {
+        continue;
+      }
+      if (signal?.aborted) {
+        break;
+      }
+
+      const batches: (string | number)[][] = [];
+      for (let i = 0; i < deleteIds.length; i += batchSize) {
+        batches.push(deleteIds.slice(i, i + batchSize));
+      }
+
+      // Batches run one after another so the per-collection order is kept
+      await forEachConcurrent(batches, 1, async (batch) => {
+        try {
+          await client.delete(`/items/${collection}`, { body: JSON.stringify(batch) });
+          deleted += batch.length;
+          logStep('mirror_batch_deleted', { collection, count: batch.length });
+        } catch (error: any) {
+          if (isAbortError(error)) {
+            return;
+          }
+          logStep('mirror_batch_failed', { collection, count: batch.length, error: error.message });
+
+          for (const id of batch) {
+            if (signal?.aborted) {
+              return;
+            }
+            try {
+              await client.delete(`/items/${collection}/${encodeURIComponent(String(id))}`);
+              deleted++;
+            } catch (itemError: any) {
+              if (isAbortError(itemError)) {
+                return;
+              }
+              failed.push({ collection, id, error: itemError.message });
+              logStep('mirror_item_delete_failed', {
+                collection,
+                id,
+                status: itemError.response?.status,
+                error: itemError.message,
+              });
+            }
+          }
+        } finally {
+          onProgress?.(deleted + failed.length, plan.totalDeletes);
+        }
+      }, signal);
+    }
+  } catch (error: any) {
+    if (!isAbortError(error)) {
+      logStep('mirror_delete_failed', { error: error.message });
+      return {
+        success: false,
+        message: `Mirror deletion failed: ${error.message}`,
+        deleted,
+        failed,
+        error: { message: error.message, status: error.response?.status },
+        importLog,
+      };
+    }
+  }
+
+  if (signal?.aborted) {
+    return {
+      success: false,
+      cancelled: true,
+      message: `Mirror deletion cancelled after ${deleted} of ${plan.totalDeletes} items`,
+      deleted,
+      failed,
+      importLog,
+    };
+  }
+
+  return {
+    success: failed.length === 0,
+    message: `Deleted ${deleted} items from the target${failed.length > 0 ? `, ${failed.length} failed` : ''}`,
+    deleted,
+    failed,
+    importLog,
+  };
+}
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DirectusClient } from './DirectusClient';
+import {
+  checkPayload,
+  loadFieldConstraints,
+  matchesValidation,
+  preparePayload,
+  type FieldConstraints,
+} from './payloadValidation';
+
+// Target field definitions, as /fields/{collection} returns them
+const FIELDS = [
+  { field: 'id', type: 'integer', schema: { has_auto_increment: true, is_nullable: false } },
+  { field: 'title', type: 'string', meta: { required: true }, schema: { max_length: 10, is_nullable: false } },
+  { field: 'views', type: 'integer', schema: { is_nullable: true } },
+  { field: 'priority', type: 'integer', schema: { is_nullable: false, default_value: 1 } },
+  { field: 'status', type: 'string', meta: { interface: 'select-dropdown', options: { choices: [{ value: 'draft' }, { value: 'published' }] } }, schema: { default_value: 'draft' } },
+  { field: 'tags', type: 'json', meta: { interface: 'select-multiple-dropdown', options: { choices: ['a', 'b'] } } },
+  { field: 'email', type: 'string', meta: { validation: { email: { _regex: '^[^@]+@[^@]+$' } }, validation_message: 'Not an email' } },
+  { field: 'date_created', type: 'timestamp', meta: { special: ['date-created'] } },
+  { field: 'comments', type: 'alias', meta: { special: ['o2m'] } },
+];
+
+let constraints: FieldConstraints;
+
+beforeAll(async () => {
+  const client = { get: async () => ({ data: FIELDS }) } as unknown as DirectusClient;
+  constraints = await loadFieldConstraints(client, 'articles');
+});
+
+const rules = (payload: Record<string, any>, create = false) =>
+  checkPayload(payload, constraints, create).map(violation => `${violation.field}:${violation.rule}`);
+
+describe('checkPayload', () => {
+  it('accepts a valid payload', () => {
+    expect(rules({ title: 'Hello', views: 3, status: 'draft', tags: ['a'], email: 'a@b.c' }, true)).toEqual([]);
+  });
+
+  it('flags fields the target does not have', () => {
+    expect(rules({ title: 'Hello', subtitle: 'x' })).toEqual(['subtitle:unknown_field']);
+  });
+
+  it('checks types, lengths and choices', () => {
+    expect(rules({ title: 'A much too long title', views: '12', status: 'archived', tags: ['a', 'c'] })).toEqual([
+      'title:max_length',
+      'views:type',
+      'status:choices',
+      'tags:choices',
+    ]);
+  });
+
+  it('checks the validation rule of a field', () => {
+    expect(checkPayload({ email: 'nope' }, constraints, false)).toMatchObject([
+      { field: 'email', rule: 'validation', message: 'Not an email', coercible: false },
+    ]);
+  });
+
+  it('reports null in a non-nullable column', () => {
+    expect(rules({ title: null })).toEqual(['title:nullable']);
+  });
+
+  it('lets relational aliases through', () => {
+    expect(rules({ title: 'Hello', comments: [{ text: 'hi' }] })).toEqual([]);
+  });
+
+  it('only checks missing required fields on create', () => {
+    expect(rules({ views: 1 }, true)).toEqual(['title:required']);
+    expect(rules({ views: 1 }, false)).toEqual([]);
+  });
+});
+
+describe('preparePayload', () => {
+  it('leaves the payload as is when skipping', () => {
+    const payload = { title: 'Hello', views: '12' };
+
+    const result = preparePayload(payload, constraints, 'skip', false);
+
+    expect(result.payload).toBe(payload);
+    expect(result.violations.map(violation => violation.rule)).toEqual(['type']);
+  });
+
+  it('coerces what has a safe fix', () => {
+    const result = preparePayload({ title: 'A much too long title', views: '12', subtitle: 'x', priority: null }, constraints, 'coerce', false);
+
+    expect(result.payload).toEqual({ title: 'A much too', views: 12 });
+    expect(result.violations).toEqual([]);
+  });
+
+  it('keeps the violations coercion cannot fix', () => {
+    const result = preparePayload({ title: 'Hello', views: 'many', status: 'archived' }, constraints, 'coerce', false);
+
+    expect(result.violations.map(violation => `${violation.field}:${violation.rule}`)).toEqual(['views:type', 'status:choices']);
+  });
+});
+
+describe('matchesValidation', () => {
+  it('follows logical groups', () => {
+    const filter = { _or: [{ views: { _gte: 10 } }, { _and: [{ status: { _eq: 'draft' } }, { views: { _null: true } }] }] };
+
+    expect(matchesValidation({ views: 12 }, filter)).toBe(true);
+    expect(matchesValidation({ views: null, status: 'draft' }, filter)).toBe(true);
+    expect(matchesValidation({ views: 3, status: 'draft' }, filter)).toBe(false);
+  });
+
+  it('skips rules on fields the payload does not carry', () => {
+    expect(matchesValidation({ title: 'x' }, { views: { _gt: 0 } })).toBe(true);
+  });
+});
@@ -0,0 +1,451 @@
+import { DirectusClient } from './DirectusClient';
+import { applyFieldTransforms, getTransformedSelection, type FieldTransform } from './fieldTransforms';
+import { renameCollection, renameItemFields, type RenameMap } from './renameMap';
+import { isAbortError } from './requestScheduler';
+
+/**
+ * Payload Validation - pre-flight check of outgoing items against the target's /fields.
+ * Type, required, nullable, max length, choices and validation rules are checked
+ * before anything is written, so a run does not end in a pile of opaque 400 errors.
+ * Invalid rows are either skipped or coerced where a safe fix exists.
+ */
+
+export type ViolationRule = 'unknown_field' | 'type' | 'required' | 'nullable' | 'max_length' | 'choices' | 'validation';
+
+export type InvalidRowAction = 'skip' | 'coerce';
+
+export interface FieldConstraint {
+  field: string;
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  maxLength: number | null;
+  choices: any[] | null; // Allowed values of select interfaces (null when any value is accepted)
+  multiple: boolean; // Select-multiple interfaces hold an array of choices
+  validation: Record<string, any> | null;
+  validationMessage: string | null;
+  defaultValue: any;
+  generated: boolean; // Filled by the target (auto increment, uuid, timestamps, user stamps)
+  alias: boolean; // Relational or presentation field without a column; its values pass through unchecked
+}
+
+export type FieldConstraints = Record<string, FieldConstraint>;
+
+export interface FieldViolation {
+  field: string;
+  rule: ViolationRule;
+  message: string;
+  value?: any;
+  coercible: boolean;
+}
+
+export interface ViolationSummary {
+  field: string;
+  rule: ViolationRule;
+  count: number;
+  coercible: number;
+  samples: { id: any; value: any; message: string }[];
+}
+
+export interface PreflightReport {
+  collection: string;
+  targetCollection: string;
+  checked: number;
+  invalidRows: number;
+  coercibleRows: number; // Invalid rows that coercion fixes completely
+  violations: ViolationSummary[];
+}
+
+export interface PreflightResult {
+  success: boolean;
+  message: string;
+  report?: PreflightReport;
+  error?: any;
+  cancelled?: boolean;
+}
+
+// Relational aliases and presentation fields have no column; O2M, M2M, M2A, translations
+// and files arrays are still written through them
+const ALIAS_SPECIALS = ['alias', 'o2m', 'm2m', 'm2a', 'translations', 'files', 'no-data', 'group'];
+const GENERATED_SPECIALS = ['uuid', 'date-created', 'date-updated', 'user-created', 'user-updated', 'role-created', 'role-updated'];
+const CHOICE_INTERFACES = ['select-dropdown', 'select-radio', 'select-multiple-dropdown', 'select-multiple-checkbox', 'select-icon'];
+const SAMPLES_PER_VIOLATION = 5;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function toConstraint(field: any): FieldConstraint {
+  const special: string[] = [].concat(field.meta?.special || []);
+  const options = field.meta?.options || {};
+  const hasChoices = CHOICE_INTERFACES.includes(field.meta?.interface) && Array.isArray(options.choices) && !options.allowOther;
+  return {
+    field: field.field,
+    type: field.type,
+    required: !!field.meta?.required,
+    nullable: field.schema?.is_nullable !== false,
+    maxLength: typeof field.schema?.max_length === 'number' ? field.schema.max_length : null,
+    choices: hasChoices ? options.choices.map((choice: any) => (choice && typeof choice === 'object' ? choice.value : choice)) : null,
+    multiple: String(field.meta?.interface || '').startsWith('select-multiple'),
+    validation: field.meta?.validation || null,
+    validationMessage: field.meta?.validation_message || null,
+    defaultValue: field.schema?.default_value ?? null,
+    generated: !!field.schema?.has_auto_increment || special.some(flag => GENERATED_SPECIALS.includes(flag)),
+    alias: field.type === 'alias' || special.some(flag => ALIAS_SPECIALS.includes(flag)),
+  };
+}
+
+/**
+ * Fields of a target collection with their constraints; alias fields are kept as pass-through entries
+ */
+export async function loadFieldConstraints(client: DirectusClient, collection: string): Promise<FieldConstraints> {
+  const response = await client.get(`/fields/${collection}`);
+  const constraints: FieldConstraints = {};
+  (response?.data || []).forEach((field: any) => {
+    constraints[field.field] = toConstraint(field);
+  });
+  return constraints;
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+// Type check of a non-null value; decimals and big integers travel as strings
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'bigInteger':
+      return Number.isInteger(value) || (typeof value === 'string' && /^-?\d+$/.test(value));
+    case 'float':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'decimal':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && NUMERIC_PATTERN.test(value));
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+    case 'text':
+    case 'hash':
+      return typeof value === 'string';
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value);
+    case 'csv':
+      return typeof value === 'string' || Array.isArray(value);
+    case 'date':
+    case 'dateTime':
+    case 'timestamp':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'time':
+      return typeof value === 'string' && TIME_PATTERN.test(value);
+    default:
+      return true; // json, geometry and unknown types accept any value
+  }
+}
+
+// Value converted to the field type, or undefined when there is no safe conversion
+function coerceType(type: string, value: any): any {
+  switch (type) {
+    case 'integer':
+    case 'bigInteger':
+    case 'float':
+    case 'decimal': {
+      const number = typeof value === 'boolean' ? Number(value) : typeof value === 'string' && NUMERIC_PATTERN.test(value.trim()) ? Number(value) : NaN;
+      if (Number.isNaN(number) || ((type === 'integer' || type === 'bigInteger') && !Number.isInteger(number))) {
+        return undefined;
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === 1 || value === '1' || value === 'true') return true;
+      if (value === 0 || value === '0' || value === 'false') return false;
+      return undefined;
+    case 'string':
+    case 'text':
+    case 'csv':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'date':
+    case 'dateTime':
+    case 'timestamp':
+      if (typeof value === 'number') {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? undefined : type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString();
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function parseRegex(pattern: string): RegExp | null {
+  try {
+    const literal = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+// One filter operator against a value; unknown operators pass as they cannot be checked here
+function matchesOperator(operator: string, expected: any, value: any): boolean {
+  switch (operator) {
+    case '_eq': return value == expected;
+    case '_neq': return value != expected;
+    case '_in': return Array.isArray(expected) && expected.some(candidate => candidate == value);
+    case '_nin': return !Array.isArray(expected) || !expected.some(candidate => candidate == value);
+    case '_null': return (value === null) === !!expected;
+    case '_nnull': return (value !== null) === !!expected;
+    case '_empty': return isEmpty(value) === !!expected;
+    case '_nempty': return !isEmpty(value) === !!expected;
+    case '_contains': return typeof value === 'string' && value.includes(expected);
+    case '_ncontains': return typeof value !== 'string' || !value.includes(expected);
+    case '_icontains': return typeof value === 'string' && value.toLowerCase().includes(String(expected).toLowerCase());
+    case '_starts_with': return typeof value === 'string' && value.startsWith(expected);
+    case '_ends_with': return typeof value === 'string' && value.endsWith(expected);
+    case '_gt': return value > expected;
+    case '_gte': return value >= expected;
+    case '_lt': return value < expected;
+    case '_lte': return value <= expected;
+    case '_between': return Array.isArray(expected) && value >= expected[0] && value <= expected[1];
+    case '_nbetween': return !Array.isArray(expected) || value < expected[0] || value > expected[1];
+    case '_regex': {
+      const regex = typeof expected === 'string' ? parseRegex(expected) : null;
+      return !regex || (typeof value === 'string' && regex.test(value));
+    }
+    default: return true;
+  }
+}
+
+/**
+ * Evaluate a Directus validation filter against a payload. Rules on fields the
+ * payload does not carry are not checked (an update leaves them unchanged).
+ */
+export function matchesValidation(payload: Record<string, any>, filter: any): boolean {
+  if (!filter || typeof filter !== 'object') {
+    return true;
+  }
+  return Object.entries(filter).every(([key, rule]: [string, any]) => {
+    if (key === '_and') {
+      return Array.isArray(rule) && rule.every(group => matchesValidation(payload, group));
+    }
+    if (key === '_or') {
+      return Array.isArray(rule) && rule.some(group => matchesValidation(payload, group));
+    }
+    if (!(key in payload) || !rule || typeof rule !== 'object') {
+      return true;
+    }
+    return Object.entries(rule).every(([operator, expected]) => matchesOperator(operator, expected, payload[key]));
+  });
+}
+
+/**
+ * Violations of one outgoing payload. `create` also checks the required fields the
+ * payload leaves out; an update only checks the values it sends.
+ */
+export function checkPayload(payload: Record<string, any>, constraints: FieldConstraints, create: boolean): FieldViolation[] {
+  const violations: FieldViolation[] = [];
+  const add = (field: string, rule: ViolationRule, message: string, value: any, coercible: boolean) => {
+    violations.push({ field, rule, message, value, coercible });
+  };
+
+  Object.entries(payload).forEach(([field, value]) => {
+    const constraint = constraints[field];
+    if (!constraint) {
+      add(field, 'unknown_field', 'Field does not exist on the target', value, true);
+      return;
+    }
+    if (constraint.alias) {
+      return;
+    }
+
+    if (value === null || value === undefined) {
+      const hasDefault = constraint.defaultValue !== null || constraint.generated;
+      if (!constraint.nullable) {
+        add(field, 'nullable', 'Column does not accept null', value, hasDefault);
+      } else if (constraint.required) {
+        add(field, 'required', 'Required field is empty', value, hasDefault);
+      }
+      return;
+    }
+
+    // Expanded relational values are sent as objects and resolved by the target
+    if (typeof value === 'object' && !Array.isArray(value) && !['json', 'geometry', 'csv'].includes(constraint.type)) {
+      return;
+    }
+
+    if (!matchesType(constraint.type, value)) {
+      add(field, 'type', `Expected ${constraint.type}, got ${Array.isArray(value) ? 'array' : typeof value}`, value, coerceType(constraint.type, value) !== undefined);
+      return;
+    }
+
+    if (constraint.required && value === '') {
+      add(field, 'required', 'Required field is empty', value, constraint.defaultValue !== null);
+    }
+
+    if (constraint.maxLength !== null && typeof value === 'string' && value.length > constraint.maxLength) {
+      add(field, 'max_length', `${value.length} characters, the column holds ${constraint.maxLength}`, value, true);
+    }
+
+    if (constraint.choices) {
+      const values = constraint.multiple && Array.isArray(value) ? value : [value];
+      const invalid = values.filter(entry => !constraint.choices!.some(choice => choice == entry));
+      if (invalid.length > 0) {
+        add(field, 'choices', `Not one of the choices: ${invalid.map(entry => JSON.stringify(entry)).join(', ')}`, value, false);
+      }
+    }
+
+    if (constraint.validation && !matchesValidation(payload, constraint.validation)) {
+      add(field, 'validation', constraint.validationMessage || 'Fails the field validation rule', value, false);
+    }
+  });
+
+  if (create) {
+    Object.values(constraints).forEach(constraint => {
+      if (constraint.required && !constraint.alias && !(constraint.field in payload) && constraint.defaultValue === null && !constraint.generated) {
+        add(constraint.field, 'required', 'Required field is missing', undefined, false);
+      }
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Apply the safe fixes of a payload's violations: unknown fields dropped, values
+ * converted to the column type, strings truncated, empty values replaced by the default
+ */
+export function coercePayload(
+  payload: Record<string, any>,
+  constraints: FieldConstraints,
+  violations: FieldViolation[]
+): Record<string, any> {
+  const coerced = { ...payload };
+  violations.filter(violation => violation.coercible).forEach(({ field, rule }) => {
+    const constraint = constraints[field];
+    if (rule === 'unknown_field') {
+      delete coerced[field];
+    } else if (rule === 'type') {
+      coerced[field] = coerceType(constraint.type, coerced[field]);
+    } else if (rule === 'max_length' && typeof coerced[field] === 'string' && constraint.maxLength !== null) {
+      coerced[field] = coerced[field].slice(0, constraint.maxLength);
+    } else if (rule === 'nullable' || rule === 'required') {
+      // The target fills its default (or generated value) when the field is left out
+      delete coerced[field];
+    }
+  });
+  return coerced;
+}
+
+/**
+ * Check a payload and, with `coerce`, fix what can be fixed. Returns the payload
+ * to write and the violations left; a row with violations left is not written.
+ */
+export function preparePayload(
+  payload: Record<string, any>,
+  constraints: FieldConstraints,
+  action: InvalidRowAction,
+  create: boolean
+): { payload: Record<string, any>; violations: FieldViolation[] } {
+  const violations = checkPayload(payload, constraints, create);
+  if (violations.length === 0 || action === 'skip' || !violations.some(violation => violation.coercible)) {
+    return { payload, violations };
+  }
+  const coerced = coercePayload(payload, constraints, violations);
+  return { payload: coerced, violations: checkPayload(coerced, constraints, create) };
+}
+
+export function describeViolations(violations: FieldViolation[]): string {
+  return violations.map(violation => `${violation.field}: ${violation.message}`).join('; ');
+}
+
+/**
+ * Read the source items of a collection the way an import would send them and
+ * report every constraint they break on the target. Nothing is written.
+ * Rows are checked as creates, so required fields missing from the payload show up.
+ */
+export async function preflightCollection(
+  sourceUrl: string,
+  sourceToken: string,
+  targetUrl: string,
+  targetToken: string,
+  collection: string,
+  options?: {
+    limit?: number;
+    selectedFields?: string[];
+    renames?: RenameMap;
+    transforms?: FieldTransform[];
+    signal?: AbortSignal;
+    onProgress?: (checked: number) => void;
+  }
+): Promise<PreflightResult> {
+  try {
+    const sourceClient = new DirectusClient(sourceUrl, sourceToken, 'token', { signal: options?.signal });
+    const targetClient = new DirectusClient(targetUrl, targetToken, 'token', { signal: options?.signal });
+    const targetCollection = renameCollection(options?.renames, collection);
+    const constraints = await loadFieldConstraints(targetClient, targetCollection);
+    const primaryKey = await sourceClient.getPrimaryKeyField(collection);
+    const selectedFields = options?.selectedFields && getTransformedSelection(options.selectedFields, options.transforms);
+
+    const summaries = new Map<string, ViolationSummary>();
+    let checked = 0;
+    let invalidRows = 0;
+    let coercibleRows = 0;
+
+    for await (const page of sourceClient.iterateItems(collection, {
+      paging: 'keyset',
+      keyField: primaryKey,
+      limit: options?.limit,
+    })) {
+      page.forEach(item => {
+        // Same payload writeItemBatch builds: system fields stripped, transforms applied, selected fields only, target names
+        const { [primaryKey]: itemKey, date_created, date_updated, user_created, user_updated, ...sourceItem } = item;
+        const cleanItem = applyFieldTransforms(sourceItem, options?.transforms);
+        const selected = selectedFields && selectedFields.length > 0
+          ? Object.fromEntries(Object.entries(cleanItem).filter(([field]) => selectedFields.includes(field)))
+          : cleanItem;
+        const payload = renameItemFields(options?.renames, collection, selected);
+
+        const violations = checkPayload(payload, constraints, true);
+        checked++;
+        if (violations.length === 0) {
+          return;
+        }
+        invalidRows++;
+        if (preparePayload(payload, constraints, 'coerce', true).violations.length === 0) {
+          coercibleRows++;
+        }
+        violations.forEach(violation => {
+          const key = `${violation.field}|${violation.rule}`;
+          const summary = summaries.get(key) || { field: violation.field, rule: violation.rule, count: 0, coercible: 0, samples: [] };
+          summary.count++;
+          if (violation.coercible) {
+            summary.coercible++;
+          }
+          if (summary.samples.length < SAMPLES_PER_VIOLATION) {
+            summary.samples.push({ id: itemKey, value: violation.value, message: violation.message });
+          }
+          summaries.set(key, summary);
+        });
+      });
+      options?.onProgress?.(checked);
+    }
+
+    const violations = [...summaries.values()].sort((a, b) => a.field.localeCompare(b.field) || b.count - a.count);
+    return {
+      success: true,
+      message: invalidRows === 0
+        ? `All ${checked} items of ${collection} pass the target constraints`
+        : `${invalidRows} of ${checked} items of ${collection} break target constraints (${coercibleRows} can be coerced)`,
+      report: { collection, targetCollection, checked, invalidRows, coercibleRows, violations },
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      return { success: false, cancelled: true, message: 'Pre-flight check cancelled' };
+    }
+    return {
+      success: false,
+      message: `Pre-flight check failed: ${error.message}`,
+      error: { message: error.message, status: error.response?.status, details: error.response?.data },
+    };
+  }
+}
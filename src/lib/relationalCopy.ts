@@ -0,0 +1,120 @@
+/**
+ * Relational Copy - O2M aliases whose rows travel with their parent items
+ * Junction rows (M2M, translations) and O2M children are written after their
+ * parents, and links removed in the source are reconciled on the target.
+ */
+
+export interface RelatedRowsPlan {
+  alias: string; // O2M alias field on the parent, e.g. 'translations' or 'tags'
+  kind: 'o2m' | 'm2m' | 'm2a' | 'translations';
+  collection: string; // Collection holding the rows (child or junction)
+  parentField: string; // Foreign key on those rows pointing back at the parent
+  junctionField?: string; // Junctions only: foreign key to the other side
+  relatedCollection?: string; // M2M only: the other side, e.g. 'tags' or 'languages'
+  collectionField?: string; // M2A only: junction field naming each row's collection
+  allowedCollections?: string[]; // M2A only: collections the junction may point at
+  deselectAction: 'nullify' | 'delete'; // What happens to target rows no longer linked
+}
+
+/**
+ * Rows to copy along with the items of a collection, one plan per O2M alias
+ */
+export function getRelatedRowsPlans(collection: string, relations: any[]): RelatedRowsPlan[] {
+  const plans: RelatedRowsPlan[] = [];
+
+  relations.forEach((rel: any) => {
+    if (rel.related_collection !== collection || !rel.meta?.one_field || !rel.field) {
+      return;
+    }
+
+    const junctionField: string | undefined = rel.meta.junction_field || undefined;
+    if (!junctionField) {
+      plans.push({
+        alias: rel.meta.one_field,
+        kind: 'o2m',
+        collection: rel.collection,
+        parentField: rel.field,
+        deselectAction: rel.meta.one_deselect_action === 'delete' ? 'delete' : 'nullify',
+      });
+      return;
+    }
+
+    const otherSide = relations.find((other: any) =>
+      other.collection === rel.collection && other.field === junctionField
+    );
+    const collectionField: string | undefined = otherSide && !otherSide.related_collection
+      ? otherSide.meta?.one_collection_field || undefined
+      : undefined;
+    plans.push({
+      alias: rel.meta.one_field,
+      kind: collectionField ? 'm2a' : rel.collection.endsWith('_translations') ? 'translations' : 'm2m',
+      collection: rel.collection,
+      parentField: rel.field,
+      junctionField,
+      relatedCollection: otherSide?.related_collection || undefined,
+      collectionField,
+      allowedCollections: collectionField ? otherSide?.meta?.one_allowed_collections || undefined : undefined,
+      // A junction row without its parent is meaningless, so unlinked rows are removed
+      deselectAction: 'delete',
+    });
+  });
+
+  return plans;
+}
+
+/**
+ * Drop the aliases handled by a relational copy, so the parent write does not
+ * try to apply the source's nested values itself
+ */
+export function stripRelatedAliases(item: any, plans: RelatedRowsPlan[]): any {
+  if (plans.length === 0) {
+    return item;
+  }
+  const stripped = { ...item };
+  plans.forEach(plan => {
+    delete stripped[plan.alias];
+  });
+  return stripped;
+}
+
+/**
+ * Natural key of junction rows: the pair of foreign keys (plus the collection of
+ * an M2A row), since junction ids rarely line up once parents got new ids
+ */
+export function getJunctionMatchKey(plan: RelatedRowsPlan): string[] | undefined {
+  if (!plan.junctionField) {
+    return undefined;
+  }
+  return plan.collectionField
+    ? [plan.parentField, plan.collectionField, plan.junctionField]
+    : [plan.parentField, plan.junctionField];
+}
+
+/**
+ * Items the junction rows point at, grouped by collection. An M2A row names its
+ * own collection; rows naming a collection outside the allowed list are ignored.
+ */
+export function groupLinkedItems(plan: RelatedRowsPlan, rows: any[]): Map<string, (string | number)[]> {
+  const groups = new Map<string, Set<string | number>>();
+  if (!plan.junctionField) {
+    return new Map();
+  }
+
+  rows.forEach(row => {
+    const value = row[plan.junctionField as string];
+    const id = value && typeof value === 'object' ? value.id : value;
+    const collection = plan.collectionField ? row[plan.collectionField] : plan.relatedCollection;
+    if (id === null || id === undefined || typeof collection !== 'string') {
+      return;
+    }
+    if (plan.allowedCollections && !plan.allowedCollections.includes(collection)) {
+      return;
+    }
+    if (!groups.has(collection)) {
+      groups.set(collection, new Set());
+    }
+    groups.get(collection)!.add(id);
+  });
+
+  return new Map([...groups].map(([collection, ids]) => [collection, [...ids]]));
+}
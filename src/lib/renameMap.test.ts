@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatRenameMap,
+  parseRenameMap,
+  renameFilterFields,
+  renameItemFields,
+  renameSnapshot,
+  type RenameMap,
+} from './renameMap';
+
+const map: RenameMap = {
+  collections: { posts: 'articles' },
+  fields: { posts: { headline: 'title' }, authors: { post: 'article' } },
+};
+
+describe('parseRenameMap', () => {
+  it('reads collection and field renames', () => {
+    const text = [
+      '# Renamed in the 2.0 schema',
+      'posts = articles',
+      '',
+      'posts.headline -> title',
+      '  authors.post=article  ',
+    ].join('\n');
+
+    expect(parseRenameMap(text)).toEqual(map);
+  });
+
+  it('round-trips through formatRenameMap', () => {
+    expect(parseRenameMap(formatRenameMap(map))).toEqual(map);
+  });
+
+  it('names the line it cannot read', () => {
+    expect(() => parseRenameMap('posts = articles\nposts.headline')).toThrow('Line 2');
+    expect(() => parseRenameMap('posts = new articles')).toThrow('Line 1');
+    expect(() => parseRenameMap('a = b = c')).toThrow('Line 1');
+  });
+});
+
+describe('renaming item data', () => {
+  it('renames item keys by source collection', () => {
+    expect(renameItemFields(map, 'posts', { id: 1, headline: 'Hi' })).toEqual({ id: 1, title: 'Hi' });
+    expect(renameItemFields(map, 'tags', { headline: 'kept' })).toEqual({ headline: 'kept' });
+  });
+
+  it('renames filter fields inside logical groups only', () => {
+    const filter = { _or: [{ headline: { _eq: 'a' } }, { author: { post: { _null: true } } }] };
+
+    expect(renameFilterFields(map, 'posts', filter)).toEqual({
+      _or: [{ title: { _eq: 'a' } }, { author: { post: { _null: true } } }],
+    });
+  });
+});
+
+describe('renameSnapshot', () => {
+  const relation = {
+    collection: 'authors',
+    field: 'post',
+    related_collection: 'posts',
+    meta: { many_collection: 'authors', many_field: 'post', one_collection: 'posts', one_field: null },
+    schema: { table: 'authors', column: 'post', foreign_key_table: 'posts', foreign_key_column: 'id' },
+  };
+
+  it('renames and re-keys snapshots grouped by collection', () => {
+    const snapshot = {
+      version: 1,
+      collections: { posts: { collection: 'posts', meta: { collection: 'posts', sort_field: 'headline' }, schema: { name: 'posts' } } },
+      fields: { posts: [{ collection: 'posts', field: 'headline', meta: { collection: 'posts', field: 'headline' }, schema: { table: 'posts', name: 'headline' } }] },
+      relations: [relation],
+    };
+
+    const renamed = renameSnapshot(map, snapshot);
+
+    expect(renamed.version).toBe(1);
+    expect(Object.keys(renamed.collections)).toEqual(['articles']);
+    expect(renamed.collections.articles).toEqual({
+      collection: 'articles',
+      meta: { collection: 'articles', group: undefined, archive_field: undefined, sort_field: 'title' },
+      schema: { name: 'articles' },
+    });
+    expect(renamed.fields.articles[0]).toMatchObject({
+      collection: 'articles',
+      field: 'title',
+      meta: { collection: 'articles', field: 'title' },
+      schema: { table: 'articles', name: 'title' },
+    });
+  });
+
+  it('renames relations on both sides', () => {
+    const [renamed] = renameSnapshot(map, { collections: [], fields: [], relations: [relation] }).relations;
+
+    expect(renamed).toMatchObject({
+      collection: 'authors',
+      field: 'article',
+      related_collection: 'articles',
+      meta: { many_field: 'article', one_collection: 'articles' },
+      schema: { column: 'article', foreign_key_table: 'articles', foreign_key_column: 'id' },
+    });
+  });
+
+  it('keeps array-shaped snapshots as arrays', () => {
+    const renamed = renameSnapshot(map, {
+      collections: [{ collection: 'posts', meta: null }],
+      fields: [{ collection: 'posts', field: 'headline' }],
+      relations: [],
+    });
+
+    expect(renamed.collections).toEqual([{ collection: 'articles', meta: null, schema: undefined }]);
+    expect(renamed.fields).toMatchObject([{ collection: 'articles', field: 'title' }]);
+  });
+
+  it('returns the snapshot itself without renames', () => {
+    const snapshot = { collections: [], fields: [], relations: [] };
+
+    expect(renameSnapshot({ collections: {}, fields: {} }, snapshot)).toBe(snapshot);
+    expect(renameSnapshot(undefined, snapshot)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Rename Map - Collections and fields named differently on the target
+ * Keys are always source names; a name without an entry is the same on both sides.
+ * The map is stored per source/target pair and applied to schema diffs, item
+ * payloads, relational values, permissions and flow options.
+ */
+
+export interface RenameMap {
+  collections: Record<string, string>; // Source collection -> target collection
+  fields: Record<string, Record<string, string>>; // Source collection -> source field -> target field
+}
+
+const STORAGE_KEY = 'directus-migration-rename-maps';
+
+export const EMPTY_RENAME_MAP: RenameMap = { collections: {}, fields: {} };
+
+function getMapKey(sourceUrl: string, targetUrl: string): string {
+  const normalize = (url: string) => url.replace(/\/$/, '');
+  return `${normalize(sourceUrl)}|${normalize(targetUrl)}`;
+}
+
+function loadAll(): Record<string, RenameMap> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRenameMap(sourceUrl: string, targetUrl: string): RenameMap {
+  return loadAll()[getMapKey(sourceUrl, targetUrl)] || EMPTY_RENAME_MAP;
+}
+
+export function saveRenameMap(sourceUrl: string, targetUrl: string, map: RenameMap): void {
+  const all = loadAll();
+  const key = getMapKey(sourceUrl, targetUrl);
+  if (isRenameMapEmpty(map)) {
+    delete all[key];
+  } else {
+    all[key] = map;
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+export function isRenameMapEmpty(map?: RenameMap): boolean {
+  return !map || (Object.keys(map.collections).length === 0 && Object.keys(map.fields).length === 0);
+}
+
+/**
+ * Parse the editor text: one rename per line, `collection = new_collection` or
+ * `collection.field = new_field`. Blank lines and lines starting with # are ignored.
+ */
+export function parseRenameMap(text: string): RenameMap {
+  const map: RenameMap = { collections: {}, fields: {} };
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+    const [from, to, ...rest] = trimmed.split(/\s*(?:=|->)\s*/);
+    if (!from || !to || rest.length > 0 || /\s/.test(from) || /\s/.test(to)) {
+      throw new Error(`Line ${index + 1}: expected "source = target", got "${trimmed}"`);
+    }
+    const dot = from.indexOf('.');
+    if (dot === -1) {
+      map.collections[from] = to;
+    } else {
+      const collection = from.slice(0, dot);
+      map.fields[collection] = { ...map.fields[collection], [from.slice(dot + 1)]: to };
+    }
+  });
+  return map;
+}
+
+export function formatRenameMap(map: RenameMap): string {
+  return [
+    ...Object.entries(map.collections).map(([from, to]) => `${from} = ${to}`),
+    ...Object.entries(map.fields).flatMap(([collection, fields]) =>
+      Object.entries(fields).map(([from, to]) => `${collection}.${from} = ${to}`)
+    ),
+  ].join('\n');
+}
+
+export function renameCollection(map: RenameMap | undefined, collection: string): string {
+  return map?.collections[collection] || collection;
+}
+
+/**
+ * Target name of a field, looked up by its source collection
+ */
+export function renameField(map: RenameMap | undefined, collection: string, field: string): string {
+  return map?.fields[collection]?.[field] || field;
+}
+
+/**
+ * Copy of an item with its keys renamed to target fields
+ */
+export function renameItemFields(map: RenameMap | undefined, collection: string, item: Record<string, any>): Record<string, any> {
+  const fields = map?.fields[collection];
+  if (!fields || Object.keys(fields).length === 0) {
+    return item;
+  }
+  return Object.fromEntries(Object.entries(item).map(([field, value]) => [fields[field] || field, value]));
+}
+
+/**
+ * Rename the field keys of a filter (permissions, validation). Logical groups are
+ * followed; nested relational paths are left alone as they belong to other collections.
+ */
+export function renameFilterFields(map: RenameMap | undefined, collection: string, filter: any): any {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return filter;
+  }
+  return Object.fromEntries(Object.entries(filter).map(([key, value]) => {
+    if ((key === '_and' || key === '_or') && Array.isArray(value)) {
+      return [key, value.map(group => renameFilterFields(map, collection, group))];
+    }
+    return [key.startsWith('_') ? key : renameField(map, collection, key), value];
+  }));
+}
+
+/**
+ * Permission with its collection, field list, filters and presets renamed
+ */
+export function renamePermission<T extends {
+  collection: string;
+  fields: string[] | null;
+  permissions: Record<string, any> | null;
+  validation: Record<string, any> | null;
+  presets: Record<string, any> | null;
+}>(map: RenameMap | undefined, permission: T): T {
+  if (isRenameMapEmpty(map)) {
+    return permission;
+  }
+  const collection = permission.collection;
+  return {
+    ...permission,
+    collection: renameCollection(map, collection),
+    fields: permission.fields?.map(field => (field === '*' ? field : renameField(map, collection, field))) ?? null,
+    permissions: renameFilterFields(map, collection, permission.permissions),
+    validation: renameFilterFields(map, collection, permission.validation),
+    presets: permission.presets ? renameItemFields(map, collection, permission.presets) : null,
+  };
+}
+
+function renameCollectionEntry(map: RenameMap, entry: any): any {
+  const collection = renameCollection(map, entry.collection);
+  return {
+    ...entry,
+    collection,
+    meta: entry.meta && {
+      ...entry.meta,
+      collection,
+      group: entry.meta.group ? renameCollection(map, entry.meta.group) : entry.meta.group,
+      archive_field: entry.meta.archive_field ? renameField(map, entry.collection, entry.meta.archive_field) : entry.meta.archive_field,
+      sort_field: entry.meta.sort_field ? renameField(map, entry.collection, entry.meta.sort_field) : entry.meta.sort_field,
+    },
+    schema: entry.schema && { ...entry.schema, name: collection },
+  };
+}
+
+function renameFieldEntry(map: RenameMap, entry: any): any {
+  const collection = renameCollection(map, entry.collection);
+  const field = renameField(map, entry.collection, entry.field);
+  const foreignTable = entry.schema?.foreign_key_table;
+  return {
+    ...entry,
+    collection,
+    field,
+    meta: entry.meta && { ...entry.meta, collection, field },
+    schema: entry.schema && {
+      ...entry.schema,
+      table: collection,
+      name: field,
+      foreign_key_table: foreignTable ? renameCollection(map, foreignTable) : foreignTable,
+      foreign_key_column: foreignTable && entry.schema.foreign_key_column
+        ? renameField(map, foreignTable, entry.schema.foreign_key_column)
+        : entry.schema.foreign_key_column,
+    },
+  };
+}
+
+function renameRelationEntry(map: RenameMap, entry: any): any {
+  const many = entry.collection;
+  const one = entry.related_collection;
+  const renameOptional = (collection: string | null | undefined, field: string | null | undefined) =>
+    collection && field ? renameField(map, collection, field) : field;
+  return {
+    ...entry,
+    collection: renameCollection(map, many),
+    field: renameField(map, many, entry.field),
+    related_collection: one ? renameCollection(map, one) : one,
+    meta: entry.meta && {
+      ...entry.meta,
+      many_collection: renameCollection(map, many),
+      many_field: renameField(map, many, entry.meta.many_field ?? entry.field),
+      one_collection: one ? renameCollection(map, one) : entry.meta.one_collection,
+      one_field: renameOptional(one, entry.meta.one_field),
+      one_collection_field: renameOptional(many, entry.meta.one_collection_field),
+      one_allowed_collections: Array.isArray(entry.meta.one_allowed_collections)
+        ? entry.meta.one_allowed_collections.map((collection: string) => renameCollection(map, collection))
+        : entry.meta.one_allowed_collections,
+      junction_field: renameOptional(many, entry.meta.junction_field),
+      sort_field: renameOptional(many, entry.meta.sort_field),
+    },
+    schema: entry.schema && {
+      ...entry.schema,
+      table: renameCollection(map, many),
+      column: renameField(map, many, entry.schema.column ?? entry.field),
+      foreign_key_table: entry.schema.foreign_key_table ? renameCollection(map, entry.schema.foreign_key_table) : entry.schema.foreign_key_table,
+      foreign_key_column: renameOptional(entry.schema.foreign_key_table, entry.schema.foreign_key_column),
+    },
+  };
+}
+
+/**
+ * Source snapshot as it would look with the target names, so /schema/diff sees a
+ * renamed collection or field as unchanged instead of a drop plus an add.
+ * Keeps the snapshot's layout: arrays stay arrays, objects keyed by collection are re-keyed.
+ */
+export function renameSnapshot(map: RenameMap | undefined, snapshot: any): any {
+  if (!snapshot || !map || isRenameMapEmpty(map)) {
+    return snapshot;
+  }
+
+  const renameEntries = (value: any, rename: (entry: any) => any, keyOf: (entry: any, key: string) => string) => {
+    if (Array.isArray(value)) {
+      return value.map(entry => (Array.isArray(entry) ? entry.map(rename) : rename(entry)));
+    }
+    return Object.fromEntries(Object.entries(value || {}).map(([key, entry]: [string, any]) => [
+      keyOf(entry, key),
+      Array.isArray(entry) ? entry.map(rename) : rename(entry),
+    ]));
+  };
+
+  return {
+    ...snapshot,
+    collections: renameEntries(snapshot.collections, entry => renameCollectionEntry(map, entry), (_, key) => renameCollection(map, key)),
+    fields: renameEntries(snapshot.fields, entry => renameFieldEntry(map, entry), (_, key) => renameCollection(map, key)),
+    relations: renameEntries(snapshot.relations, entry => renameRelationEntry(map, entry), (_, key) => key),
+  };
+}
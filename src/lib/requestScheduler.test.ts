@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { RequestScheduler, abortableDelay, forEachConcurrent } from './requestScheduler';
+
+/**
+ * Promise resolved from the outside, to hold a task in flight
+ */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('keeps at most maxConcurrent tasks in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let active = 0;
+    let peak = 0;
+
+    const runs = gates.map(gate => scheduler.schedule(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await gate.promise;
+      active--;
+    }));
+
+    await tick();
+    expect(active).toBe(2);
+
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(runs);
+    expect(peak).toBe(2);
+  });
+
+  it('starts queued tasks when the limit is raised', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const gates = [deferred(), deferred()];
+    let started = 0;
+
+    const runs = gates.map(gate => scheduler.schedule(async () => {
+      started++;
+      await gate.promise;
+    }));
+
+    await tick();
+    expect(started).toBe(1);
+
+    scheduler.configure({ maxConcurrent: 2 });
+    await tick();
+    expect(started).toBe(2);
+
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(runs);
+  });
+
+  it('drops a queued task when its signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    let queuedRan = false;
+
+    const running = scheduler.schedule(() => gate.promise);
+    const queued = scheduler.schedule(async () => {
+      queuedRan = true;
+    }, controller.signal);
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+
+    gate.resolve();
+    await running;
+    expect(queuedRan).toBe(false);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+
+    await expect(scheduler.schedule(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(scheduler.schedule(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('spaces tasks out to the configured rate', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 30, requestsPerSecond: 20 });
+    const started: number[] = [];
+
+    // The bucket starts with one second's worth of tokens; the two extra tasks wait 50ms each
+    await Promise.all(Array.from({ length: 22 }, () => scheduler.schedule(async () => {
+      started.push(Date.now());
+    })));
+
+    expect(started[21] - started[0]).toBeGreaterThanOrEqual(80);
+  });
+});
+
+describe('abortableDelay', () => {
+  it('rejects right away with an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(abortableDelay(1000, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('forEachConcurrent', () => {
+  it('runs items one after another in order with a limit of 1', async () => {
+    const events: string[] = [];
+
+    await forEachConcurrent([1, 2, 3], 1, async item => {
+      events.push(`start ${item}`);
+      await tick();
+      events.push(`end ${item}`);
+    });
+
+    expect(events).toEqual(['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+  });
+
+  it('keeps at most `limit` workers busy', async () => {
+    let active = 0;
+    let peak = 0;
+
+    await forEachConcurrent(Array.from({ length: 8 }, (_, index) => index), 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('passes each item with its index', async () => {
+    const seen: Array<[string, number]> = [];
+
+    await forEachConcurrent(['a', 'b', 'c'], 2, async (item, index) => {
+      seen.push([item, index]);
+    });
+
+    expect(seen.sort()).toEqual([['a', 0], ['b', 1], ['c', 2]]);
+  });
+
+  it('starts no new items once the signal aborts', async () => {
+    const controller = new AbortController();
+    const processed: number[] = [];
+
+    await forEachConcurrent([1, 2, 3, 4], 1, async item => {
+      processed.push(item);
+      if (item === 2) {
+        controller.abort();
+      }
+    }, controller.signal);
+
+    expect(processed).toEqual([1, 2]);
+  });
+});
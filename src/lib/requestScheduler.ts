@@ -0,0 +1,166 @@
+/**
+ * Request Scheduler - Client-side throttling for Directus requests
+ * Combines a bounded concurrency pool with a token-bucket rate limiter.
+ * One scheduler is shared by every DirectusClient pointing at the same base URL.
+ */
+
+export interface ThrottleConfig {
+  maxConcurrent: number; // Max requests in flight at once
+  requestsPerSecond: number; // Sustained request rate (0 = unlimited)
+}
+
+export const DEFAULT_THROTTLE_CONFIG: ThrottleConfig = {
+  maxConcurrent: 4,
+  requestsPerSecond: 0,
+};
+
+/**
+ * Error thrown when an operation is stopped through its AbortSignal
+ */
+export function createAbortError(): Error {
+  return new DOMException('Operation cancelled', 'AbortError');
+}
+
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+/**
+ * setTimeout-based wait that rejects as soon as the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class RequestScheduler {
+  private config: ThrottleConfig;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(config: Partial<ThrottleConfig> = {}) {
+    this.config = { ...DEFAULT_THROTTLE_CONFIG, ...config };
+    this.tokens = this.config.requestsPerSecond;
+  }
+
+  configure(config: Partial<ThrottleConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.tokens = Math.min(this.tokens, this.config.requestsPerSecond);
+
+    // A raised concurrency limit lets queued requests start right away
+    while (this.waiters.length > 0 && this.active < this.config.maxConcurrent) {
+      this.active++;
+      this.waiters.shift()!();
+    }
+  }
+
+  getConfig(): ThrottleConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Run a task once a concurrency slot and a rate token are available.
+   * Aborting the signal drops the task from the queue without running it.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquireSlot(signal);
+    try {
+      await this.acquireToken(signal);
+      return await task();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (this.active < this.config.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over, so `active` is not incremented here
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(waiter => waiter !== grant);
+        reject(createAbortError());
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiters.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.active <= this.config.maxConcurrent ? this.waiters.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async acquireToken(signal?: AbortSignal): Promise<void> {
+    const rate = this.config.requestsPerSecond;
+    if (!rate || rate <= 0) {
+      return;
+    }
+
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil(((1 - this.tokens) / rate) * 1000);
+      await abortableDelay(waitMs, signal);
+    }
+  }
+}
+
+/**
+ * Run a worker over every item with at most `limit` workers active at once.
+ * Workers are expected to handle their own errors.
+ * Once the signal aborts no new items are started; running workers finish on their own.
+ */
+export async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0;
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+
+  const runners = Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
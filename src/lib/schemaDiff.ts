@@ -0,0 +1,243 @@
+import type { DirectusClient } from './DirectusClient';
+import { isAbortError } from './requestScheduler';
+
+/**
+ * Schema Diff - field-level view of a /schema/diff result.
+ * Each field entry is turned into the list of properties that differ, with the
+ * target value (before) and the source value (after) taken from the snapshots.
+ * Changes that destroy target data are classified separately.
+ */
+
+export type FieldChangeAction = 'create' | 'delete' | 'update';
+
+export interface SchemaPropertyChange {
+  property: string; // Dotted path, e.g. schema.is_nullable or meta.required
+  before: any; // Target value
+  after: any; // Source value
+}
+
+export interface SchemaFieldChange {
+  key: string;
+  collection: string;
+  field: string;
+  action: FieldChangeAction;
+  type?: string;
+  properties: SchemaPropertyChange[];
+}
+
+// Properties shown for every field, in display order
+const COMPARED_PROPERTIES = [
+  'type',
+  'schema.data_type',
+  'schema.max_length',
+  'schema.numeric_precision',
+  'schema.numeric_scale',
+  'schema.is_nullable',
+  'schema.is_unique',
+  'schema.is_primary_key',
+  'schema.default_value',
+  'schema.foreign_key_table',
+  'meta.required',
+  'meta.readonly',
+  'meta.hidden',
+  'meta.interface',
+  'meta.options',
+  'meta.display',
+  'meta.display_options',
+  'meta.special',
+  'meta.validation',
+  'meta.validation_message',
+  'meta.note',
+];
+
+export function fieldChangeKey(collection: string, field: string): string {
+  return `${collection}.${field}`;
+}
+
+/**
+ * Every collection of a snapshot, whether `collections` is an array or keyed by name
+ */
+export function listSnapshotCollections(snapshot: any): any[] {
+  const collections = snapshot?.collections || [];
+  return Array.isArray(collections) ? collections : Object.values(collections);
+}
+
+/**
+ * Every field of a snapshot, whether `fields` is an array or grouped by collection
+ */
+export function listSnapshotFields(snapshot: any): any[] {
+  const fields = snapshot?.fields || [];
+  return (Array.isArray(fields) ? fields : Object.values(fields)).flat();
+}
+
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], value);
+}
+
+function isSame(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function getFieldChangeAction(fieldItem: any): FieldChangeAction {
+  const kinds = (fieldItem.diff || []).map((diffItem: any) => diffItem.kind);
+  if (kinds.includes('N') && !fieldItem.diff.some((diffItem: any) => diffItem.path?.length)) {
+    return 'create';
+  }
+  if (kinds.includes('D') && !fieldItem.diff.some((diffItem: any) => diffItem.path?.length)) {
+    return 'delete';
+  }
+  return 'update';
+}
+
+/**
+ * Field changes of a diff with before/after values per property. Snapshots are
+ * optional; without them only the paths reported by the diff are listed.
+ */
+export function getFieldChanges(diffData: any, sourceSnapshot?: any, targetSnapshot?: any): SchemaFieldChange[] {
+  const index = (snapshot: any) => new Map(
+    listSnapshotFields(snapshot).map((field: any) => [fieldChangeKey(field.collection, field.field), field])
+  );
+  const sourceFields = index(sourceSnapshot);
+  const targetFields = index(targetSnapshot);
+
+  return (diffData?.diff?.fields || []).map((fieldItem: any) => {
+    const key = fieldChangeKey(fieldItem.collection, fieldItem.field);
+    const action = getFieldChangeAction(fieldItem);
+    const whole = (fieldItem.diff || []).find((diffItem: any) => !diffItem.path?.length);
+    const before = action === 'create' ? undefined : targetFields.get(key) ?? (action === 'delete' ? whole?.lhs : undefined);
+    const after = action === 'delete' ? undefined : sourceFields.get(key) ?? (action === 'create' ? whole?.rhs : undefined);
+
+    const properties: SchemaPropertyChange[] = [];
+    if (before !== undefined || after !== undefined) {
+      COMPARED_PROPERTIES.forEach(property => {
+        const beforeValue = getPath(before, property);
+        const afterValue = getPath(after, property);
+        if (!isSame(beforeValue, afterValue)) {
+          properties.push({ property, before: beforeValue, after: afterValue });
+        }
+      });
+    }
+
+    // Paths reported by the diff itself that the snapshots did not explain
+    (fieldItem.diff || []).forEach((diffItem: any) => {
+      const property = diffItem.path?.join('.');
+      if (property && property !== 'meta' && !properties.some(change => change.property === property)) {
+        properties.push({ property, before: diffItem.lhs, after: diffItem.rhs });
+      }
+    });
+
+    return {
+      key,
+      collection: fieldItem.collection,
+      field: fieldItem.field,
+      action,
+      type: after?.type ?? before?.type ?? fieldItem.type,
+      properties,
+    };
+  });
+}
+
+export function formatSchemaValue(value: any): string {
+  if (value === undefined) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Typed to confirm schema changes that drop or convert target data
+export const DESTRUCTIVE_CONFIRMATION = 'DELETE';
+
+export type DestructiveChangeKind = 'drop_collection' | 'drop_field' | 'type_change';
+
+export interface DestructiveSchemaChange {
+  key: string; // Collection name, or the field change key
+  kind: DestructiveChangeKind;
+  collection: string;
+  field?: string;
+  before?: any; // Old type (type changes)
+  after?: any; // New type (type changes)
+}
+
+export interface DataLossEstimate {
+  rows: number | null; // Target rows of the collection (null when the count failed)
+  nonNull: number | null; // Non-null values of the field; rows for dropped collections
+}
+
+// A whole collection or field removed: kind D without a path
+function isWholeDeletion(item: any): boolean {
+  return (item.diff || []).some((diffItem: any) => diffItem.kind === 'D' && !diffItem.path?.length);
+}
+
+/**
+ * Changes of a diff that destroy target data: dropped collections, dropped fields
+ * (outside dropped collections) and column type changes
+ */
+export function getDestructiveChanges(diffData: any): DestructiveSchemaChange[] {
+  const isUserCollection = (name?: string) => !!name && !name.startsWith('directus_');
+  const changes: DestructiveSchemaChange[] = [];
+
+  const droppedCollections = (diffData?.diff?.collections || [])
+    .filter((item: any) => isUserCollection(item.collection) && isWholeDeletion(item))
+    .map((item: any) => item.collection);
+  droppedCollections.forEach((collection: string) => {
+    changes.push({ key: collection, kind: 'drop_collection', collection });
+  });
+
+  (diffData?.diff?.fields || []).forEach((item: any) => {
+    if (!isUserCollection(item.collection) || droppedCollections.includes(item.collection)) {
+      return;
+    }
+    const key = fieldChangeKey(item.collection, item.field);
+    if (isWholeDeletion(item)) {
+      changes.push({ key, kind: 'drop_field', collection: item.collection, field: item.field });
+      return;
+    }
+    const typeEdit = (item.diff || []).find((diffItem: any) => diffItem.kind === 'E' && diffItem.path?.join('.') === 'type')
+      || (item.diff || []).find((diffItem: any) => diffItem.kind === 'E' && diffItem.path?.join('.') === 'schema.data_type');
+    if (typeEdit) {
+      changes.push({ key, kind: 'type_change', collection: item.collection, field: item.field, before: typeEdit.lhs, after: typeEdit.rhs });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Count the target rows and non-null values each destructive change would lose
+ */
+export async function estimateDataLoss(
+  client: DirectusClient,
+  changes: DestructiveSchemaChange[]
+): Promise<Record<string, DataLossEstimate>> {
+  const count = (collection: string, filter?: Record<string, any>) =>
+    client.countItems(collection, filter).catch((error: any) => {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return null;
+    });
+
+  const rowCounts = new Map<string, number | null>();
+  const estimates: Record<string, DataLossEstimate> = {};
+  for (const change of changes) {
+    if (!rowCounts.has(change.collection)) {
+      rowCounts.set(change.collection, await count(change.collection));
+    }
+    const rows = rowCounts.get(change.collection)!;
+    estimates[change.key] = {
+      rows,
+      nonNull: change.field ? await count(change.collection, { [change.field]: { _nnull: true } }) : rows,
+    };
+  }
+  return estimates;
+}
+
+export function describeDestructiveChange(change: DestructiveSchemaChange): string {
+  if (change.kind === 'drop_collection') {
+    return `Drop collection ${change.collection}`;
+  }
+  if (change.kind === 'drop_field') {
+    return `Drop field ${change.key}`;
+  }
+  return `Change type of ${change.key}: ${formatSchemaValue(change.before)} → ${formatSchemaValue(change.after)}`;
+}
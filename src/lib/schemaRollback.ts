@@ -0,0 +1,198 @@
+import { DirectusClient } from './DirectusClient';
+import {
+  estimateDataLoss,
+  getDestructiveChanges,
+  listSnapshotCollections,
+  listSnapshotFields,
+  type DataLossEstimate,
+  type DestructiveSchemaChange,
+} from './schemaDiff';
+import { summarizeSnapshot, type SnapshotSummary } from './schemaSnapshots';
+
+/**
+ * Schema Rollback - every schema apply keeps the target snapshot taken right before it.
+ * Reverting diffs the current target against that snapshot and applies the result,
+ * which undoes the apply (and any other schema change made on the target since).
+ */
+
+export interface SchemaApplyJob {
+  id: string;
+  targetUrl: string;
+  appliedAt: string;
+  sourceLabel: string; // Instance or snapshot file the applied schema came from
+  applied: { collections: number; fields: number; relations: number };
+  preApplySnapshot: any;
+  preApplySummary: SnapshotSummary;
+  revertedAt?: string;
+}
+
+export interface SchemaRollbackPlan {
+  job: SchemaApplyJob;
+  hash: string;
+  diff: { collections: any[]; fields: any[]; relations: any[] };
+  destructive: DestructiveSchemaChange[]; // Dropped columns and collections, type changes
+  estimates: Record<string, DataLossEstimate>;
+}
+
+export interface SchemaRollbackPlanResult {
+  success: boolean;
+  message: string;
+  plan?: SchemaRollbackPlan;
+  error?: any;
+}
+
+const STORAGE_KEY = 'directus-migration-schema-jobs';
+
+export const MAX_SCHEMA_JOBS = 10;
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/$/, '');
+}
+
+function loadJobs(): SchemaApplyJob[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveJobs(jobs: SchemaApplyJob[]): SchemaApplyJob[] {
+  // Pre-apply snapshots are large: drop the oldest jobs until the list fits in storage
+  let kept = jobs.slice(0, MAX_SCHEMA_JOBS);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch {
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return [];
+}
+
+/**
+ * Schema apply jobs of a target, newest first
+ */
+export function getSchemaApplyJobs(targetUrl: string): SchemaApplyJob[] {
+  return loadJobs().filter(job => job.targetUrl === normalizeUrl(targetUrl));
+}
+
+/**
+ * Keep the pre-apply snapshot of an apply about to run. `stored` is false when the
+ * snapshot does not fit in storage even on its own; the earlier jobs are then kept.
+ */
+export function recordSchemaApplyJob(
+  targetUrl: string,
+  sourceLabel: string,
+  preApplySnapshot: any,
+  appliedDiff: { collections?: any[]; fields?: any[]; relations?: any[] }
+): { job: SchemaApplyJob; stored: boolean } {
+  const job: SchemaApplyJob = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    targetUrl: normalizeUrl(targetUrl),
+    appliedAt: new Date().toISOString(),
+    sourceLabel,
+    applied: {
+      collections: appliedDiff.collections?.length || 0,
+      fields: appliedDiff.fields?.length || 0,
+      relations: appliedDiff.relations?.length || 0,
+    },
+    preApplySnapshot,
+    preApplySummary: summarizeSnapshot(preApplySnapshot),
+  };
+  const previous = loadJobs();
+  const stored = saveJobs([job, ...previous]).some(entry => entry.id === job.id);
+  if (!stored) {
+    saveJobs(previous);
+  }
+  return { job, stored };
+}
+
+export function markSchemaJobReverted(id: string): void {
+  saveJobs(loadJobs().map(job => (job.id === id ? { ...job, revertedAt: new Date().toISOString() } : job)));
+}
+
+export function removeSchemaApplyJob(id: string): void {
+  saveJobs(loadJobs().filter(job => job.id !== id));
+}
+
+/**
+ * Diff the current target against the pre-apply snapshot and estimate the data
+ * its destructive changes would lose
+ */
+export async function planSchemaRollback(
+  targetUrl: string,
+  targetToken: string,
+  job: SchemaApplyJob
+): Promise<SchemaRollbackPlanResult> {
+  try {
+    const client = new DirectusClient(targetUrl, targetToken);
+    const snapshot = job.preApplySnapshot;
+    const isUserCollection = (name?: string) => !!name && !name.startsWith('directus_');
+
+    // Same shape handleSchemaDiff sends: arrays, system collections left out
+    const payload = {
+      ...snapshot,
+      collections: listSnapshotCollections(snapshot).filter((collection: any) => isUserCollection(collection.collection)),
+      fields: listSnapshotFields(snapshot).filter((field: any) => isUserCollection(field.collection)),
+      relations: (snapshot.relations || []).filter((relation: any) =>
+        isUserCollection(relation.collection) || isUserCollection(relation.related_collection)
+      ),
+    };
+
+    const response = await client.post('/schema/diff?force=true', payload);
+    const result = response?.data;
+    if (!result?.diff) {
+      return { success: true, message: 'The target already matches the pre-apply snapshot' };
+    }
+
+    const diff = {
+      collections: (result.diff.collections || []).filter((item: any) => isUserCollection(item.collection)),
+      fields: (result.diff.fields || []).filter((item: any) => isUserCollection(item.collection)),
+      relations: result.diff.relations || [],
+    };
+
+    const destructive = getDestructiveChanges({ diff });
+    const estimates = await estimateDataLoss(client, destructive);
+
+    const total = diff.collections.length + diff.fields.length + diff.relations.length;
+    return {
+      success: true,
+      message: total === 0
+        ? 'The target already matches the pre-apply snapshot'
+        : `${total} schema changes revert the target to ${new Date(job.appliedAt).toLocaleString()}`,
+      plan: { job, hash: result.hash, diff, destructive, estimates },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      message: `Could not plan the rollback: ${error.message}`,
+      error: { message: error.message, status: error.response?.status, details: error.response?.data },
+    };
+  }
+}
+
+/**
+ * Apply a rollback plan and mark its job as reverted
+ */
+export async function applySchemaRollback(
+  targetUrl: string,
+  targetToken: string,
+  plan: SchemaRollbackPlan
+): Promise<{ success: boolean; message: string; error?: any }> {
+  try {
+    const client = new DirectusClient(targetUrl, targetToken);
+    await client.post('/schema/apply?force=true', { hash: plan.hash, diff: plan.diff });
+    markSchemaJobReverted(plan.job.id);
+    return { success: true, message: `Schema reverted to the snapshot taken ${new Date(plan.job.appliedAt).toLocaleString()}` };
+  } catch (error: any) {
+    return {
+      success: false,
+      message: `Schema rollback failed: ${error.message}`,
+      error: { message: error.message, status: error.response?.status, details: error.response?.data },
+    };
+  }
+}
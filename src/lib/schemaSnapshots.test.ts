@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots, summarizeSnapshot } from './schemaSnapshots';
+import { getFieldChanges, listSnapshotCollections } from './schemaDiff';
+
+const field = (collection: string, name: string, type: string, meta: Record<string, any> = {}) => ({
+  collection,
+  field: name,
+  type,
+  meta: { note: null, ...meta },
+  schema: { data_type: type },
+});
+
+// Collections and fields keyed by collection, the way /schema/snapshot groups fields
+const before = {
+  collections: {
+    articles: { collection: 'articles', meta: { icon: 'article' } },
+    legacy: { collection: 'legacy', meta: null },
+  },
+  fields: {
+    articles: [field('articles', 'id', 'integer'), field('articles', 'title', 'string')],
+    legacy: [field('legacy', 'id', 'integer')],
+  },
+  relations: [],
+};
+
+// The same schema a release later, as arrays
+const after = {
+  collections: [
+    { collection: 'articles', meta: { icon: 'feed' } },
+    { collection: 'tags', meta: null },
+  ],
+  fields: [
+    field('articles', 'id', 'integer'),
+    field('articles', 'title', 'text'),
+    field('articles', 'summary', 'string', { note: 'Shown in lists' }),
+    field('tags', 'id', 'integer'),
+  ],
+  relations: [{ collection: 'articles', field: 'tag', related_collection: 'tags' }],
+};
+
+describe('diffSnapshots', () => {
+  const { diff } = diffSnapshots(before, after);
+
+  it('reports created, deleted and updated collections', () => {
+    expect(diff.collections).toEqual([
+      { collection: 'articles', diff: [{ kind: 'E', path: ['meta', 'icon'], lhs: 'article', rhs: 'feed' }] },
+      { collection: 'legacy', diff: [{ kind: 'D', lhs: before.collections.legacy }] },
+      { collection: 'tags', diff: [{ kind: 'N', rhs: after.collections[1] }] },
+    ]);
+  });
+
+  it('compares fields whatever the shape of the snapshot', () => {
+    expect(diff.fields.map(change => `${change.collection}.${change.field}`)).toEqual([
+      'articles.summary',
+      'articles.title',
+      'legacy.id',
+      'tags.id',
+    ]);
+    expect(diff.fields.find(change => change.field === 'title')!.diff).toEqual([
+      { kind: 'E', path: ['type'], lhs: 'string', rhs: 'text' },
+      { kind: 'E', path: ['schema', 'data_type'], lhs: 'string', rhs: 'text' },
+    ]);
+  });
+
+  it('reports new relations', () => {
+    expect(diff.relations).toEqual([
+      { collection: 'articles', field: 'tag', related_collection: 'tags', diff: [{ kind: 'N', rhs: after.relations[0] }] },
+    ]);
+  });
+
+  it('finds no changes between a snapshot and itself', () => {
+    expect(diffSnapshots(after, after).diff).toEqual({ collections: [], fields: [], relations: [] });
+  });
+
+  it('produces changes the field review understands', () => {
+    const changes = getFieldChanges({ diff }, after, before);
+    const actions = Object.fromEntries(changes.map(change => [`${change.collection}.${change.field}`, change.action]));
+
+    expect(actions).toMatchObject({
+      'articles.summary': 'create',
+      'articles.title': 'update',
+      'legacy.id': 'delete',
+    });
+  });
+});
+
+describe('snapshot shapes', () => {
+  it('lists collections keyed by name or given as an array', () => {
+    expect(listSnapshotCollections(before).map(entry => entry.collection)).toEqual(['articles', 'legacy']);
+    expect(listSnapshotCollections(after).map(entry => entry.collection)).toEqual(['articles', 'tags']);
+    expect(listSnapshotCollections({})).toEqual([]);
+  });
+
+  it('summarizes both shapes alike', () => {
+    expect(summarizeSnapshot(before)).toEqual({ collections: 2, fields: 3, relations: 0 });
+    expect(summarizeSnapshot(after)).toEqual({ collections: 2, fields: 4, relations: 1 });
+  });
+});
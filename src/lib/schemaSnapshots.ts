@@ -0,0 +1,186 @@
+import yaml from 'js-yaml';
+import { listSnapshotFields } from './schemaDiff';
+
+/**
+ * Schema Snapshots - /schema/snapshot results as files and as a local history.
+ * Files use the same JSON/YAML layout as `directus schema snapshot`, so they can
+ * be loaded back as the source of a diff. The history lives in localStorage.
+ */
+
+export type SnapshotFormat = 'json' | 'yaml';
+
+export interface SnapshotSummary {
+  collections: number;
+  fields: number;
+  relations: number;
+}
+
+export interface SchemaSnapshotEntry extends SnapshotSummary {
+  id: string;
+  label: string; // Instance URL or file name the snapshot came from
+  takenAt: string;
+  directus?: string; // Directus version reported in the snapshot
+  snapshot: any;
+}
+
+const STORAGE_KEY = 'directus-migration-schema-snapshots';
+
+export const MAX_SNAPSHOT_HISTORY = 20;
+
+export const SNAPSHOT_EXTENSIONS: Record<SnapshotFormat, string> = {
+  json: 'json',
+  yaml: 'yaml',
+};
+
+export function summarizeSnapshot(snapshot: any): SnapshotSummary {
+  const count = (value: any) => (Array.isArray(value) ? value : Object.values(value || {})).length;
+  return {
+    collections: count(snapshot?.collections),
+    fields: listSnapshotFields(snapshot).length,
+    relations: count(snapshot?.relations),
+  };
+}
+
+export function serializeSnapshot(snapshot: any, format: SnapshotFormat): string {
+  if (format === 'yaml') {
+    return yaml.dump(snapshot, { noRefs: true, lineWidth: -1 });
+  }
+  return JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+/**
+ * Parse a snapshot file; YAML is assumed unless the name or content says JSON
+ */
+export function parseSnapshotFile(text: string, fileName: string): any {
+  const isJson = /\.json$/i.test(fileName) || text.trimStart().startsWith('{');
+  const parsed: any = isJson ? JSON.parse(text) : yaml.load(text);
+  // Files saved from the API response keep the "data" wrapper
+  const snapshot = parsed?.data?.collections ? parsed.data : parsed;
+  if (!snapshot || typeof snapshot !== 'object' || !snapshot.collections || !snapshot.fields) {
+    throw new Error('Not a Directus schema snapshot (collections and fields are missing)');
+  }
+  return snapshot;
+}
+
+export function getSnapshotFileName(entry: Pick<SchemaSnapshotEntry, 'label' | 'takenAt'>, format: SnapshotFormat): string {
+  const name = entry.label.replace(/^https?:\/\//, '').replace(/[^\w.-]+/g, '-').replace(/-+$/, '');
+  const stamp = entry.takenAt.replace(/[:.]/g, '-').slice(0, 19);
+  return `schema-snapshot-${name}-${stamp}.${SNAPSHOT_EXTENSIONS[format]}`;
+}
+
+export function getSnapshotHistory(): SchemaSnapshotEntry[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(entries: SchemaSnapshotEntry[]): SchemaSnapshotEntry[] {
+  // Snapshots are large: drop the oldest ones until the history fits in storage
+  let kept = entries.slice(0, MAX_SNAPSHOT_HISTORY);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch {
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return [];
+}
+
+/**
+ * Record a snapshot in the history (newest first) and return the new history
+ */
+export function addSnapshotToHistory(snapshot: any, label: string): SchemaSnapshotEntry[] {
+  const entry: SchemaSnapshotEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label: label.replace(/\/$/, ''),
+    takenAt: new Date().toISOString(),
+    directus: snapshot?.directus,
+    ...summarizeSnapshot(snapshot),
+    snapshot,
+  };
+  return saveHistory([entry, ...getSnapshotHistory()]);
+}
+
+export function removeSnapshotFromHistory(id: string): SchemaSnapshotEntry[] {
+  return saveHistory(getSnapshotHistory().filter(entry => entry.id !== id));
+}
+
+function listEntries(value: any): any[] {
+  return (Array.isArray(value) ? value : Object.values(value || {})).flat();
+}
+
+// Edit entries for every leaf that differs, in the deep-diff format /schema/diff returns
+function diffValues(lhs: any, rhs: any, path: string[] = []): any[] {
+  const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (isObject(lhs) && isObject(rhs)) {
+    return [...new Set([...Object.keys(lhs), ...Object.keys(rhs)])].flatMap(key => diffValues(lhs[key], rhs[key], [...path, key]));
+  }
+  if (JSON.stringify(lhs ?? null) === JSON.stringify(rhs ?? null)) {
+    return [];
+  }
+  if (lhs === undefined) {
+    return [{ kind: 'N', path, rhs }];
+  }
+  if (rhs === undefined) {
+    return [{ kind: 'D', path, lhs }];
+  }
+  return [{ kind: 'E', path, lhs, rhs }];
+}
+
+function diffEntries(from: any[], to: any[], keyOf: (entry: any) => string, identify: (entry: any) => Record<string, any>) {
+  const before = new Map(from.map(entry => [keyOf(entry), entry]));
+  const after = new Map(to.map(entry => [keyOf(entry), entry]));
+  const changes: any[] = [];
+
+  [...new Set([...before.keys(), ...after.keys()])].sort().forEach(key => {
+    const lhs = before.get(key);
+    const rhs = after.get(key);
+    if (!lhs) {
+      changes.push({ ...identify(rhs), diff: [{ kind: 'N', rhs }] });
+    } else if (!rhs) {
+      changes.push({ ...identify(lhs), diff: [{ kind: 'D', lhs }] });
+    } else {
+      const diff = diffValues(lhs, rhs);
+      if (diff.length > 0) {
+        changes.push({ ...identify(rhs), diff });
+      }
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compare two snapshots offline. The result has the shape of a /schema/diff
+ * response (without hash), `from` playing the target and `to` the source.
+ */
+export function diffSnapshots(from: any, to: any): { diff: { collections: any[]; fields: any[]; relations: any[] } } {
+  return {
+    diff: {
+      collections: diffEntries(
+        listEntries(from?.collections),
+        listEntries(to?.collections),
+        entry => entry.collection,
+        entry => ({ collection: entry.collection })
+      ),
+      fields: diffEntries(
+        listSnapshotFields(from),
+        listSnapshotFields(to),
+        entry => `${entry.collection}.${entry.field}`,
+        entry => ({ collection: entry.collection, field: entry.field })
+      ),
+      relations: diffEntries(
+        listEntries(from?.relations),
+        listEntries(to?.relations),
+        entry => `${entry.collection}.${entry.field}`,
+        entry => ({ collection: entry.collection, field: entry.field, related_collection: entry.related_collection })
+      ),
+    },
+  };
+}
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { countChangedItems } from './apiHandlers';
+import { DirectusClient } from './DirectusClient';
+import {
+  buildChangedSinceFilter,
+  clearSyncState,
+  detectTimestampFields,
+  getItemTimestamp,
+  getSyncState,
+  hashItem,
+  saveSyncState,
+} from './syncState';
+
+/**
+ * In-memory localStorage that refuses values longer than `quota` characters
+ */
+function createStorage(quota = Infinity) {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > quota) {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+      values.set(key, value);
+    },
+    removeItem: (key: string) => values.delete(key),
+  };
+}
+
+const SOURCE = 'https://source.test/';
+const TARGET = 'https://target.test';
+
+describe('hashItem', () => {
+  it('ignores key order', () => {
+    expect(hashItem({ a: 1, b: { c: 2, d: 3 } })).toBe(hashItem({ b: { d: 3, c: 2 }, a: 1 }));
+  });
+
+  it('changes with any value', () => {
+    expect(hashItem({ id: 1, title: 'a' })).not.toBe(hashItem({ id: 1, title: 'b' }));
+    expect(hashItem({ id: 1, tags: ['a', 'b'] })).not.toBe(hashItem({ id: 1, tags: ['b', 'a'] }));
+  });
+
+  it('returns eight hex digits', () => {
+    expect(hashItem({ id: 1 })).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
+
+describe('detectTimestampFields', () => {
+  it('prefers fields flagged with the date specials', () => {
+    const fields = [
+      { field: 'date_updated' },
+      { field: 'modified_on', meta: { special: ['date-updated'] } },
+      { field: 'created_on', meta: { special: ['date-created'] } },
+    ];
+    expect(detectTimestampFields(fields)).toEqual({ updated: 'modified_on', created: 'created_on' });
+  });
+
+  it('falls back to the default field names', () => {
+    expect(detectTimestampFields([{ field: 'date_created' }])).toEqual({ updated: undefined, created: 'date_created' });
+  });
+});
+
+describe('buildChangedSinceFilter', () => {
+  const watermark = '2024-05-01T10:00:00Z';
+
+  it('includes items stamped exactly at the watermark', () => {
+    expect(buildChangedSinceFilter({ updated: 'date_updated' }, watermark)).toEqual({
+      date_updated: { _gte: watermark },
+    });
+  });
+
+  it('checks date_created for items never updated', () => {
+    expect(buildChangedSinceFilter({ updated: 'date_updated', created: 'date_created' }, watermark)).toEqual({
+      _or: [
+        { date_updated: { _gte: watermark } },
+        { _and: [{ date_updated: { _null: true } }, { date_created: { _gte: watermark } }] },
+      ],
+    });
+  });
+});
+
+describe('getItemTimestamp', () => {
+  const timestamps = { updated: 'date_updated', created: 'date_created' };
+
+  it('uses date_updated, then date_created', () => {
+    expect(getItemTimestamp({ date_updated: '2024-05-02', date_created: '2024-05-01' }, timestamps)).toBe('2024-05-02');
+    expect(getItemTimestamp({ date_updated: null, date_created: '2024-05-01' }, timestamps)).toBe('2024-05-01');
+    expect(getItemTimestamp({}, timestamps)).toBeUndefined();
+  });
+});
+
+describe('sync state storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores state per source, target and collection', () => {
+    const state = { mode: 'timestamp' as const, watermark: '2024-05-01', lastSyncAt: '2024-05-01' };
+
+    expect(saveSyncState(SOURCE, TARGET, 'articles', state)).toBe(true);
+
+    // A trailing slash does not make it another source
+    expect(getSyncState('https://source.test', TARGET, 'articles')).toEqual(state);
+    expect(getSyncState(SOURCE, TARGET, 'pages')).toBeNull();
+    expect(getSyncState(SOURCE, 'https://other.test', 'articles')).toBeNull();
+
+    clearSyncState(SOURCE, TARGET, 'articles');
+    expect(getSyncState(SOURCE, TARGET, 'articles')).toBeNull();
+  });
+
+  it('drops the hashes when they do not fit in storage', () => {
+    vi.stubGlobal('localStorage', createStorage(200));
+    const hashes = Object.fromEntries(Array.from({ length: 50 }, (_, index) => [String(index), hashItem({ id: index })]));
+
+    const stored = saveSyncState(SOURCE, TARGET, 'tags', { mode: 'hash', hashes, lastSyncAt: '2024-05-01' });
+
+    expect(stored).toBe(false);
+    expect(getSyncState(SOURCE, TARGET, 'tags')).toEqual({ mode: 'hash', lastSyncAt: '2024-05-01' });
+  });
+});
+
+describe('sync planning', () => {
+  /**
+   * Stub the source: its field definitions and rows, answering list, count and field reads
+   */
+  function stubSource(fields: any[], rows: any[]) {
+    const countFilters: any[] = [];
+    vi.spyOn(DirectusClient.prototype, 'get').mockImplementation(async (endpoint: string, options: { params?: Record<string, any> } = {}) => {
+      const params = options.params || {};
+      if (endpoint.startsWith('/fields/')) {
+        return { data: fields };
+      }
+      if (params.aggregate) {
+        countFilters.push(params.filter);
+        return { data: [{ count: params.filter ? 1 : rows.length }] };
+      }
+      const after = params.filter?.uuid?._gt;
+      return { data: rows.filter(row => after === undefined || row.uuid > after).slice(0, params.limit) };
+    });
+    return { countFilters };
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('counts items whose hash changed, keyed by the primary key', async () => {
+    const rows = [{ uuid: 'a', title: 'kept' }, { uuid: 'b', title: 'edited' }, { uuid: 'c', title: 'new' }];
+    stubSource([{ field: 'uuid', schema: { is_primary_key: true } }, { field: 'title' }], rows);
+    saveSyncState(SOURCE, TARGET, 'tags', {
+      mode: 'hash',
+      hashes: { a: hashItem(rows[0]), b: hashItem({ uuid: 'b', title: 'original' }) },
+      lastSyncAt: '2024-05-01',
+    });
+
+    const result = await countChangedItems(SOURCE, 'token', TARGET, 'tags');
+
+    expect(result).toMatchObject({ success: true, mode: 'hash', changed: 2, total: 3 });
+  });
+
+  it('counts items past the watermark with the inclusive filter', async () => {
+    const { countFilters } = stubSource([{ field: 'id' }, { field: 'date_updated' }], [{ id: 1 }, { id: 2 }]);
+    saveSyncState(SOURCE, TARGET, 'articles', { mode: 'timestamp', watermark: '2024-05-01', lastSyncAt: '2024-05-01' });
+
+    const result = await countChangedItems(SOURCE, 'token', TARGET, 'articles');
+
+    expect(result).toMatchObject({ success: true, mode: 'timestamp', changed: 1, total: 2 });
+    expect(countFilters).toContainEqual({ date_updated: { _gte: '2024-05-01' } });
+  });
+
+  it('ignores state recorded in another mode', async () => {
+    stubSource([{ field: 'id' }, { field: 'date_created' }], [{ id: 1 }, { id: 2 }]);
+    saveSyncState(SOURCE, TARGET, 'articles', { mode: 'hash', hashes: { 1: 'x' }, lastSyncAt: '2024-05-01' });
+
+    const result = await countChangedItems(SOURCE, 'token', TARGET, 'articles');
+
+    expect(result).toMatchObject({ success: true, mode: 'timestamp', changed: 2, total: 2, lastSyncAt: undefined });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Sync State - Watermarks for incremental (delta) collection sync
+ * Stored in localStorage per source/target/collection so they survive sessions.
+ */
+
+const STORAGE_KEY = 'directus-migration-sync-state';
+
+export type SyncMode = 'timestamp' | 'hash';
+
+export interface CollectionSyncState {
+  mode: SyncMode;
+  watermark?: string; // Max date_updated/date_created seen (timestamp mode)
+  hashes?: Record<string, string>; // Item id -> content hash (hash mode)
+  lastSyncAt: string;
+}
+
+export interface TimestampFields {
+  updated?: string;
+  created?: string;
+}
+
+function getSyncKey(sourceUrl: string, targetUrl: string, collection: string): string {
+  const normalize = (url: string) => url.replace(/\/$/, '');
+  return `${normalize(sourceUrl)}|${normalize(targetUrl)}|${collection}`;
+}
+
+function loadAll(): Record<string, CollectionSyncState> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getSyncState(
+  sourceUrl: string,
+  targetUrl: string,
+  collection: string
+): CollectionSyncState | null {
+  return loadAll()[getSyncKey(sourceUrl, targetUrl, collection)] || null;
+}
+
+/**
+ * Store the sync state of a collection. Hashes of a large collection can exceed the
+ * storage quota; they are then dropped so the next sync compares every item again.
+ * Returns false when the hashes had to be dropped or nothing could be stored.
+ */
+export function saveSyncState(
+  sourceUrl: string,
+  targetUrl: string,
+  collection: string,
+  state: CollectionSyncState
+): boolean {
+  const all = loadAll();
+  const key = getSyncKey(sourceUrl, targetUrl, collection);
+  all[key] = state;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    return true;
+  } catch {
+    const { hashes, ...withoutHashes } = state;
+    if (hashes) {
+      all[key] = withoutHashes;
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+      } catch {
+        // Storage is full even without the hashes; the previous state is kept
+      }
+    }
+    return false;
+  }
+}
+
+export function clearSyncState(sourceUrl: string, targetUrl: string, collection: string): void {
+  const all = loadAll();
+  delete all[getSyncKey(sourceUrl, targetUrl, collection)];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
+
+/**
+ * Pick the timestamp fields of a collection from its field definitions
+ */
+export function detectTimestampFields(fields: any[]): TimestampFields {
+  const find = (special: string, name: string) =>
+    fields.find(f => Array.isArray(f.meta?.special) && f.meta.special.includes(special))?.field ||
+    fields.find(f => f.field === name)?.field;
+
+  return {
+    updated: find('date-updated', 'date_updated'),
+    created: find('date-created', 'date_created'),
+  };
+}
+
+/**
+ * Filter matching items created or updated at or after the watermark.
+ * The bound is inclusive because items can share the watermark's timestamp without all
+ * having been read; the ones already written are matched again and upserted unchanged.
+ * Items never updated have a null date_updated, so date_created is checked for those.
+ */
+export function buildChangedSinceFilter(
+  timestamps: TimestampFields,
+  watermark: string
+): Record<string, any> {
+  const { updated, created } = timestamps;
+  if (updated && created) {
+    return {
+      _or: [
+        { [updated]: { _gte: watermark } },
+        { _and: [{ [updated]: { _null: true } }, { [created]: { _gte: watermark } }] },
+      ],
+    };
+  }
+  return { [(updated || created)!]: { _gte: watermark } };
+}
+
+/**
+ * Latest timestamp of an item, used to advance the watermark
+ */
+export function getItemTimestamp(item: any, timestamps: TimestampFields): string | undefined {
+  return (timestamps.updated && item[timestamps.updated]) || (timestamps.created && item[timestamps.created]) || undefined;
+}
+
+/**
+ * Content hash of an item (FNV-1a over JSON with sorted keys)
+ */
+export function hashItem(item: any): string {
+  const json = JSON.stringify(item, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value).sort().reduce((sorted: Record<string, any>, key) => {
+          sorted[key] = value[key];
+          return sorted;
+        }, {})
+      : value
+  );
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}